@@ -1,21 +1,28 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import RoomSelector from './components/room/RoomSelector';
+import ReloadRequiredModal from './components/room/ReloadRequiredModal';
 import Room from './pages/Room';
+import Admin from './pages/Admin';
 import { useWebSocket } from './hooks/useWebSocket';
 import { ThemeProvider } from './context/ThemeContext';
 import ThemeToggle from './components/common/ThemeToggle';
 import './App.css';
 
 const RoomSelectorRoute: React.FC = () => {
-  const { createRoom, joinRoom, isReady } = useWebSocket();
+  const { createRoom, joinRoom, isReady, passphrasePrompt, roomExit, needsReload } = useWebSocket();
 
   return (
-    <RoomSelector
-      onCreateRoom={createRoom}
-      onJoinRoom={joinRoom}
-      isReady={isReady}
-    />
+    <>
+      <RoomSelector
+        onCreateRoom={createRoom}
+        onJoinRoom={joinRoom}
+        isReady={isReady}
+        passphrasePrompt={passphrasePrompt}
+        roomExit={roomExit}
+      />
+      <ReloadRequiredModal isOpen={needsReload} />
+    </>
   );
 };
 
@@ -26,6 +33,7 @@ const AppContent: React.FC = () => {
       <div className="container">
         <Routes>
           <Route path="/" element={<RoomSelectorRoute />} />
+          <Route path="/admin" element={<Admin />} />
           <Route path="/:roomId" element={<Room />} />
         </Routes>
       </div>
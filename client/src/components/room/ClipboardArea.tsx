@@ -280,6 +280,11 @@ const ClipboardArea: React.FC<ClipboardAreaProps> = ({
         return;
     }
 
+    if (item.status === 'corrupted') {
+        showToast('This file failed its integrity check and cannot be used.', 'error');
+        return;
+    }
+
     if (item.type === 'text' || item.type === 'rich-text') {
       if (item.type === 'rich-text' && navigator.clipboard && navigator.clipboard.write) {
         try {
@@ -376,6 +381,10 @@ const ClipboardArea: React.FC<ClipboardAreaProps> = ({
         showToast('Cannot download file while it is transferring.', 'info');
         return;
     }
+    if (item.status === 'corrupted') {
+        showToast('This file failed its integrity check and cannot be downloaded.', 'error');
+        return;
+    }
     const filename = item.name || `paste-${item.id}`;
 
     if ((item.type === 'text' || item.type === 'rich-text') && !item.name) {
@@ -542,6 +551,7 @@ const ClipboardArea: React.FC<ClipboardAreaProps> = ({
                     {file.type}
                     {file.size !== undefined ? ` • ${formatBytes(file.size)}` : ''}
                     {isTransferActive(file) ? ` • ${Math.round(file.progress ?? 0)}%` : ''}
+                    {file.status === 'corrupted' ? ' • ⚠ integrity check failed' : ''}
                   </span>
                   {isTransferActive(file) && (
                     <div className="collection-file__progress">
@@ -704,6 +714,27 @@ const ClipboardArea: React.FC<ClipboardAreaProps> = ({
                         />
                       </div>
                     )}
+                    {item.status === 'queued' && (
+                      <div className="clip-card__progress">
+                        <span className="progress-label progress-label--queued">
+                          Queued — sends when the room is back
+                        </span>
+                      </div>
+                    )}
+                    {item.senderUnverified && (
+                      <div className="clip-card__progress">
+                        <span className="progress-label progress-label--error" title="The sender left before this device joined, so its key came from the server">
+                          ⚠ Sender unverified — key supplied by the server
+                        </span>
+                      </div>
+                    )}
+                    {item.status === 'corrupted' && (
+                      <div className="clip-card__progress">
+                        <span className="progress-label progress-label--error">
+                          ⚠ Integrity check failed{item.error ? ` — ${item.error}` : ''}
+                        </span>
+                      </div>
+                    )}
                     {item.type !== 'collection' && (transferActive || isRecentlyCompleted) && (
                       <div className="clip-card__progress">
                         {item.progress !== 100 && !isRecentlyCompleted && (
@@ -0,0 +1,28 @@
+import React from 'react';
+import './QRCodeModal.css';
+
+interface JoinPendingModalProps {
+  roomId: string | null; // Room we are waiting on; the modal is hidden when null
+  onCancel: () => void;
+}
+
+const JoinPendingModal: React.FC<JoinPendingModalProps> = ({ roomId, onCancel }) => {
+  if (!roomId) {
+    return null;
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content" role="status">
+        <h2>Waiting for approval</h2>
+        <p className="modal-room-id">{roomId}</p>
+        <p className="modal-url">
+          Room {roomId} requires approval. Someone in the room needs to let this device in.
+        </p>
+        <button className="btn btn-secondary" onClick={onCancel}>Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+export default JoinPendingModal;
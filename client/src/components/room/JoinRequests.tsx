@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import './JoinRequests.css';
+import { JoinRequest } from '../../types';
+import { getKeyFingerprint } from '../../utils/safetyNumber';
+import { verifyEphemeralKey, getKnownDevice } from '../../utils/deviceIdentity';
+
+interface JoinRequestsProps {
+  requests: JoinRequest[];
+  onRespond: (requestId: string, approve: boolean) => void;
+}
+
+interface RequestDetails {
+  fingerprint: string | null; // Identity key when validly signed, else the session key
+  deviceName?: string;
+  status: 'known' | 'new' | 'invalid' | 'none';
+}
+
+const FINGERPRINT_CHARS = 32;
+
+const formatFingerprint = (fingerprint: string) => (
+  fingerprint.slice(0, FINGERPRINT_CHARS).toUpperCase().match(/.{4}/g)!.join(' ')
+);
+
+const STATUS_LABELS: Record<RequestDetails['status'], string> = {
+  known: 'Known device',
+  new: 'New device',
+  invalid: 'Unsigned key',
+  none: 'No device identity',
+};
+
+const getRequestDetails = async (request: JoinRequest): Promise<RequestDetails> => {
+  if (!request.publicKey) return { fingerprint: null, status: 'none' };
+  if (!request.identity) {
+    return { fingerprint: await getKeyFingerprint(request.publicKey), status: 'none' };
+  }
+  if (!(await verifyEphemeralKey(request.identity, request.publicKey))) {
+    return { fingerprint: await getKeyFingerprint(request.publicKey), status: 'invalid' };
+  }
+  const fingerprint = await getKeyFingerprint(request.identity.publicKey);
+  const known = await getKnownDevice(fingerprint).catch(() => null);
+  return {
+    fingerprint,
+    deviceName: request.identity.deviceName ?? known?.deviceName,
+    status: known ? 'known' : 'new',
+  };
+};
+
+/**
+ * Devices knocking on a room in approval mode.  Shows enough to tell them
+ * apart — device fingerprint and browser — before a member lets them in.
+ */
+const JoinRequests: React.FC<JoinRequestsProps> = ({ requests, onRespond }) => {
+  const [details, setDetails] = useState<Record<string, RequestDetails>>({});
+  const checkedRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    requests.filter(request => !checkedRef.current.has(request.id)).forEach(request => {
+      checkedRef.current.add(request.id);
+      getRequestDetails(request)
+        .catch((): RequestDetails => ({ fingerprint: null, status: 'none' }))
+        .then(result => setDetails(prev => ({ ...prev, [request.id]: result })));
+    });
+  }, [requests]);
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="join-requests" role="region" aria-label="Devices waiting to join">
+      {requests.map(request => {
+        const info = details[request.id];
+        return (
+          <div key={request.id} className="join-request">
+            <div className="join-request__text">
+              <strong>{info?.deviceName || `Device ${request.id.slice(0, 6)}`} wants to join</strong>
+              <span className="join-request__fingerprint" title="Ask the device's owner to check this matches">
+                {info ? (info.fingerprint ? formatFingerprint(info.fingerprint) : 'No key') : 'Checking…'}
+              </span>
+              {info && (
+                <span className={`join-request__status join-request__status--${info.status}`}>
+                  {STATUS_LABELS[info.status]}
+                </span>
+              )}
+              {request.userAgent && (
+                <span className="join-request__agent" title={request.userAgent}>{request.userAgent}</span>
+              )}
+            </div>
+            <div className="join-request__actions">
+              <button className="btn btn-primary" onClick={() => onRespond(request.id, true)}>
+                Approve
+              </button>
+              <button className="btn btn-danger" onClick={() => onRespond(request.id, false)}>
+                Deny
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default JoinRequests;
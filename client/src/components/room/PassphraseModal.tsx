@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import './QRCodeModal.css';
+import './PassphraseModal.css';
+
+interface PassphraseModalProps {
+  isOpen: boolean;
+  roomId: string;
+  invalid: boolean;
+  onSubmit: (passphrase: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+const PassphraseModal: React.FC<PassphraseModalProps> = ({ isOpen, roomId, invalid, onSubmit, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setSubmitting(true);
+    // Key stretching takes a moment, so keep the button disabled until the server answers
+    const success = await onSubmit(passphrase);
+    setSubmitting(false);
+    if (success) setPassphrase('');
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <button className="modal-close-button" onClick={onCancel}>&times;</button>
+        <h2>Room {roomId} is protected</h2>
+        <form className="passphrase-form" onSubmit={handleSubmit}>
+          <input
+            type="password"
+            className="passphrase-form__input"
+            placeholder="Room passphrase"
+            aria-label="Room passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoFocus
+          />
+          {invalid && <p className="passphrase-form__error" role="alert">Incorrect passphrase. Try again.</p>}
+          <button type="submit" className="btn btn-primary" disabled={!passphrase || submitting}>
+            {submitting ? 'Checking…' : 'Join'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PassphraseModal;
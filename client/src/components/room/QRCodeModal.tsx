@@ -6,9 +6,10 @@ interface QRCodeModalProps {
   isOpen: boolean;
   onClose: () => void;
   url: string;
+  roomId?: string; // Shown under the code for typing in by hand
 }
 
-const QRCodeModal: React.FC<QRCodeModalProps> = ({ isOpen, onClose, url }) => {
+const QRCodeModal: React.FC<QRCodeModalProps> = ({ isOpen, onClose, url, roomId }) => {
   if (!isOpen) {
     return null;
   }
@@ -21,6 +22,7 @@ const QRCodeModal: React.FC<QRCodeModalProps> = ({ isOpen, onClose, url }) => {
         <div className="qrcode-container">
           <QRCodeCanvas value={url} size={256} />
         </div>
+        {roomId && <p className="modal-room-id">{roomId}</p>}
         <p className="modal-url">{url}</p>
       </div>
     </div>
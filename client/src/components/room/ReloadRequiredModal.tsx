@@ -0,0 +1,30 @@
+import React from 'react';
+import './QRCodeModal.css';
+
+interface ReloadRequiredModalProps {
+  isOpen: boolean;
+}
+
+/**
+ * Shown when the server no longer speaks this page's protocol version,
+ * usually because the app was updated while the tab stayed open.
+ */
+const ReloadRequiredModal: React.FC<ReloadRequiredModalProps> = ({ isOpen }) => {
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content" role="alertdialog" aria-labelledby="reload-required-title">
+        <h2 id="reload-required-title">Instant Paste was updated</h2>
+        <p className="modal-url">
+          This page is out of date and can no longer connect. Reload it to keep sharing.
+        </p>
+        <button className="btn btn-primary" onClick={() => window.location.reload()}>Reload</button>
+      </div>
+    </div>
+  );
+};
+
+export default ReloadRequiredModal;
@@ -3,6 +3,14 @@ import './RoomInfo.css';
 import { RoomState } from '../../types';
 import { copyToClipboard } from '../../utils/clipboard';
 import QRCodeModal from './QRCodeModal';
+import { PeerVerification, PeerIdentityStatus } from '../../hooks/usePeerVerification';
+import {
+  getDeviceName,
+  setDeviceName,
+  isIdentityEnabled,
+  setIdentityEnabled,
+  MAX_DEVICE_NAME_LENGTH,
+} from '../../utils/deviceIdentity';
 
 interface RoomInfoProps {
   roomState: RoomState;
@@ -14,8 +22,25 @@ interface RoomInfoProps {
   onToggleEncryptFiles: (enabled: boolean) => void;
   showToast: (message: string, type?: 'success' | 'error' | 'info') => void;
   onClearAll: () => void;
+  peers: PeerVerification[];
+  onSetPeerVerified: (peerId: string, verified: boolean) => void;
+  keyChangeAlerts: string[];
+  onDismissKeyChangeAlert: (peerId: string) => void;
+  passphraseProtected: boolean;
+  onKick: (clientId: string) => void;
+  onSetLocked: (locked: boolean) => void;
+  onTransferOwner: (clientId: string) => void;
+  onSetKnock: (enabled: boolean) => void;
 }
 
+const getDeviceLabel = (peerId: string, deviceName?: string) => deviceName || `Device ${peerId.slice(0, 6)}`;
+
+const IDENTITY_BADGES: Partial<Record<PeerIdentityStatus, { label: string; className: string; title: string }>> = {
+  known: { label: 'Known device', className: 'badge--secure', title: 'This device has been in a room with you before' },
+  new: { label: 'New device', className: 'badge--neutral', title: 'First time this device has been seen on this browser' },
+  invalid: { label: 'Unsigned key', className: 'badge--insecure', title: 'The session key was not signed by the device identity it claims' },
+};
+
 const RoomInfo: React.FC<RoomInfoProps> = ({
   roomState,
   onLeave,
@@ -25,9 +50,54 @@ const RoomInfo: React.FC<RoomInfoProps> = ({
   encryptFilesEnabled,
   onToggleEncryptFiles,
   showToast,
-  onClearAll
+  onClearAll,
+  peers,
+  onSetPeerVerified,
+  keyChangeAlerts,
+  onDismissKeyChangeAlert,
+  passphraseProtected,
+  onKick,
+  onSetLocked,
+  onTransferOwner,
+  onSetKnock,
 }) => {
   const [showQrCode, setShowQrCode] = useState(false);
+  const [deviceName, setDeviceNameInput] = useState(getDeviceName);
+  const [rememberDevice, setRememberDevice] = useState(isIdentityEnabled);
+
+  const toggleRememberDevice = () => {
+    const enabled = !rememberDevice;
+    setRememberDevice(enabled);
+    setIdentityEnabled(enabled)
+      .then(() => showToast(
+        enabled
+          ? 'This device will be remembered the next time you join'
+          : 'Device identity deleted; you will join as a new device next time',
+        'info',
+      ))
+      .catch(error => {
+        console.error('Failed to update device identity:', error);
+        showToast('Failed to update device identity', 'error');
+      });
+  };
+
+  const isOwner = !!roomState.ownerId && roomState.ownerId === roomState.clientId;
+
+  const handleKick = (peer: PeerVerification) => {
+    const label = getDeviceLabel(peer.id, peer.deviceName);
+    const hint = roomState.locked ? '' : '\n\nThey can rejoin unless you lock the room.';
+    if (window.confirm(`Remove ${label} from this room?${hint}`)) onKick(peer.id);
+  };
+
+  const handleTransferOwner = (peer: PeerVerification) => {
+    const label = getDeviceLabel(peer.id, peer.deviceName);
+    if (window.confirm(`Make ${label} the room owner? You will lose the owner controls.`)) onTransferOwner(peer.id);
+  };
+
+  const getPeerLabel = (peerId: string) => getDeviceLabel(
+    peerId,
+    peers.find(peer => peer.id === peerId)?.deviceName,
+  );
 
   const copyRoomId = () => {
     if (roomState.roomId) {
@@ -43,12 +113,28 @@ const RoomInfo: React.FC<RoomInfoProps> = ({
   };
 
   const getRoomUrl = () => {
-    return `${window.location.origin}/${roomState.roomId}`;
+    return `${window.location.origin}/${encodeURIComponent(roomState.roomId ?? '')}`;
   };
 
   return (
     <>
       <div className="room-info">
+        {/* ── Key change alerts for verified devices ── */}
+        {keyChangeAlerts.map(peerId => (
+          <div key={peerId} className="key-alert" role="alert">
+            <div className="key-alert__text">
+              <strong>⚠ Security key changed for {getPeerLabel(peerId)}</strong>
+              <span>
+                This device was verified, but the server now reports a different key.
+                Someone may be intercepting this room. Stop sharing and compare safety numbers again.
+              </span>
+            </div>
+            <button className="key-alert__dismiss" onClick={() => onDismissKeyChangeAlert(peerId)}>
+              Dismiss
+            </button>
+          </div>
+        ))}
+
         {/* ── Top row: room identity + quick actions ── */}
         <div className="room-header">
           <div className="room-details">
@@ -93,6 +179,48 @@ const RoomInfo: React.FC<RoomInfoProps> = ({
             </svg>
             {encryptionEnabled ? 'E2EE' : 'No E2EE'}
           </span>
+          {passphraseProtected && (
+            <span className="badge badge--secure" title="Joining needs the room passphrase, and it is mixed into the encryption keys">
+              Passphrase
+            </span>
+          )}
+          {isOwner && <span className="badge badge--neutral" title="You can remove devices, lock the room and hand it off">Owner</span>}
+          {roomState.locked && !isOwner && (
+            <span className="badge badge--neutral" title="The owner has stopped new devices from joining">Locked</span>
+          )}
+          {roomState.knock && !isOwner && (
+            <span className="badge badge--neutral" title="New devices wait until someone in the room lets them in">Approval</span>
+          )}
+
+          {/* Toggle: Lock Room (owner only) */}
+          {isOwner && (
+            <label className={`toggle-pill ${roomState.locked ? 'toggle-pill--on' : ''}`} title="Stop new devices from joining">
+              <input
+                type="checkbox"
+                checked={roomState.locked}
+                onChange={() => onSetLocked(!roomState.locked)}
+              />
+              <span className="toggle-pill__track">
+                <span className="toggle-pill__thumb" />
+              </span>
+              <span className="toggle-pill__label">Lock Room</span>
+            </label>
+          )}
+
+          {/* Toggle: Require Approval (owner only) */}
+          {isOwner && (
+            <label className={`toggle-pill ${roomState.knock ? 'toggle-pill--on' : ''}`} title="New devices wait until someone in the room lets them in">
+              <input
+                type="checkbox"
+                checked={roomState.knock}
+                onChange={() => onSetKnock(!roomState.knock)}
+              />
+              <span className="toggle-pill__track">
+                <span className="toggle-pill__thumb" />
+              </span>
+              <span className="toggle-pill__label">Require Approval</span>
+            </label>
+          )}
 
           {/* Toggle: Encrypt Files */}
           <label
@@ -140,12 +268,96 @@ const RoomInfo: React.FC<RoomInfoProps> = ({
             Clear All
           </button>
         </div>
+
+        {/* ── Peers: verification and owner controls ── */}
+        {peers.length > 0 && (encryptionEnabled || isOwner) && (
+          <div className="peer-list">
+            {encryptionEnabled && (
+              <p className="peer-list__hint">
+                Compare safety numbers with each device in person to make sure no one is intercepting.
+              </p>
+            )}
+            {peers.map(peer => (
+              <div key={peer.id} className={`peer-row ${peer.keyChanged ? 'peer-row--changed' : ''}`}>
+                <div className="peer-row__identity">
+                  <span className="peer-row__name">
+                    {getDeviceLabel(peer.id, peer.deviceName)}
+                    {IDENTITY_BADGES[peer.identityStatus] && (
+                      <span
+                        className={`badge ${IDENTITY_BADGES[peer.identityStatus]!.className}`}
+                        title={IDENTITY_BADGES[peer.identityStatus]!.title}
+                      >
+                        {IDENTITY_BADGES[peer.identityStatus]!.label}
+                      </span>
+                    )}
+                    {peer.id === roomState.ownerId && <span className="badge badge--neutral">Owner</span>}
+                    {peer.keyChanged && <span className="badge badge--insecure">Key changed</span>}
+                  </span>
+                  {encryptionEnabled && (peer.safetyNumber ? (
+                    <span className="peer-row__code" title={peer.safetyNumber.digits}>
+                      <span className="peer-row__emoji">{peer.safetyNumber.emoji.join(' ')}</span>
+                      <span className="peer-row__digits">{peer.safetyNumber.digits}</span>
+                    </span>
+                  ) : (
+                    <span className="peer-row__digits">No encryption key</span>
+                  ))}
+                </div>
+                <div className="peer-row__actions">
+                  {encryptionEnabled && peer.safetyNumber && (
+                    <button
+                      className={`room-btn ${peer.verified ? 'room-btn--verified' : ''}`}
+                      onClick={() => onSetPeerVerified(peer.id, !peer.verified)}
+                      title={peer.verified ? 'Remove verification' : 'Mark as verified after comparing safety numbers'}
+                    >
+                      {peer.verified ? '✓ Verified' : 'Mark verified'}
+                    </button>
+                  )}
+                  {isOwner && (
+                    <>
+                      <button className="room-btn" onClick={() => handleTransferOwner(peer)} title="Hand room ownership to this device">
+                        Make owner
+                      </button>
+                      <button className="room-btn room-btn--danger" onClick={() => handleKick(peer)} title="Remove this device from the room">
+                        Remove
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* ── This device ── */}
+        {encryptionEnabled && (
+          <div className="device-settings">
+            <input
+              className="device-settings__name"
+              type="text"
+              value={deviceName}
+              maxLength={MAX_DEVICE_NAME_LENGTH}
+              placeholder="Name this device"
+              aria-label="Device name"
+              onChange={(e) => setDeviceNameInput(e.target.value)}
+              onBlur={() => setDeviceName(deviceName)}
+            />
+            <label className={`toggle-pill ${rememberDevice ? 'toggle-pill--on' : ''}`} title="Keep a device identity key so other devices recognise this one">
+              <input type="checkbox" checked={rememberDevice} onChange={toggleRememberDevice} />
+              <span className="toggle-pill__track">
+                <span className="toggle-pill__thumb" />
+              </span>
+              <span className="toggle-pill__label">Remember this device</span>
+            </label>
+            <span className="device-settings__hint">Changes apply the next time you join.</span>
+          </div>
+        )}
       </div>
 
       {showQrCode && roomState.roomId && (
         <QRCodeModal
           isOpen={showQrCode}
           url={getRoomUrl()}
+          roomId={roomState.roomId}
           onClose={() => setShowQrCode(false)}
         />
       )}
@@ -1,25 +1,44 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { getRecentRooms, addRecentRoom } from '../../utils/recentRooms';
+import { isPassphraseSupported } from '../../utils/roomPassphrase';
+import {
+  RoomIdFormat,
+  MAX_ROOM_ID_LENGTH,
+  fetchRoomIdFormat,
+  getRoomIdPlaceholder,
+  isValidRoomId,
+  normalizeRoomId,
+} from '../../utils/roomId';
+import { PassphrasePrompt, RoomExit } from '../../hooks/useWebSocket';
 import './RoomSelector.css';
 
 interface RoomSelectorProps {
-  onCreateRoom: () => Promise<string | null>;
-  onJoinRoom: (roomId: string) => Promise<boolean>;
+  onCreateRoom: (passphrase?: string) => Promise<string | null>;
+  onJoinRoom: (roomId: string, passphrase?: string) => Promise<boolean>;
   isReady: boolean;
+  passphrasePrompt: PassphrasePrompt | null;
+  roomExit: RoomExit | null;
 }
 
-const RoomSelector: React.FC<RoomSelectorProps> = ({ onCreateRoom, onJoinRoom, isReady }) => {
+const RoomSelector: React.FC<RoomSelectorProps> = ({ onCreateRoom, onJoinRoom, isReady, passphrasePrompt, roomExit }) => {
   const [roomId, setRoomId] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [roomIdFormat, setRoomIdFormat] = useState<RoomIdFormat | null>(null);
   const [recentRooms, setRecentRooms] = useState<string[]>([]);
   const navigate = useNavigate();
+  const notice = (useLocation().state as { notice?: string } | null)?.notice;
 
   useEffect(() => {
     setRecentRooms(getRecentRooms());
+    fetchRoomIdFormat().then(setRoomIdFormat);
   }, []);
 
+  const isWordFormat = roomIdFormat?.format === 'words';
+  const isRoomIdValid = isValidRoomId(roomId, roomIdFormat);
+
   const handleCreate = async () => {
-    const newRoomId = await onCreateRoom();
+    const newRoomId = await onCreateRoom(passphrase || undefined);
     if (newRoomId) {
       addRecentRoom(newRoomId);
       navigate(`/${newRoomId}`);
@@ -28,9 +47,9 @@ const RoomSelector: React.FC<RoomSelectorProps> = ({ onCreateRoom, onJoinRoom, i
 
   const handleJoin = async (e: React.FormEvent) => {
     e.preventDefault();
-    const roomToJoin = roomId.trim().toUpperCase();
-    if (!roomToJoin) return;
-    const success = await onJoinRoom(roomToJoin);
+    const roomToJoin = normalizeRoomId(roomId);
+    if (!roomToJoin || !isValidRoomId(roomToJoin, roomIdFormat)) return;
+    const success = await onJoinRoom(roomToJoin, passphrase || undefined);
     if (success) {
       addRecentRoom(roomToJoin);
       navigate(`/${roomToJoin}`);
@@ -57,18 +76,42 @@ const RoomSelector: React.FC<RoomSelectorProps> = ({ onCreateRoom, onJoinRoom, i
           <form onSubmit={handleJoin} className="join-form hero-join">
             <input
               type="text"
-              placeholder="Enter room ID"
+              placeholder={getRoomIdPlaceholder(roomIdFormat)}
               value={roomId}
-              onChange={(e) => setRoomId(e.target.value.toUpperCase())}
-              maxLength={6}
-              className="room-input"
+              onChange={(e) => setRoomId(isWordFormat ? e.target.value.toLowerCase() : normalizeRoomId(e.target.value))}
+              maxLength={isWordFormat || !roomIdFormat ? MAX_ROOM_ID_LENGTH : Math.max(roomIdFormat.length, 6)}
+              className={`room-input ${isWordFormat ? 'room-input--words' : ''}`}
               aria-label="Enter room ID"
             />
-            <button type="submit" className="btn btn-ghost" disabled={!roomId.trim() || !isReady}>
+            <button type="submit" className="btn btn-ghost" disabled={!isRoomIdValid || !isReady}>
               Join
             </button>
           </form>
         </div>
+        {isPassphraseSupported() && (
+          <div className="passphrase-field">
+            <input
+              type="password"
+              placeholder="Passphrase (optional)"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="passphrase-field__input"
+              aria-label="Room passphrase"
+            />
+            {passphrasePrompt && (
+              <span className="join-error" role="alert">
+                {passphrasePrompt.invalid
+                  ? 'Incorrect passphrase for this room.'
+                  : `Room ${passphrasePrompt.roomId} needs a passphrase.`}
+              </span>
+            )}
+          </div>
+        )}
+        {roomExit?.reason === 'locked' ? (
+          <span className="join-error" role="alert">Room {roomExit.roomId} is locked by its owner.</span>
+        ) : notice && (
+          <span className="join-error" role="alert">{notice}</span>
+        )}
         <div className="hero-footnotes">
           <span>Works on all modern browsers</span>
           <span>Text E2E encrypted (AES-GCM)</span>
@@ -105,7 +148,7 @@ const RoomSelector: React.FC<RoomSelectorProps> = ({ onCreateRoom, onJoinRoom, i
           <div className="step">
             <div className="step-icon">1</div>
             <h4>Create or join a room</h4>
-            <p>Spin up a room with one click or enter an existing 6-character ID.</p>
+            <p>Spin up a room with one click or enter the ID of an existing one.</p>
           </div>
           <div className="step">
             <div className="step-icon">2</div>
@@ -0,0 +1,212 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { RoomClient, PeerIdentity } from '../types/index';
+import { SafetyNumber, computeSafetyNumber, getKeyFingerprint } from '../utils/safetyNumber';
+import { verifyEphemeralKey, recordKnownDevice, setKnownDeviceVerified } from '../utils/deviceIdentity';
+
+// ─── Types ───────────────────────────────────────────────────
+
+// known: identity seen before on this browser; new: first sighting;
+// invalid: identity did not sign the session key; none: peer sent no identity
+export type PeerIdentityStatus = 'known' | 'new' | 'invalid' | 'none';
+
+export interface PeerVerification {
+  id: string;
+  deviceName?: string;
+  identityStatus: PeerIdentityStatus;
+  safetyNumber: SafetyNumber | null; // Null when either side has no E2EE key
+  verified: boolean;
+  keyChanged: boolean; // The server reported a different key for this peer mid-session
+}
+
+interface IdentityCheck {
+  status: PeerIdentityStatus;
+  identityFingerprint: string | null; // Set only for a validly signed identity
+  deviceName?: string;
+  knownVerified: boolean; // Verified in an earlier session
+}
+
+interface UsePeerVerificationReturn {
+  peers: PeerVerification[];
+  setPeerVerified: (peerId: string, verified: boolean) => void;
+  keyChangeAlerts: string[]; // Verified peers whose key changed; cleared by re-verifying or dismissing
+  dismissKeyChangeAlert: (peerId: string) => void;
+}
+
+// ─── Hook ────────────────────────────────────────────────────
+
+/**
+ * Checks a peer's identity signature once and records the device as seen.
+ */
+const checkIdentity = async (identity: PeerIdentity | undefined, ephemeralKey: JsonWebKey): Promise<IdentityCheck> => {
+  if (!identity) return { status: 'none', identityFingerprint: null, knownVerified: false };
+  if (!(await verifyEphemeralKey(identity, ephemeralKey))) {
+    return { status: 'invalid', identityFingerprint: null, knownVerified: false };
+  }
+  const identityFingerprint = await getKeyFingerprint(identity.publicKey);
+  const previous = await recordKnownDevice(identityFingerprint, identity.deviceName)
+    .catch((e) => {
+      console.warn('Failed to record known device:', e);
+      return null;
+    });
+  return {
+    status: previous ? 'known' : 'new',
+    identityFingerprint,
+    deviceName: identity.deviceName ?? previous?.deviceName,
+    knownVerified: previous?.verified ?? false,
+  };
+};
+
+/**
+ * Tracks safety numbers for the other members of a room and which of them
+ * the user has verified.  A key that changes under a peer id means the
+ * relay handed out a different key, so verification is revoked and, for a
+ * verified peer, an alert is raised.
+ *
+ * When both sides have a persistent identity the safety number is derived
+ * from the identity keys, so it stays the same across sessions and a
+ * verification made once is remembered for that device.
+ */
+export const usePeerVerification = (
+  roomPeers: RoomClient[],
+  ownPublicKey: JsonWebKey | null,
+  ownIdentity: PeerIdentity | null,
+): UsePeerVerificationReturn => {
+  const [peers, setPeers] = useState<PeerVerification[]>([]);
+  const [verifiedKeys, setVerifiedKeys] = useState<Map<string, string>>(new Map()); // peerId → fingerprint
+  const [changedPeers, setChangedPeers] = useState<Set<string>>(new Set());
+  const [keyChangeAlerts, setKeyChangeAlerts] = useState<string[]>([]);
+  const fingerprintsRef = useRef<Map<string, string>>(new Map()); // peerId → fingerprint verification binds to
+  const identityFingerprintsRef = useRef<Map<string, string>>(new Map());
+  const identityChecksRef = useRef<Map<string, IdentityCheck>>(new Map()); // `${peerId}|${keyFingerprint}` → check
+  const verifiedKeysRef = useRef(verifiedKeys);
+
+  useEffect(() => {
+    verifiedKeysRef.current = verifiedKeys;
+  }, [verifiedKeys]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const refresh = async () => {
+      const computed = await Promise.all(roomPeers.map(async (peer) => {
+        if (!peer.publicKey) {
+          return {
+            id: peer.id, fingerprint: null, safetyNumber: null,
+            check: { status: 'none', identityFingerprint: null, knownVerified: false } as IdentityCheck,
+          };
+        }
+        const keyFingerprint = await getKeyFingerprint(peer.publicKey);
+        const cacheKey = `${peer.id}|${keyFingerprint}`;
+        let check = identityChecksRef.current.get(cacheKey);
+        if (!check) {
+          check = await checkIdentity(peer.identity, peer.publicKey);
+          identityChecksRef.current.set(cacheKey, check);
+        }
+
+        const useIdentity = !!(ownIdentity && check.identityFingerprint && peer.identity);
+        const safetyNumber = useIdentity
+          ? await computeSafetyNumber(ownIdentity!.publicKey, peer.identity!.publicKey)
+          : ownPublicKey ? await computeSafetyNumber(ownPublicKey, peer.publicKey) : null;
+        return {
+          id: peer.id,
+          fingerprint: check.identityFingerprint ?? keyFingerprint,
+          safetyNumber,
+          check,
+        };
+      }));
+      if (cancelled) return;
+
+      // Devices verified in an earlier session start out verified
+      const remembered = computed.filter(({ id, fingerprint, check }) => (
+        check.knownVerified && fingerprint && !verifiedKeysRef.current.has(id)
+      ));
+      if (remembered.length > 0) {
+        setVerifiedKeys(prev => {
+          const next = new Map(prev);
+          remembered.forEach(({ id, fingerprint }) => next.set(id, fingerprint!));
+          return next;
+        });
+      }
+      identityFingerprintsRef.current = new Map(computed
+        .filter(({ check }) => check.identityFingerprint)
+        .map(({ id, check }) => [id, check.identityFingerprint!]));
+
+      const previous = fingerprintsRef.current;
+      const next = new Map<string, string>();
+      const changed: string[] = [];
+      computed.forEach(({ id, fingerprint }) => {
+        if (!fingerprint) return;
+        const before = previous.get(id);
+        if (before && before !== fingerprint) changed.push(id);
+        next.set(id, fingerprint);
+      });
+      fingerprintsRef.current = next;
+
+      if (changed.length > 0) {
+        console.warn('Public key changed for room peers:', changed);
+        setChangedPeers(prev => new Set([...Array.from(prev), ...changed]));
+        const alerts = changed.filter(id => verifiedKeysRef.current.has(id));
+        if (alerts.length > 0) {
+          setKeyChangeAlerts(prev => Array.from(new Set([...prev, ...alerts])));
+        }
+      }
+
+      setPeers(computed.map(({ id, safetyNumber, check }) => ({
+        id,
+        deviceName: check.deviceName,
+        identityStatus: check.status,
+        safetyNumber,
+        verified: false,
+        keyChanged: false,
+      })));
+    };
+
+    refresh().catch(e => console.error('Failed to compute safety numbers:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [roomPeers, ownPublicKey, ownIdentity]);
+
+  const setPeerVerified = useCallback((peerId: string, verified: boolean) => {
+    const fingerprint = fingerprintsRef.current.get(peerId);
+    const identityFingerprint = identityFingerprintsRef.current.get(peerId);
+    if (identityFingerprint) {
+      setKnownDeviceVerified(identityFingerprint, verified)
+        .catch(e => console.warn('Failed to remember device verification:', e));
+    }
+    setVerifiedKeys(prev => {
+      const next = new Map(prev);
+      if (verified && fingerprint) {
+        next.set(peerId, fingerprint);
+      } else {
+        next.delete(peerId);
+      }
+      return next;
+    });
+    if (verified) {
+      setChangedPeers(prev => {
+        const next = new Set(prev);
+        next.delete(peerId);
+        return next;
+      });
+      setKeyChangeAlerts(prev => prev.filter(id => id !== peerId));
+    }
+  }, []);
+
+  const dismissKeyChangeAlert = useCallback((peerId: string) => {
+    setKeyChangeAlerts(prev => prev.filter(id => id !== peerId));
+  }, []);
+
+  return {
+    peers: peers.map(peer => ({
+      ...peer,
+      // Verification is bound to the exact key that was compared
+      verified: verifiedKeys.get(peer.id) === fingerprintsRef.current.get(peer.id)
+        && verifiedKeys.has(peer.id),
+      keyChanged: changedPeers.has(peer.id),
+    })),
+    setPeerVerified,
+    keyChangeAlerts,
+    dismissKeyChangeAlert,
+  };
+};
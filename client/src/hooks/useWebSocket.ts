@@ -1,114 +1,306 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { WebSocketMessage, RoomState } from '../types/index';
-import { generateE2eeKeyPair, importDataKey, E2eeKeyPair } from '../utils/e2ee';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { WebSocketMessage, RoomState, RoomClient, PeerIdentity, JoinRequest } from '../types/index';
+import { generateE2eeKeyPair, importDataKey, E2eeKeyPair, base64ToUint8Array } from '../utils/e2ee';
 import { cleanupStaleTransfers } from '../utils/fileChunkStore';
+import { cleanupStaleOpfsFiles } from '../utils/opfsChunkStore';
+import { compressText, decompressText } from '../utils/compression';
+import {
+  RoomSecrets,
+  createRoomSecrets,
+  deriveRoomSecrets,
+  saveRoomSecrets,
+  loadRoomSecrets,
+  clearRoomSecrets,
+} from '../utils/roomPassphrase';
+import { normalizeRoomId } from '../utils/roomId';
+import { isIdentityEnabled, loadOrCreateIdentity, signEphemeralKey, getDeviceName } from '../utils/deviceIdentity';
 
 import {
   encryptForRecipients as _encryptForRecipients,
   decryptFromSender as _decryptFromSender,
+  decryptWithRelayKey as _decryptWithRelayKey,
   decryptMetadata,
+  EncryptedPayload,
 } from '../services/wsEncryption';
 import {
   handleBinaryChunk as _handleBinaryChunk,
   createFileReceiverState,
+  getMissingChunks,
+  discardTransfer,
   ActiveFileTransfer,
 } from '../services/fileReceiver';
-import { uploadFile as _uploadFile } from '../services/fileUploader';
+import {
+  uploadFile as _uploadFile,
+  resendChunks,
+  handleChunkAck,
+  createFileUploaderState,
+  UploadOutcome,
+} from '../services/fileUploader';
+import {
+  SyncableClip,
+  getSyncOffererId,
+  buildClipManifest,
+  getMissingClipIds,
+  createClipSyncMessage,
+} from '../services/clipSync';
+import {
+  createPeerTransportState,
+  isPeerTransportSupported,
+  syncPeers,
+  handleSignal,
+  getOpenChannels,
+  closeAllPeers,
+  PeerTransportDeps,
+} from '../services/peerTransport';
+import {
+  ClientJoin,
+  ClientMessage,
+  PROTOCOL_VERSION,
+  decodeServerMessage,
+  encodeClientMessage,
+  negotiateVersion,
+} from '../protocol';
 
 // ─── Types ───────────────────────────────────────────────────
 
 interface UseWebSocketReturn {
   roomState: RoomState;
-  sendMessage: (message: WebSocketMessage) => Promise<boolean>;
-  uploadFile?: (file: File, fileId: string, previewContent?: string, uploadToken?: string, collection?: FileUploadCollection) => void;
-  createRoom: () => Promise<string | null>;
-  joinRoom: (roomId: string) => Promise<boolean>;
+  sendMessage: (message: ClientMessage) => Promise<boolean>;
+  uploadFile?: (file: File, fileId: string, previewContent?: string, uploadToken?: string, collection?: FileUploadCollection) => Promise<UploadOutcome>;
+  createRoom: (passphrase?: string) => Promise<string | null>;
+  joinRoom: (roomId: string, passphrase?: string) => Promise<boolean>;
   leaveRoom: () => void;
+  canSend: boolean; // In the room with every peer's key, so a clip would go out now
   isE2eeEnabled: boolean;
   isReady: boolean;
   encryptFiles: boolean;
   setEncryptFiles: (enabled: boolean) => void;
+  roomPeers: RoomClient[]; // Other members, with the public keys the server handed out
+  ownPublicKey: JsonWebKey | null;
+  ownIdentity: PeerIdentity | null; // Null when persistent identity is off or unavailable
+  isPassphraseProtected: boolean;
+  passphrasePrompt: PassphrasePrompt | null; // Set when a join was refused for lack of a valid passphrase
+  roomExit: RoomExit | null; // Set when the server removed or kept us out of a room
+  kickClient: (clientId: string) => void;
+  setRoomLocked: (locked: boolean) => void;
+  transferOwnership: (clientId: string) => void;
+  joinPending: string | null; // Room we are waiting to be let into
+  joinRequests: JoinRequest[]; // Devices waiting for a member to let them in
+  respondToJoinRequest: (requestId: string, approve: boolean) => void;
+  setKnockMode: (enabled: boolean) => void;
+  needsReload: boolean; // This page and the server no longer speak a common protocol version
+}
+
+export interface RoomExit {
+  roomId: string;
+  reason: 'kicked' | 'locked' | 'denied' | 'closed' | 'disconnected'; // The last two come from an administrator
+}
+
+export interface PassphrasePrompt {
+  roomId: string;
+  invalid: boolean; // A passphrase was tried and rejected
 }
 
-interface RoomClient {
-  id: string;
-  publicKey?: JsonWebKey;
+interface RoomSession {
+  roomId: string;
+  clientId: string;
+  token: string;
+  socket: WebSocket | null; // Null while the connection is down
 }
 
+// Longer than the server's default grace period plus the first reconnect delays
+const SESSION_RESUME_WAIT_MS = 20 * 1000;
+
 interface FileUploadCollection {
   collectionId: string;
   collectionTotal: number;
   collectionIndex: number;
 }
 
+// A protected room's join carries the passphrase proof, plus the salt and
+// verifier so the room can be recreated if it expired in the meantime
+const getPassphraseFields = (secrets: RoomSecrets | null): Pick<ClientJoin, 'passphrase'> => (
+  secrets ? { passphrase: { salt: secrets.salt, verifier: secrets.verifier, proof: secrets.proof } } : {}
+);
+
 // ─── Hook ────────────────────────────────────────────────────
 
 export const useWebSocket = (
   onClipboardReceived?: (message: WebSocketMessage) => void,
   onFileTransferUpdate?: (update: WebSocketMessage) => void,
   initialRoomId?: string,
+  getRecentClips?: () => SyncableClip[], // Newest first; offered to devices that join later
 ): UseWebSocketReturn => {
   const ws = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const onClipboardReceivedRef = useRef(onClipboardReceived);
   const onFileTransferUpdateRef = useRef(onFileTransferUpdate);
+  const getRecentClipsRef = useRef(getRecentClips);
   const reconnectAttemptRef = useRef<number>(0);
   const shouldReconnectRef = useRef(true);
+  const reconnectHintRef = useRef<number | null>(null); // Delay asked for by a restarting server
 
   const [roomState, setRoomState] = useState<RoomState>({
-    roomId: null, connected: false, clientCount: 0, clientId: null,
+    roomId: null, connected: false, clientCount: 0, clientId: null, ownerId: null, locked: false, knock: false,
   });
   const [keyPair, setKeyPair] = useState<E2eeKeyPair | null>(null);
+  const [identity, setIdentity] = useState<PeerIdentity | null>(null);
+  const [roomSecrets, setRoomSecrets] = useState<RoomSecrets | null>(null);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<PassphrasePrompt | null>(null);
+  const [roomExit, setRoomExit] = useState<RoomExit | null>(null);
+  const [joinPending, setJoinPending] = useState<string | null>(null);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
   const [roomClients, setRoomClients] = useState<Record<string, RoomClient>>({});
   const [isE2eeEnabled, setIsE2eeEnabled] = useState(window.isSecureContext);
   const [isReady, setIsReady] = useState(false);
   const [encryptFiles, setEncryptFiles] = useState(false);
+  const [needsReload, setNeedsReload] = useState(false);
 
   const receiverState = useRef(createFileReceiverState());
+  const uploaderState = useRef(createFileUploaderState());
+  const peerState = useRef(createPeerTransportState());
+  const needsResumeRef = useRef(false);
+  const sessionRef = useRef<RoomSession | null>(null); // Lets a reconnect keep our id and membership
+  const resumeWaitersRef = useRef<((socket: WebSocket | null) => void)[]>([]);
+  const roomMembersRef = useRef<{ clients: Record<string, RoomClient>; clientId: string | null }>({
+    clients: {}, clientId: null,
+  });
   const pendingRoomCreation = useRef<(roomId: string | null) => void>();
   const pendingRoomJoin = useRef<(success: boolean) => void>();
+  const knownMemberIdsRef = useRef<Set<string>>(new Set()); // Members seen in the last room-update
+  const seenPublicKeysRef = useRef<Map<string, JsonWebKey>>(new Map()); // Every member key a room-update gave us
   const onMessageRef = useRef((_event: MessageEvent) => {});
+  // Passphrase typed for a join (waiting for the room's salt) or secrets of a room being created
+  const pendingPassphraseRef = useRef<{ roomId?: string; passphrase?: string; secrets?: RoomSecrets } | null>(null);
 
   // Keep callback refs up to date
   useEffect(() => {
     onClipboardReceivedRef.current = onClipboardReceived;
     onFileTransferUpdateRef.current = onFileTransferUpdate;
-  }, [onClipboardReceived, onFileTransferUpdate]);
+    getRecentClipsRef.current = getRecentClips;
+  }, [onClipboardReceived, onFileTransferUpdate, getRecentClips]);
+
+  useEffect(() => {
+    roomMembersRef.current = { clients: roomClients, clientId: roomState.clientId };
+  }, [roomClients, roomState.clientId]);
+
+  const getRecipientIds = useCallback(() => {
+    const { clients, clientId } = roomMembersRef.current;
+    return Object.keys(clients).filter(id => id !== clientId);
+  }, []);
+
+  // ── Session resumption ─────────────────────────────────────
+
+  const settleResumeWaiters = useCallback((socket: WebSocket | null) => {
+    const waiters = resumeWaitersRef.current;
+    resumeWaitersRef.current = [];
+    waiters.forEach(resolve => resolve(socket));
+  }, []);
+
+  const endSession = useCallback(() => {
+    sessionRef.current = null;
+    settleResumeWaiters(null);
+  }, [settleResumeWaiters]);
+
+  // This page and the server can't talk to each other; reconnecting won't change that
+  const stopForReload = useCallback(() => {
+    shouldReconnectRef.current = false;
+    endSession();
+    closeAllPeers(peerState.current);
+    pendingRoomCreation.current?.(null);
+    pendingRoomJoin.current?.(false);
+    pendingRoomCreation.current = undefined;
+    pendingRoomJoin.current = undefined;
+    setRoomState(prev => ({ ...prev, connected: false, clientCount: 0 }));
+    setNeedsReload(true);
+    ws.current?.close();
+  }, [endSession]);
+
+  // Resolves with the socket once the session is live again, or null if it ended
+  const waitForResume = useCallback((): Promise<WebSocket | null> => {
+    const session = sessionRef.current;
+    if (!session) return Promise.resolve(null);
+    if (session.socket?.readyState === WebSocket.OPEN) return Promise.resolve(session.socket);
+
+    return new Promise((resolve) => {
+      const waiter = (socket: WebSocket | null) => {
+        clearTimeout(timer);
+        resolve(socket);
+      };
+      const timer = setTimeout(() => {
+        resumeWaitersRef.current = resumeWaitersRef.current.filter(w => w !== waiter);
+        resolve(null);
+      }, SESSION_RESUME_WAIT_MS);
+      resumeWaitersRef.current.push(waiter);
+    });
+  }, []);
 
   // ── Encryption helpers (wrapping service functions) ────────
 
+  const roomKey = useMemo(
+    () => (roomSecrets ? base64ToUint8Array(roomSecrets.encryptionKey) : null),
+    [roomSecrets],
+  );
+
   const encryptForRecipients = useCallback(
     (plainText: string) => _encryptForRecipients(plainText, {
-      isE2eeEnabled, keyPair, roomClients, clientId: roomState.clientId,
+      isE2eeEnabled, keyPair, roomClients, clientId: roomState.clientId, roomKey,
     }),
-    [isE2eeEnabled, keyPair, roomClients, roomState.clientId],
+    [isE2eeEnabled, keyPair, roomClients, roomState.clientId, roomKey],
   );
 
   const decryptFromSender = useCallback(
-    (payload: any, senderId?: string) => _decryptFromSender(payload, senderId, {
-      isE2eeEnabled, keyPair, roomClients, clientId: roomState.clientId,
+    (payload: EncryptedPayload | undefined, senderId?: string) => _decryptFromSender(payload, senderId, {
+      isE2eeEnabled, keyPair, roomClients, clientId: roomState.clientId, roomKey,
+      seenPublicKeys: seenPublicKeysRef.current,
     }),
-    [isE2eeEnabled, keyPair, roomClients, roomState.clientId],
+    [isE2eeEnabled, keyPair, roomClients, roomState.clientId, roomKey],
+  );
+
+  const decryptWithRelayKey = useCallback(
+    (payload: EncryptedPayload | undefined, senderId?: string, senderPublicKey?: JsonWebKey) => _decryptWithRelayKey(payload, senderId, senderPublicKey, {
+      isE2eeEnabled, keyPair, roomClients, clientId: roomState.clientId, roomKey,
+      seenPublicKeys: seenPublicKeysRef.current,
+    }),
+    [isE2eeEnabled, keyPair, roomClients, roomState.clientId, roomKey],
   );
 
   const withDecryptedMetadata = useCallback(
     (message: WebSocketMessage) => decryptMetadata(message, {
-      isE2eeEnabled, keyPair, roomClients, clientId: roomState.clientId,
+      isE2eeEnabled, keyPair, roomClients, clientId: roomState.clientId, roomKey,
     }),
-    [isE2eeEnabled, keyPair, roomClients, roomState.clientId],
+    [isE2eeEnabled, keyPair, roomClients, roomState.clientId, roomKey],
   );
 
+  // Key material announced with join and create
+  const keyFields = useMemo((): Pick<ClientJoin, 'publicKey' | 'identity'> => (
+    isE2eeEnabled && keyPair
+      ? { publicKey: keyPair.publicKey, ...(identity && { identity }) }
+      : {}
+  ), [isE2eeEnabled, keyPair, identity]);
+
   // ── Init E2EE key pair ─────────────────────────────────────
 
   useEffect(() => {
     const init = async () => {
       cleanupStaleTransfers().catch(() => {});
+      cleanupStaleOpfsFiles().catch(() => {});
       let e2ee = window.isSecureContext;
       try {
         if (!window.isSecureContext) {
           e2ee = false;
         } else {
-          setKeyPair(await generateE2eeKeyPair());
+          const pair = await generateE2eeKeyPair();
+          setKeyPair(pair);
+          if (isIdentityEnabled()) {
+            // A missing identity only costs recognition across sessions, never E2EE
+            try {
+              const device = await loadOrCreateIdentity();
+              setIdentity(await signEphemeralKey(device, pair.publicKey, getDeviceName() || undefined));
+            } catch (e) {
+              console.warn('Device identity unavailable:', e);
+            }
+          }
         }
       } catch {
         e2ee = false;
@@ -122,16 +314,96 @@ export const useWebSocket = (
 
   // ── Binary chunk handler ───────────────────────────────────
 
-  const handleBinaryChunk = useCallback((frameData: ArrayBuffer) => {
+  const handleBinaryChunk = useCallback((frameData: ArrayBuffer, peerId?: string) => {
     return _handleBinaryChunk(
       frameData,
       receiverState.current,
       (u) => onFileTransferUpdateRef.current?.(u),
       (u) => onFileTransferUpdateRef.current?.(u),
       (u) => onFileTransferUpdateRef.current?.(u),
+      (fileId, chunkIndex, senderId) => {
+        // Acks pace the sender; they go straight out since they carry no content
+        if (ws.current?.readyState === WebSocket.OPEN) {
+          ws.current.send(encodeClientMessage({ type: 'chunk-ack', fileId, chunkIndex, targetId: senderId }));
+        }
+      },
+      peerId,
     );
   }, []);
 
+  // ── Peer-to-peer transport ─────────────────────────────────
+
+  const peerDeps = useRef<PeerTransportDeps>({
+    sendSignal: (targetId, signal) => {
+      if (ws.current?.readyState === WebSocket.OPEN) {
+        ws.current.send(encodeClientMessage({ type: 'rtc-signal', targetId, signal }));
+      }
+    },
+    onFrame: (frame, peerId) => handleBinaryChunk(frame, peerId),
+  });
+
+  const getPeerChannels = useCallback(
+    (recipientIds: string[]) => getOpenChannels(peerState.current, recipientIds),
+    [],
+  );
+
+  useEffect(() => {
+    if (!roomState.clientId) return;
+    const peerIds = Object.keys(roomClients).filter(id => id !== roomState.clientId);
+
+    if (isPeerTransportSupported()) {
+      syncPeers(peerState.current, roomState.clientId, peerIds, peerDeps.current);
+    }
+
+    // Transfers from a member who left can never finish; relayed ones are
+    // cancelled by the server, direct ones only show up here
+    receiverState.current.activeTransfers.forEach((transfer, fileId) => {
+      if (transfer.senderId && !roomClients[transfer.senderId]) {
+        discardTransfer(receiverState.current, fileId);
+        onFileTransferUpdateRef.current?.({
+          type: 'file-error', fileId, message: 'Sender left before the transfer finished',
+        });
+      }
+    });
+  }, [roomClients, roomState.clientId]);
+
+  // ── Resume interrupted incoming transfers ─────────────────
+
+  const requestMissingChunks = useCallback(async (socket: WebSocket) => {
+    const transfers = Array.from(receiverState.current.activeTransfers.entries());
+    for (const [fileId, transfer] of transfers) {
+      if (transfer.totalChunks === 0) {
+        // Metadata never arrived, so there is nothing to resume against
+        discardTransfer(receiverState.current, fileId);
+        onFileTransferUpdateRef.current?.({
+          type: 'file-error', fileId, message: 'Connection lost before the transfer started',
+        });
+        continue;
+      }
+      const missingChunks = await getMissingChunks(fileId, transfer);
+      if (missingChunks.length > 0 && socket.readyState === WebSocket.OPEN) {
+        socket.send(encodeClientMessage({ type: 'file-resume', fileId, missingChunks }));
+      }
+    }
+  }, []);
+
+  // ── Late-joiner catch-up (see services/clipSync) ──────────
+
+  const offerClipHistory = useCallback((clients: RoomClient[], ownerId: string | null) => {
+    const ownId = roomState.clientId;
+    if (!ownId || knownMemberIdsRef.current.size === 0) return;
+    const newcomers = clients.filter(c => c.id !== ownId && !knownMemberIdsRef.current.has(c.id));
+    if (newcomers.length === 0) return;
+
+    const manifest = buildClipManifest(getRecentClipsRef.current?.() ?? []);
+    if (manifest.length === 0) return;
+    newcomers
+      .filter(newcomer => getSyncOffererId(clients, newcomer.id, ownerId) === ownId)
+      .forEach(newcomer => {
+        ws.current?.send(encodeClientMessage({ type: 'clip-manifest', targetId: newcomer.id, clips: manifest }));
+      });
+  }, [roomState.clientId]);
+
   // ── Message handler (assigned to ref, always up-to-date) ───
 
   onMessageRef.current = async (event: MessageEvent) => {
@@ -141,9 +413,17 @@ export const useWebSocket = (
     }
 
     try {
-      const message: WebSocketMessage = JSON.parse(event.data);
+      const message = decodeServerMessage(event.data);
+      if (!message) return;
 
       switch (message.type) {
+        case 'hello':
+          // An older server answers with its own version, which may be too old for this page
+          if (negotiateVersion(message.version) === null) {
+            stopForReload();
+          }
+          break;
+
         case 'room-update':
           const clients = Array.isArray(message.clients) ? message.clients : [];
           setRoomState({
@@ -151,11 +431,47 @@ export const useWebSocket = (
             connected: true,
             clientCount: message.clientCount || 0,
             clientId: message.clientId || roomState.clientId,
+            ownerId: message.ownerId ?? null,
+            locked: !!message.locked,
+            knock: !!message.knock,
           });
-          setRoomClients(clients.reduce((acc: any, c: any) => {
+          setRoomClients(clients.reduce<Record<string, RoomClient>>((acc, c) => {
             acc[c.id] = c;
             return acc;
           }, {}));
+          if (!message.clientId) {
+            offerClipHistory(clients, message.ownerId ?? null);
+          }
+          knownMemberIdsRef.current = new Set(clients.map((c: RoomClient) => c.id));
+          clients.forEach((c: RoomClient) => {
+            if (c.publicKey) seenPublicKeysRef.current.set(c.id, c.publicKey);
+          });
+          if (message.clientId && message.roomId) {
+            // Our own join or create succeeded, or our session resumed
+            const previous = sessionRef.current;
+            if (previous && previous.clientId !== message.clientId) {
+              // Not resumed: peers know us by a new id, so links are renegotiated
+              closeAllPeers(peerState.current);
+              settleResumeWaiters(null);
+            }
+            if (message.sessionToken) {
+              sessionRef.current = {
+                roomId: message.roomId, clientId: message.clientId, token: message.sessionToken, socket: ws.current,
+              };
+              settleResumeWaiters(ws.current);
+            } else {
+              endSession();
+            }
+            if (pendingPassphraseRef.current?.secrets) {
+              saveRoomSecrets(message.roomId, pendingPassphraseRef.current.secrets);
+            }
+            pendingPassphraseRef.current = null;
+            setRoomSecrets(loadRoomSecrets(message.roomId));
+            setPassphrasePrompt(null);
+            setRoomExit(null);
+            setJoinPending(null);
+            setJoinRequests([]);
+          }
           if (pendingRoomCreation.current && message.roomId) {
             pendingRoomCreation.current(message.roomId);
             pendingRoomCreation.current = undefined;
@@ -164,6 +480,10 @@ export const useWebSocket = (
             pendingRoomJoin.current(true);
             pendingRoomJoin.current = undefined;
           }
+          if (needsResumeRef.current && message.clientId && ws.current) {
+            needsResumeRef.current = false;
+            requestMissingChunks(ws.current);
+          }
           break;
 
         case 'file-key':
@@ -188,7 +508,8 @@ export const useWebSocket = (
           break;
 
         case 'file-start':
-          if (message.fileId) {
+          // Resumed transfers re-open an existing entry; chunks are matched by fileId
+          if (message.fileId && !message.resume) {
             const transfer: ActiveFileTransfer = {
               totalChunks: 0,
               receivedChunks: new Set(),
@@ -210,15 +531,60 @@ export const useWebSocket = (
           }
           break;
 
+        case 'clip-manifest':
+          if (message.senderId && Array.isArray(message.clips)) {
+            const localClipIds = new Set((getRecentClipsRef.current?.() ?? []).map(clip => clip.clipId));
+            const clipIds = getMissingClipIds(message.clips, localClipIds);
+            if (clipIds.length > 0) {
+              ws.current?.send(encodeClientMessage({ type: 'clip-request', targetId: message.senderId, clipIds }));
+            }
+          }
+          break;
+
+        case 'clip-request':
+          if (message.senderId && Array.isArray(message.clipIds)) {
+            const requested = new Set(message.clipIds);
+            const ctx = { isE2eeEnabled, keyPair, roomClients, clientId: roomState.clientId, roomKey };
+            for (const clip of getRecentClipsRef.current?.() ?? []) {
+              if (!requested.has(clip.clipId)) continue;
+              const reply = await createClipSyncMessage(clip, message.senderId, ctx);
+              if (reply) ws.current?.send(encodeClientMessage(reply));
+            }
+          }
+          break;
+
+        case 'clip-sync':
         case 'clipboard':
           if (onClipboardReceivedRef.current) {
-            let clipMsg = await withDecryptedMetadata(message);
+            // A synced clip is an ordinary text clip from here on, marked as catch-up
+            let clipMsg = await withDecryptedMetadata(
+              message.type === 'clip-sync' ? { ...message, type: 'clipboard', buffered: true } : message,
+            );
 
             if (!clipMsg.fileId && clipMsg.encryptedContent) {
               const decrypted = await decryptFromSender(clipMsg.encryptedContent, clipMsg.senderId);
-              clipMsg = decrypted !== null
-                ? { ...clipMsg, content: decrypted }
-                : { ...clipMsg, content: '[Unable to decrypt message]' };
+              // A sender we never saw can only be read with the relay's word for its key
+              const relayDecrypted = decrypted === null
+                ? await decryptWithRelayKey(clipMsg.encryptedContent, clipMsg.senderId, clipMsg.senderPublicKey)
+                : null;
+              if (decrypted !== null) {
+                clipMsg = { ...clipMsg, content: decrypted };
+              } else if (relayDecrypted !== null) {
+                clipMsg = { ...clipMsg, content: relayDecrypted, senderUnverified: true };
+              } else {
+                clipMsg = { ...clipMsg, content: '[Unable to decrypt message]', compression: undefined };
+              }
+            }
+
+            if (!clipMsg.fileId && clipMsg.compression && clipMsg.content) {
+              let content: string;
+              try {
+                content = await decompressText(clipMsg.content, clipMsg.compression);
+              } catch (e) {
+                console.error('Failed to decompress message:', e);
+                content = '[Unable to decompress message]';
+              }
+              clipMsg = { ...clipMsg, content, compression: undefined };
             }
 
             if (clipMsg.fileId && clipMsg.totalChunks) {
@@ -231,12 +597,15 @@ export const useWebSocket = (
                   fileType: clipMsg.fileType,
                   contentType: clipMsg.contentType,
                   previewContent: clipMsg.previewContent,
+                  fileDigest: clipMsg.fileDigest,
+                  chunkDigests: clipMsg.chunkDigests,
+                  compression: clipMsg.compression,
                 };
               }
 
               if (receiverState.current.orphanBinaryChunks.has(clipMsg.fileId)) {
                 const chunks = receiverState.current.orphanBinaryChunks.get(clipMsg.fileId)!;
-                await Promise.all(chunks.map(c => handleBinaryChunk(c)));
+                await Promise.all(chunks.map(c => handleBinaryChunk(c.frameData, c.peerId)));
                 receiverState.current.orphanBinaryChunks.delete(clipMsg.fileId);
               }
             }
@@ -245,14 +614,36 @@ export const useWebSocket = (
           break;
 
         case 'chunk-ack':
+          if (message.fileId && message.senderId && typeof message.chunkIndex === 'number') {
+            handleChunkAck(uploaderState.current, message.fileId, message.senderId, message.chunkIndex);
+          }
+          break;
+
+        case 'file-resume':
+          if (message.fileId && Array.isArray(message.missingChunks) && ws.current) {
+            resendChunks(message.fileId, message.missingChunks, {
+              ws: ws.current,
+              sendMessage,
+              encryptionCtx: { isE2eeEnabled, keyPair, roomClients, clientId: roomState.clientId, roomKey },
+              encryptFiles,
+              onUpdate: (u) => onFileTransferUpdateRef.current?.(u),
+              uploaderState: uploaderState.current,
+              getRecipientIds,
+              getPeerChannels,
+              waitForResume,
+            }, message.senderId ? [message.senderId] : []);
+          }
+          break;
+
+        case 'rtc-signal':
+          if (message.senderId && message.signal && isPeerTransportSupported()) {
+            handleSignal(peerState.current, message.senderId, message.signal, peerDeps.current);
+          }
           break;
 
         case 'file-cancel':
-          if (message.fileId) {
-            receiverState.current.activeTransfers.delete(message.fileId);
-            receiverState.current.memoryChunks.delete(message.fileId);
-            receiverState.current.orphanBinaryChunks.delete(message.fileId);
-            receiverState.current.pendingDataKeys.delete(message.fileId);
+          if (message.fileId && !receiverState.current.settledFileIds.has(message.fileId)) {
+            discardTransfer(receiverState.current, message.fileId);
             onFileTransferUpdateRef.current?.({
               type: 'file-error',
               fileId: message.fileId,
@@ -261,9 +652,62 @@ export const useWebSocket = (
           }
           break;
 
+        case 'kicked':
+          endSession();
+          closeAllPeers(peerState.current);
+          setRoomState(prev => ({
+            ...prev, roomId: null, clientCount: 0, clientId: null, ownerId: null, locked: false, knock: false,
+          }));
+          setRoomClients({});
+          setRoomSecrets(null);
+          setJoinRequests([]);
+          setRoomExit({ roomId: message.roomId || '', reason: message.reason === 'admin' ? 'disconnected' : 'kicked' });
+          break;
+
+        case 'join-pending':
+          // Counts as a successful join; the room-update follows once a member approves
+          setJoinPending(message.roomId || null);
+          if (pendingRoomJoin.current) {
+            pendingRoomJoin.current(true);
+            pendingRoomJoin.current = undefined;
+          }
+          break;
+
+        case 'join-denied':
+          setJoinPending(null);
+          setRoomExit({ roomId: message.roomId || '', reason: 'denied' });
+          break;
+
+        case 'join-request':
+          if (message.requestId) {
+            const request: JoinRequest = {
+              id: message.requestId,
+              publicKey: message.publicKey,
+              identity: message.identity,
+              userAgent: message.userAgent,
+            };
+            setJoinRequests(prev => [...prev.filter(r => r.id !== request.id), request]);
+          }
+          break;
+
+        case 'join-request-resolved':
+          setJoinRequests(prev => prev.filter(r => r.id !== message.requestId));
+          break;
+
+        case 'reconnect-after':
+          // The server is restarting; the socket closes next and onclose waits this long
+          if (typeof message.delay === 'number' && message.delay >= 0) {
+            reconnectHintRef.current = message.delay;
+          }
+          break;
+
         case 'room-closed':
-        case 'server-shutdown':
+          endSession();
           setRoomState(prev => ({ ...prev, connected: false, clientCount: 0 }));
+          if (message.reason === 'admin') {
+            // Reconnecting would only open the room again
+            setRoomExit({ roomId: roomState.roomId || initialRoomId || '', reason: 'closed' });
+          }
           break;
 
         case 'file-chunk':
@@ -271,25 +715,51 @@ export const useWebSocket = (
           break;
 
         case 'error':
+          if (message.code === 'PROTOCOL_VERSION_UNSUPPORTED') {
+            stopForReload();
+            break;
+          }
+          if ((message.code === 'PASSPHRASE_REQUIRED' || message.code === 'INVALID_PASSPHRASE') && message.roomId) {
+            const pending = pendingPassphraseRef.current;
+            if (
+              message.code === 'PASSPHRASE_REQUIRED' && message.passphraseSalt
+              && pending?.passphrase && pending.roomId === message.roomId
+            ) {
+              // The passphrase was typed before the salt was known; retry with the proof
+              const secrets = await deriveRoomSecrets(pending.passphrase, message.passphraseSalt);
+              pendingPassphraseRef.current = { roomId: message.roomId, secrets };
+              ws.current?.send(encodeClientMessage({
+                type: 'join', roomId: message.roomId, ...keyFields, ...getPassphraseFields(secrets),
+              }));
+              break;
+            }
+            pendingPassphraseRef.current = null;
+            if (message.code === 'INVALID_PASSPHRASE') clearRoomSecrets(message.roomId);
+            setPassphrasePrompt({ roomId: message.roomId, invalid: message.code === 'INVALID_PASSPHRASE' });
+          }
+          if (message.code === 'ROOM_LOCKED' && message.roomId) {
+            setRoomExit({ roomId: message.roomId, reason: 'locked' });
+          }
           console.error('WebSocket error:', message.message);
           if (pendingRoomJoin.current) {
             pendingRoomJoin.current(false);
             pendingRoomJoin.current = undefined;
           }
+          if (pendingRoomCreation.current && message.code === 'ROOM_CREATION_QUOTA_EXCEEDED') {
+            pendingRoomCreation.current(null);
+            pendingRoomCreation.current = undefined;
+          }
           if (message.fileId && onFileTransferUpdateRef.current) {
             onFileTransferUpdateRef.current({
               type: 'file-error', fileId: message.fileId, message: message.message,
             });
-            receiverState.current.activeTransfers.delete(message.fileId);
+            discardTransfer(receiverState.current, message.fileId);
           }
           break;
 
         case 'reload':
           window.location.reload();
           break;
-
-        default:
-          console.log('Unknown message type:', message.type);
       }
     } catch (error) {
       console.error('Failed to parse WebSocket message:', error);
@@ -313,13 +783,19 @@ export const useWebSocket = (
       setRoomState(prev => ({ ...prev, connected: true }));
       reconnectAttemptRef.current = 0;
 
+      // Must come first; the join doesn't wait for the server's answer
+      socket.send(encodeClientMessage({ type: 'hello', version: PROTOCOL_VERSION }));
+
       if (initialRoomId) {
-        const joinMsg: WebSocketMessage = {
+        // The server falls back to a normal join when the session can't be resumed
+        const session = sessionRef.current;
+        socket.send(encodeClientMessage({
           type: 'join',
           roomId: initialRoomId,
-          ...(isE2eeEnabled && keyPair && { publicKey: keyPair.publicKey }),
-        };
-        socket.send(JSON.stringify(joinMsg));
+          ...keyFields,
+          ...getPassphraseFields(loadRoomSecrets(initialRoomId)),
+          ...(session ? { sessionToken: session.token } : {}),
+        }));
       }
     };
 
@@ -328,8 +804,23 @@ export const useWebSocket = (
     socket.onclose = () => {
       if (ws.current !== socket || !shouldReconnectRef.current) return;
       setRoomState(prev => ({ ...prev, connected: false, clientCount: 0, clientId: null }));
-      reconnectAttemptRef.current += 1;
-      const delay = Math.min(3000 * Math.pow(2, reconnectAttemptRef.current - 1), 30000);
+      if (sessionRef.current) {
+        // Peer links and uploads wait to see whether the session resumes
+        sessionRef.current.socket = null;
+      } else {
+        closeAllPeers(peerState.current);
+      }
+      needsResumeRef.current = receiverState.current.activeTransfers.size > 0;
+      let delay: number;
+      if (reconnectHintRef.current !== null) {
+        // A planned restart is not a failure, so the backoff starts over
+        delay = reconnectHintRef.current;
+        reconnectHintRef.current = null;
+        reconnectAttemptRef.current = 0;
+      } else {
+        reconnectAttemptRef.current += 1;
+        delay = Math.min(3000 * Math.pow(2, reconnectAttemptRef.current - 1), 30000);
+      }
       reconnectTimeoutRef.current = setTimeout(() => {
         if (shouldReconnectRef.current && ws.current === socket && socket.readyState === WebSocket.CLOSED) {
           connect();
@@ -338,9 +829,10 @@ export const useWebSocket = (
     };
 
     socket.onerror = (error) => console.error('WebSocket error:', error);
-  }, [initialRoomId, keyPair, isE2eeEnabled]);
+  }, [initialRoomId, keyFields]);
 
   useEffect(() => {
+    const peers = peerState.current;
     if (isReady) {
       shouldReconnectRef.current = true;
       connect();
@@ -352,28 +844,28 @@ export const useWebSocket = (
       pendingRoomJoin.current?.(false);
       pendingRoomCreation.current = undefined;
       pendingRoomJoin.current = undefined;
+      endSession();
       const socket = ws.current;
       ws.current = null;
       socket?.close();
+      closeAllPeers(peers);
     };
-  }, [connect, isReady]);
+  }, [connect, isReady, endSession]);
 
   // ── Send message (with E2EE) ───────────────────────────────
 
-  const sendMessage = useCallback(async (message: WebSocketMessage): Promise<boolean> => {
+  const sendMessage = useCallback(async (message: ClientMessage): Promise<boolean> => {
     if (!ws.current || ws.current.readyState !== WebSocket.OPEN) return false;
 
-    let msg: WebSocketMessage = { ...message };
+    let msg = message;
     const recipients = Object.values(roomClients).filter(c => c.id !== roomState.clientId);
     const requiresEncryption = isE2eeEnabled && recipients.length > 0;
 
-    const isText = msg.type === 'clipboard' && !msg.fileId && msg.content;
-    const isFileMeta = msg.type === 'file-start' || (msg.type === 'clipboard' && !!msg.fileId);
-
-    if (isFileMeta) {
+    if (msg.type === 'file-start' || (msg.type === 'clipboard' && msg.fileId)) {
       const meta = {
         fileName: msg.fileName, fileSize: msg.fileSize, fileType: msg.fileType,
         contentType: msg.contentType, previewContent: msg.previewContent,
+        fileDigest: msg.fileDigest, chunkDigests: msg.chunkDigests, compression: msg.compression,
         collectionId: msg.collectionId, collectionTotal: msg.collectionTotal,
         collectionIndex: msg.collectionIndex,
       };
@@ -384,13 +876,19 @@ export const useWebSocket = (
           msg = {
             ...msg, fileName: undefined, fileSize: undefined, fileType: undefined,
             contentType: undefined, previewContent: undefined, collectionId: undefined,
-            collectionTotal: undefined, collectionIndex: undefined, encryptedMetadata: encrypted,
+            collectionTotal: undefined, collectionIndex: undefined, fileDigest: undefined,
+            chunkDigests: undefined, compression: undefined, encryptedMetadata: encrypted,
           };
         }
       }
     }
 
-    if (isText) {
+    if (msg.type === 'clipboard' && !msg.fileId && msg.content) {
+      // Compress first: ciphertext would not shrink.  Callers may pass pre-compressed content.
+      if (!msg.compression) {
+        const packed = await compressText(msg.content);
+        msg = { ...msg, content: packed.content, compression: packed.compression };
+      }
       const encrypted = await encryptForRecipients(msg.content!);
       if (!encrypted && requiresEncryption) return false;
       if (encrypted) msg = { ...msg, content: undefined, encryptedContent: encrypted };
@@ -402,62 +900,125 @@ export const useWebSocket = (
       if (encrypted) msg = { ...msg, chunk: undefined, encryptedChunk: encrypted };
     }
 
-    ws.current.send(JSON.stringify(msg));
+    ws.current.send(encodeClientMessage(msg));
     return true;
   }, [encryptForRecipients, isE2eeEnabled, roomClients, roomState.clientId]);
 
   // ── Upload file (delegates to service) ─────────────────────
 
-  const uploadFile = useCallback(async (file: File, fileId: string, previewContent?: string, uploadToken?: string, collection?: FileUploadCollection) => {
-    if (!ws.current || ws.current.readyState !== WebSocket.OPEN) return;
+  const uploadFile = useCallback(async (file: File, fileId: string, previewContent?: string, uploadToken?: string, collection?: FileUploadCollection): Promise<UploadOutcome> => {
+    if (!ws.current || ws.current.readyState !== WebSocket.OPEN) {
+      onFileTransferUpdateRef.current?.({ type: 'file-error', fileId, message: 'Not connected' });
+      return 'disconnected';
+    }
 
-    await _uploadFile(file, fileId, previewContent, uploadToken, {
+    return _uploadFile(file, fileId, previewContent, uploadToken, {
       ws: ws.current,
       sendMessage,
-      encryptionCtx: { isE2eeEnabled, keyPair, roomClients, clientId: roomState.clientId },
+      encryptionCtx: { isE2eeEnabled, keyPair, roomClients, clientId: roomState.clientId, roomKey },
       encryptFiles,
       onUpdate: (u) => onFileTransferUpdateRef.current?.(u),
+      uploaderState: uploaderState.current,
+      getRecipientIds,
+      getPeerChannels,
+      waitForResume,
     }, collection);
-  }, [sendMessage, isE2eeEnabled, keyPair, encryptFiles, roomClients, roomState.clientId]);
+  }, [
+    sendMessage, isE2eeEnabled, keyPair, encryptFiles, roomClients, roomState.clientId, roomKey,
+    getRecipientIds, getPeerChannels, waitForResume,
+  ]);
 
   // ── Room operations ────────────────────────────────────────
 
-  const createRoom = useCallback((): Promise<string | null> => {
+  const createRoom = useCallback(async (passphrase?: string): Promise<string | null> => {
+    let secrets: RoomSecrets | null = null;
+    if (passphrase) {
+      try {
+        secrets = await createRoomSecrets(passphrase);
+      } catch (e) {
+        console.error('Failed to derive room passphrase keys:', e);
+        return null;
+      }
+    }
     return new Promise((resolve) => {
       if (!ws.current || ws.current.readyState !== WebSocket.OPEN) {
         resolve(null);
         return;
       }
       pendingRoomCreation.current = resolve;
-      const msg: WebSocketMessage = { type: 'create' };
-      if (isE2eeEnabled && keyPair) msg.publicKey = keyPair.publicKey;
-      ws.current?.send(JSON.stringify(msg));
+      pendingPassphraseRef.current = secrets ? { secrets } : null;
+      ws.current?.send(encodeClientMessage({ type: 'create', ...keyFields, ...getPassphraseFields(secrets) }));
     });
-  }, [keyPair, isE2eeEnabled]);
+  }, [keyFields]);
 
-  const joinRoom = useCallback((roomId: string): Promise<boolean> => {
+  const joinRoom = useCallback((roomId: string, passphrase?: string): Promise<boolean> => {
     return new Promise((resolve) => {
       if (!ws.current || ws.current.readyState !== WebSocket.OPEN) {
         resolve(false);
         return;
       }
       pendingRoomJoin.current = resolve;
-      const msg: WebSocketMessage = {
+      // A typed passphrase needs the room's salt first, so the join goes out without a proof
+      pendingPassphraseRef.current = passphrase ? { roomId: normalizeRoomId(roomId), passphrase } : null;
+      ws.current?.send(encodeClientMessage({
         type: 'join', roomId,
-        ...(isE2eeEnabled && keyPair && { publicKey: keyPair.publicKey }),
-      };
-      ws.current?.send(JSON.stringify(msg));
+        ...keyFields,
+        ...(passphrase ? {} : getPassphraseFields(loadRoomSecrets(roomId))),
+      }));
     });
-  }, [keyPair, isE2eeEnabled]);
+  }, [keyFields]);
 
   const leaveRoom = useCallback(() => {
-    ws.current?.send(JSON.stringify({ type: 'leave' }));
-    setRoomState({ roomId: null, connected: true, clientCount: 0, clientId: null });
+    ws.current?.send(encodeClientMessage({ type: 'leave' }));
+    endSession();
+    closeAllPeers(peerState.current);
+    setRoomState({ roomId: null, connected: true, clientCount: 0, clientId: null, ownerId: null, locked: false, knock: false });
     setRoomClients({});
+    setRoomSecrets(null);
+    setPassphrasePrompt(null);
+    setJoinPending(null);
+    setJoinRequests([]);
+  }, [endSession]);
+
+  // ── Owner controls (the server rejects them from anyone else) ──
+
+  const kickClient = useCallback((targetId: string) => {
+    ws.current?.send(encodeClientMessage({ type: 'kick', targetId }));
+  }, []);
+
+  const setRoomLocked = useCallback((locked: boolean) => {
+    ws.current?.send(encodeClientMessage({ type: 'lock-room', locked }));
+  }, []);
+
+  const transferOwnership = useCallback((targetId: string) => {
+    ws.current?.send(encodeClientMessage({ type: 'transfer-owner', targetId }));
   }, []);
 
+  const setKnockMode = useCallback((knock: boolean) => {
+    ws.current?.send(encodeClientMessage({ type: 'set-knock', knock }));
+  }, []);
+
+  // ── Join approval (any member may answer; the first answer wins) ──
+
+  const respondToJoinRequest = useCallback((requestId: string, approve: boolean) => {
+    ws.current?.send(encodeClientMessage({ type: 'join-response', requestId, approve }));
+    setJoinRequests(prev => prev.filter(r => r.id !== requestId));
+  }, []);
+
+  const roomPeers = useMemo(
+    () => Object.values(roomClients).filter(c => c.id !== roomState.clientId),
+    [roomClients, roomState.clientId],
+  );
+
+  const canSend = roomState.connected && !!roomState.clientId
+    && (!isE2eeEnabled || (!!keyPair && roomPeers.every(peer => !!peer.publicKey)));
+
   return {
-    roomState, sendMessage, uploadFile, createRoom, joinRoom, leaveRoom,
+    roomState, sendMessage, uploadFile, createRoom, joinRoom, leaveRoom, canSend,
     isE2eeEnabled, isReady, encryptFiles, setEncryptFiles,
+    roomPeers, ownPublicKey: keyPair?.publicKey ?? null, ownIdentity: identity,
+    isPassphraseProtected: !!roomSecrets, passphrasePrompt,
+    roomExit, kickClient, setRoomLocked, transferOwnership,
+    joinPending, joinRequests, respondToJoinRequest, setKnockMode, needsReload,
   };
 };
@@ -0,0 +1,239 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import Toast from '../components/common/Toast';
+import {
+  AdminOverview,
+  AdminRoom,
+  closeAdminRoom,
+  disconnectAdminClient,
+  fetchAdminOverview,
+  getAdminPassword,
+  setAdminPassword,
+} from '../services/adminApi';
+import './Admin.css';
+
+const REFRESH_INTERVAL = 5000;
+
+const formatBytes = (bytes: number, decimals = 1) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const dm = decimals < 0 ? 0 : decimals;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
+};
+
+const formatAge = (timestamp: number, now: number) => {
+  const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+const shortId = (id: string) => id.slice(0, 8);
+
+interface ToastState {
+  message: string;
+  type: 'success' | 'error' | 'info';
+}
+
+interface AdminRoomCardProps {
+  room: AdminRoom;
+  now: number;
+  onCloseRoom: (roomId: string) => void;
+  onDisconnect: (clientId: string) => void;
+}
+
+const AdminRoomCard: React.FC<AdminRoomCardProps> = ({ room, now, onCloseRoom, onDisconnect }) => (
+  <section className="admin-room" aria-label={`Room ${room.roomId}`}>
+    <div className="admin-room__header">
+      <h2 className="admin-room__id">{room.roomId}</h2>
+      <div className="admin-room__badges">
+        {room.locked && <span className="admin-badge">Locked</span>}
+        {room.knock && <span className="admin-badge">Approval</span>}
+        {room.protected && <span className="admin-badge">Passphrase</span>}
+      </div>
+      <button className="btn btn-danger btn-compact" onClick={() => onCloseRoom(room.roomId)}>
+        Close room
+      </button>
+    </div>
+
+    <dl className="admin-room__stats">
+      <div><dt>Clients</dt><dd>{room.clientCount}{room.remoteClientCount > 0 && ` (${room.remoteClientCount} on other nodes)`}</dd></div>
+      <div><dt>Waiting</dt><dd>{room.pendingCount}</dd></div>
+      <div><dt>Last activity</dt><dd>{formatAge(room.lastActivity, now)} ago</dd></div>
+      <div><dt>Rate-limit hits</dt><dd>{room.rateLimitHits}</dd></div>
+      <div><dt>Relayed this hour</dt><dd>{formatBytes(room.bytesThisHour)}</dd></div>
+      <div><dt>Buffered clips</dt><dd>{room.bufferedClips}</dd></div>
+    </dl>
+
+    {room.clients.length > 0 && (
+      <table className="admin-table">
+        <thead>
+          <tr><th>Client</th><th>Connected</th><th>Rate-limit hits</th><th>Browser</th><th /></tr>
+        </thead>
+        <tbody>
+          {room.clients.map(client => (
+            <tr key={client.id}>
+              <td className="admin-mono" title={client.id}>
+                {shortId(client.id)}{client.id === room.ownerId && <span className="admin-owner"> owner</span>}
+              </td>
+              <td>{formatAge(client.connectedAt, now)}</td>
+              <td>{client.rateLimitHits}</td>
+              <td className="admin-agent" title={client.userAgent}>{client.userAgent || '—'}</td>
+              <td>
+                <button className="btn btn-small" onClick={() => onDisconnect(client.id)}>Disconnect</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+
+    {room.transfers.length > 0 && (
+      <table className="admin-table">
+        <thead>
+          <tr><th>Transfer</th><th>Sender</th><th>Relayed</th><th>Chunks</th><th>Running</th></tr>
+        </thead>
+        <tbody>
+          {room.transfers.map(transfer => (
+            <tr key={`${transfer.clientId}:${transfer.fileId}`}>
+              <td className="admin-mono" title={transfer.fileId}>{shortId(transfer.fileId)}</td>
+              <td className="admin-mono" title={transfer.clientId}>{shortId(transfer.clientId)}</td>
+              <td>
+                {formatBytes(transfer.bytesRelayed)}
+                {transfer.declaredSize !== null && ` of ${formatBytes(transfer.declaredSize)}`}
+              </td>
+              <td>{transfer.chunksRelayed}{transfer.totalChunks !== null && ` / ${transfer.totalChunks}`}</td>
+              <td>{formatAge(transfer.startedAt, now)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </section>
+);
+
+/**
+ * Live view of the rooms on this server node for operators.  Shows only
+ * counts, ids and timings, never what is being shared.
+ */
+const Admin: React.FC = () => {
+  const [password, setPassword] = useState<string | null>(getAdminPassword);
+  const [passwordInput, setPasswordInput] = useState('');
+  const [overview, setOverview] = useState<AdminOverview | null>(null);
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const signOut = useCallback((error: string | null = null) => {
+    setAdminPassword(null);
+    setPassword(null);
+    setOverview(null);
+    setLoginError(error);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!password) return;
+    const result = await fetchAdminOverview(password);
+    if (result.ok) {
+      setOverview(result.data);
+      setNow(Date.now());
+    } else if (result.status === 401 || result.status === 404 || result.status === 429) {
+      signOut(result.error);
+    } else {
+      setToast({ message: result.error, type: 'error' });
+    }
+  }, [password, signOut]);
+
+  useEffect(() => {
+    if (!password) return;
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [password, refresh]);
+
+  const handleSignIn = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passwordInput) return;
+    setAdminPassword(passwordInput);
+    setPassword(passwordInput);
+    setPasswordInput('');
+    setLoginError(null);
+  };
+
+  const handleCloseRoom = async (roomId: string) => {
+    if (!password || !window.confirm(`Close room ${roomId}? Every device in it will be disconnected.`)) return;
+    const result = await closeAdminRoom(password, roomId);
+    setToast(result.ok
+      ? { message: `Room ${roomId} closed`, type: 'success' }
+      : { message: result.error, type: 'error' });
+    refresh();
+  };
+
+  const handleDisconnect = async (clientId: string) => {
+    if (!password) return;
+    const result = await disconnectAdminClient(password, clientId);
+    setToast(result.ok
+      ? { message: `Client ${shortId(clientId)} disconnected`, type: 'success' }
+      : { message: result.error, type: 'error' });
+    refresh();
+  };
+
+  if (!password) {
+    return (
+      <div className="admin">
+        <form className="admin-login" onSubmit={handleSignIn}>
+          <h1>Admin</h1>
+          <label htmlFor="admin-password">Admin password</label>
+          <input
+            id="admin-password"
+            type="password"
+            autoComplete="current-password"
+            value={passwordInput}
+            onChange={(e) => setPasswordInput(e.target.value)}
+            autoFocus
+          />
+          {loginError && <span className="admin-error" role="alert">{loginError}</span>}
+          <button type="submit" className="btn btn-primary" disabled={!passwordInput}>Sign in</button>
+          <Link to="/" className="admin-back">Back to Instant Paste</Link>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="admin">
+      <div className="admin-header">
+        <div>
+          <h1>Live rooms</h1>
+          {overview && (
+            <p className="admin-summary">
+              {overview.rooms.length} room{overview.rooms.length === 1 ? '' : 's'} · {overview.connections} connection
+              {overview.connections === 1 ? '' : 's'} · node <span className="admin-mono">{shortId(overview.nodeId)}</span>
+            </p>
+          )}
+        </div>
+        <div className="admin-header__actions">
+          <button className="btn btn-small" onClick={refresh}>Refresh</button>
+          <button className="btn btn-small" onClick={() => signOut()}>Sign out</button>
+        </div>
+      </div>
+
+      {overview && overview.rooms.length === 0 && <p className="admin-empty">No active rooms.</p>}
+      {overview?.rooms.map(room => (
+        <AdminRoomCard
+          key={room.roomId}
+          room={room}
+          now={now}
+          onCloseRoom={handleCloseRoom}
+          onDisconnect={handleDisconnect}
+        />
+      ))}
+
+      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+    </div>
+  );
+};
+
+export default Admin;
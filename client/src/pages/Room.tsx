@@ -1,17 +1,34 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import RoomInfo from '../components/room/RoomInfo';
+import PassphraseModal from '../components/room/PassphraseModal';
+import JoinPendingModal from '../components/room/JoinPendingModal';
+import ReloadRequiredModal from '../components/room/ReloadRequiredModal';
+import JoinRequests from '../components/room/JoinRequests';
+import { normalizeRoomId } from '../utils/roomId';
 import ClipboardArea from '../components/room/ClipboardArea';
 import Toast from '../components/common/Toast';
-import { useWebSocket } from '../hooks/useWebSocket';
+import { useWebSocket, RoomExit } from '../hooks/useWebSocket';
+import { usePeerVerification } from '../hooks/usePeerVerification';
 import { loadHistory, saveHistory, clearHistory } from '../utils/indexedDB';
 import { addRecentRoom } from '../utils/recentRooms';
+import {
+  MAX_OUTBOX_FILE_BYTES,
+  OutboxEntry,
+  addToOutbox,
+  clearOutbox,
+  loadOutbox,
+  removeFromOutbox,
+} from '../utils/outbox';
 import type { ClipboardItem } from '../types/ClipboardItem';
 import { WebSocketMessage } from '../types/index';
+import type { SyncableClip } from '../services/clipSync';
 import { createImageThumbnail } from '../utils/image';
+import { compressText, MAX_TEXT_CLIP_INFLATED_BYTES } from '../utils/compression';
 import '../App.css';
 //this is a test comit
 const MAX_HISTORY = 20;
+const MAX_TEXT_CLIP_BYTES = 1024 * 1024; // Larger clips are sent as files
 const ALLOWED_CONTENT_TYPES: ReadonlySet<ClipboardItem['type']> = new Set([
   'text', 'rich-text', 'image', 'video', 'file', 'audio', 'application', 'collection',
 ]);
@@ -96,6 +113,10 @@ const refreshCollectionItem = (item: ClipboardItem): ClipboardItem => {
   const allComplete = items.length > 0
     && items.length >= collectionTotal
     && items.every(child => child.status === 'complete' || !child.status);
+  const allSettled = items.length > 0
+    && items.length >= collectionTotal
+    && items.every(child => child.status === 'complete' || child.status === 'corrupted' || !child.status);
+  const hasCorrupted = items.some(child => child.status === 'corrupted');
   const hasDownloading = items.some(child => child.status === 'downloading');
   const hasUploading = items.some(child => child.status === 'uploading' || child.status === 'generating');
 
@@ -105,7 +126,9 @@ const refreshCollectionItem = (item: ClipboardItem): ClipboardItem => {
     items,
     name: getCollectionName(items, collectionTotal),
     size: items.reduce((sum, child) => sum + (child.size ?? 0), 0),
-    status: allComplete ? 'complete' : hasDownloading ? 'downloading' : hasUploading ? 'uploading' : item.status,
+    status: allComplete ? 'complete'
+      : allSettled && hasCorrupted ? 'corrupted'
+      : hasDownloading ? 'downloading' : hasUploading ? 'uploading' : item.status,
     progress: allComplete ? 100 : totalProgress / progressDivisor,
   };
 };
@@ -136,6 +159,26 @@ const createLocalFileItem = (
   };
 };
 
+// History entry for an outbox entry, restored after a reload or a dropped upload
+const createQueuedItem = (entry: OutboxEntry): ClipboardItem => (
+  entry.kind === 'file' && entry.file
+    ? {
+      ...createLocalFileItem(entry.file, entry.id, entry.createdAt),
+      content: URL.createObjectURL(entry.file),
+      previewContent: entry.previewContent,
+      status: 'queued',
+    }
+    : {
+      id: entry.id,
+      type: entry.contentType ?? 'text',
+      content: entry.content ?? '',
+      timestamp: entry.createdAt,
+      encrypted: true,
+      status: 'queued',
+      progress: 0,
+    }
+);
+
 const createIncomingFileItem = (
   message: WebSocketMessage,
   status: ClipboardItem['status'],
@@ -298,7 +341,8 @@ interface ToastState {
 }
 
 const Room: React.FC = () => {
-  const { roomId } = useParams<{ roomId: string }>();
+  const { roomId: roomIdParam } = useParams<{ roomId: string }>();
+  const roomId = roomIdParam ? normalizeRoomId(roomIdParam) : undefined;
   const navigate = useNavigate();
   const [history, setHistory] = useState<ClipboardItem[]>([]);
   const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
@@ -306,6 +350,7 @@ const Room: React.FC = () => {
   const [toast, setToast] = useState<ToastState | null>(null);
   const lastAutoCopyRef = useRef<number>(0);
   const historyRef = useRef<ClipboardItem[]>([]);
+  const isFlushingRef = useRef(false);
 
   const showToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'info') => {
     setToast({ message, type });
@@ -382,6 +427,23 @@ const Room: React.FC = () => {
     });
   }, []);
 
+  // Catch-up clips are older than what is already shown, so they go in by time
+  const insertHistoryItem = useCallback((newItem: ClipboardItem) => {
+    setHistory(prev => {
+      if (prev.some(item => item.id === newItem.id)) return prev;
+
+      const index = prev.findIndex(item => item.timestamp < newItem.timestamp);
+      return trimHistory(index === -1 ? [...prev, newItem] : [...prev.slice(0, index), newItem, ...prev.slice(index)]);
+    });
+  }, []);
+
+  // Text clips this device can hand to a device that joins later
+  const getRecentClips = useCallback((): SyncableClip[] => (
+    historyRef.current
+      .filter(item => (item.type === 'text' || item.type === 'rich-text') && (!item.status || item.status === 'complete') && !item.fileId)
+      .map(item => ({ clipId: item.id, contentType: item.type, content: item.content, timestamp: item.timestamp }))
+  ), []);
+
   const handleFileTransferUpdate = useCallback((update: WebSocketMessage) => {
     if (!update.fileId) return;
 
@@ -399,6 +461,16 @@ const Room: React.FC = () => {
           }
           newItem.status = 'complete';
           newItem.progress = 100;
+        } else if (update.type === 'file-integrity-error') {
+          // Keep the entry so the user sees the file arrived damaged, but never expose its bytes
+          revokeClipboardItemUrls(item);
+          showToast(`File failed verification: ${update.message}`, 'error');
+          return {
+            ...newItem,
+            content: '',
+            status: 'corrupted',
+            error: update.message,
+          };
         } else if (update.type === 'file-error') {
           revokeClipboardItemUrls(item);
           showToast(`File transfer failed: ${update.message}`, 'error');
@@ -478,17 +550,23 @@ const Room: React.FC = () => {
           // This is a regular text or rich-text message
           const contentType = toContentType(message.contentType);
           const newItem: ClipboardItem = {
-            id: createLocalId(),
+            id: message.clipId || createLocalId(),
             type: contentType,
             content: message.content || '',
             timestamp: message.timestamp || Date.now(),
             encrypted: true,
+            senderUnverified: message.senderUnverified,
             status: 'complete',
             progress: 100,
           };
-          prependHistoryItem(newItem);
+          if (message.buffered) {
+            insertHistoryItem(newItem);
+          } else {
+            prependHistoryItem(newItem);
+          }
 
-          if (autoCopyEnabled && message.content && contentType === 'text') {
+          // Catch-up clips are old news, so never auto-copy them
+          if (autoCopyEnabled && !message.buffered && message.content && contentType === 'text') {
             const now = Date.now();
             if (now - lastAutoCopyRef.current > 2000) {
               lastAutoCopyRef.current = now;
@@ -507,12 +585,23 @@ const Room: React.FC = () => {
         }
         break;
     }
-  }, [autoCopyEnabled, showToast, copyTextToClipboard, prependHistoryItem]);
-
-  const { roomState, sendMessage, uploadFile, leaveRoom, isE2eeEnabled, encryptFiles, setEncryptFiles } = useWebSocket(
+  }, [autoCopyEnabled, showToast, copyTextToClipboard, prependHistoryItem, insertHistoryItem]);
+
+  const {
+    roomState, sendMessage, uploadFile, joinRoom, leaveRoom, canSend, isE2eeEnabled, encryptFiles, setEncryptFiles,
+    roomPeers, ownPublicKey, ownIdentity, isPassphraseProtected, passphrasePrompt,
+    roomExit, kickClient, setRoomLocked, transferOwnership,
+    joinPending, joinRequests, respondToJoinRequest, setKnockMode, needsReload,
+  } = useWebSocket(
     handleClipboardReceived,
     handleFileTransferUpdate,
-    roomId
+    roomId,
+    getRecentClips,
+  );
+  const { peers, setPeerVerified, keyChangeAlerts, dismissKeyChangeAlert } = usePeerVerification(
+    roomPeers,
+    ownPublicKey,
+    ownIdentity,
   );
 
   useEffect(() => {
@@ -520,15 +609,18 @@ const Room: React.FC = () => {
     const fetchHistory = async () => {
       try {
         const savedHistory = await loadHistory(roomId);
-        if (savedHistory && Array.isArray(savedHistory)) {
+        const saved: ClipboardItem[] = Array.isArray(savedHistory)
           // File blob URLs are session-local, so only text-like entries survive reloads.
-          setHistory(savedHistory.filter(item => (
+          ? savedHistory.filter(item => (
             (item.status === 'complete' || !item.status)
             && item.type !== 'collection'
             && !item.fileId
             && !item.content?.startsWith('blob:')
-          )));
-        }
+          ))
+          : [];
+        // Clips still waiting in the outbox come back as queued
+        const queued = (await loadOutbox(roomId)).map(createQueuedItem);
+        setHistory([...queued, ...saved].sort((a, b) => b.timestamp - a.timestamp));
       } catch (error) {
         console.error('Failed to load history from IndexedDB:', error);
         showToast('Could not load history.', 'error');
@@ -544,7 +636,8 @@ const Room: React.FC = () => {
       const now = Date.now();
       const thirtyMinutes = 30 * 60 * 1000;
       setHistory(prev => prev.filter(item => {
-        const keep = now - item.timestamp < thirtyMinutes;
+        // Queued clips stay visible until they are sent
+        const keep = item.status === 'queued' || now - item.timestamp < thirtyMinutes;
         if (!keep) revokeClipboardItemUrls(item);
         return keep;
       }));
@@ -579,7 +672,80 @@ const Room: React.FC = () => {
     return () => clearTimeout(timeoutId);
   }, [history, roomId, showToast, isHistoryLoaded]);
 
+  // ── Outbox ─────────────────────────────────────────────────
+
+  // Later clips wait behind queued ones, so the room receives them in order
+  const hasQueuedClips = useCallback(() => historyRef.current.some(item => item.status === 'queued'), []);
+
+  // Sends queued clips oldest first; stops at the first one that can't go out yet
+  const flushOutbox = useCallback(async () => {
+    if (!roomId || !uploadFile || isFlushingRef.current) return;
+    isFlushingRef.current = true;
+    try {
+      for (;;) {
+        const [entry] = await loadOutbox(roomId);
+        if (!entry) break;
+
+        if (entry.kind === 'file') {
+          // Files stay queued until the upload is done, so a reload mid-upload
+          // sends them again; other failures report themselves like any upload
+          if (entry.file) {
+            setHistory(prev => updateFileInHistory(prev, entry.id, item => ({ ...item, status: 'uploading', progress: 0 })));
+            const outcome = await uploadFile(entry.file, entry.id, entry.previewContent);
+            if (outcome === 'disconnected') {
+              // The failed upload took its history entry with it; show the file as queued again
+              insertHistoryItem(createQueuedItem(entry));
+              break;
+            }
+          }
+          await removeFromOutbox(entry.id);
+          continue;
+        }
+
+        const sent = await sendMessage({
+          type: 'clipboard',
+          clipId: entry.id,
+          contentType: entry.contentType,
+          content: entry.content,
+        });
+        if (!sent) break;
+        await removeFromOutbox(entry.id);
+        setHistory(prev => prev.map(item => (
+          item.id === entry.id ? { ...item, status: 'complete' as const, progress: 100 } : item
+        )));
+      }
+    } catch (error) {
+      console.error('Failed to flush the outbox:', error);
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [roomId, sendMessage, uploadFile, insertHistoryItem]);
+
+  const queueClip = useCallback(async (entry: Omit<OutboxEntry, 'roomId'>) => {
+    setHistory(prev => prev.map(item => (
+      item.id === entry.id ? { ...item, status: 'queued' as const, progress: 0 } : item
+    )));
+    try {
+      if (!roomId) throw new Error('Not in a room');
+      await addToOutbox({ ...entry, roomId });
+    } catch (error) {
+      console.error('Failed to queue clip:', error);
+      showToast('Failed to send content. Check connection or E2EE key sync.', 'error');
+    }
+  }, [roomId, showToast]);
+
+  useEffect(() => {
+    if (canSend && isHistoryLoaded) {
+      flushOutbox();
+    }
+  }, [canSend, isHistoryLoaded, flushOutbox]);
+
   const handleFileSelect = useCallback(async (file: File, uploadToken?: string) => {
+    const queue = !canSend || hasQueuedClips();
+    if (queue && file.size > MAX_OUTBOX_FILE_BYTES) {
+      showToast('Reconnect to send files this large.', 'error');
+      return;
+    }
     const fileId = createLocalId();
 
     // Create a placeholder for the sender's UI immediately
@@ -600,13 +766,19 @@ const Room: React.FC = () => {
     const fullFileBlobUrl = URL.createObjectURL(file);
     setHistory(prev => updateFilePreviewInHistory(prev, fileId, previewContent, fullFileBlobUrl));
 
+    if (queue) {
+      await queueClip({ id: fileId, createdAt: initialItem.timestamp, kind: 'file', file, previewContent });
+      if (canSend) flushOutbox();
+      return;
+    }
+
     // The hook now handles the entire upload sequence
     if (uploadFile) {
         await uploadFile(file, fileId, previewContent, uploadToken);
     } else {
        showToast('File upload is not available.', 'error');
     }
-  }, [uploadFile, showToast, prependHistoryItem]);
+  }, [uploadFile, showToast, prependHistoryItem, canSend, hasQueuedClips, queueClip, flushOutbox]);
 
   const handleFilesSelect = useCallback(async (files: File[], uploadToken?: string) => {
     if (files.length === 0) return;
@@ -619,6 +791,10 @@ const Room: React.FC = () => {
       showToast('File upload is not available.', 'error');
       return;
     }
+    if (!canSend) {
+      showToast('Reconnect to send several files at once.', 'error');
+      return;
+    }
 
     const collectionId = createLocalId();
     const collectionTotal = files.length;
@@ -669,12 +845,20 @@ const Room: React.FC = () => {
         collectionIndex: index,
       });
     });
-  }, [handleFileSelect, uploadFile, showToast, prependHistoryItem]);
+  }, [handleFileSelect, uploadFile, showToast, prependHistoryItem, canSend]);
 
   const handlePaste = useCallback(async (type: ClipboardItem['type'], content: string) => {
-    // Check if content is too large for a single WebSocket message (limit is 2MB, safety margin 1MB)
+    // Check if content is too large for a single WebSocket message (limit is 2MB, safety margin 1MB).
+    // Large logs and dumps usually compress well enough to still fit as a text clip,
+    // up to the size receivers are willing to inflate.
     const sizeInBytes = new Blob([content]).size;
-    if (sizeInBytes > 1024 * 1024) {
+    let packed: Awaited<ReturnType<typeof compressText>> | undefined;
+    if (sizeInBytes > MAX_TEXT_CLIP_BYTES && sizeInBytes <= MAX_TEXT_CLIP_INFLATED_BYTES) {
+      packed = await compressText(content);
+    }
+    const tooLarge = sizeInBytes > MAX_TEXT_CLIP_INFLATED_BYTES
+      || (packed && (!packed.compression || packed.content.length > MAX_TEXT_CLIP_BYTES));
+    if (tooLarge) {
       showToast('Content too large. sending as file...', 'info');
       const safeTimestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const filename = type === 'rich-text' ? `Rich Text ${safeTimestamp}.html` : `Large Text ${safeTimestamp}.txt`;
@@ -696,16 +880,35 @@ const Room: React.FC = () => {
 
     prependHistoryItem(newItem);
 
-    const sent = await sendMessage({
+    const sent = canSend && !hasQueuedClips() && await sendMessage({
       type: 'clipboard',
+      clipId: newItem.id,
       contentType: contentType,
-      content: content,
+      content: packed?.content ?? content,
+      compression: packed?.compression,
     });
 
     if (!sent) {
-      showToast('Failed to send content. Check connection or E2EE key sync.', 'error');
+      // Offline or missing a peer's key: the outbox sends it once the room is back
+      await queueClip({ id: newItem.id, createdAt: newItem.timestamp, kind: 'text', contentType, content });
+      if (canSend) flushOutbox();
     }
-  }, [sendMessage, showToast, handleFileSelect, prependHistoryItem]);
+  }, [sendMessage, showToast, handleFileSelect, prependHistoryItem, canSend, hasQueuedClips, queueClip, flushOutbox]);
+
+  // Kicked, locked or turned away: go home and say why
+  useEffect(() => {
+    if (!roomExit) return;
+    const notices: Record<RoomExit['reason'], string> = {
+      kicked: `You were removed from room ${roomExit.roomId} by its owner.`,
+      locked: `Room ${roomExit.roomId} is locked by its owner.`,
+      denied: `Your request to join room ${roomExit.roomId} was declined.`,
+      closed: `Room ${roomExit.roomId} was closed by an administrator.`,
+      disconnected: 'You were disconnected by an administrator.',
+    };
+    const notice = notices[roomExit.reason];
+    leaveRoom();
+    navigate('/', { state: { notice } });
+  }, [roomExit, leaveRoom, navigate]);
 
   const handleLeaveRoom = () => {
     if (roomId) {
@@ -716,6 +919,10 @@ const Room: React.FC = () => {
   };
 
   const handleDeleteItem = useCallback((id: string) => {
+    // Deleting a queued clip also takes it out of the outbox
+    if (historyRef.current.some(item => item.id === id && item.status === 'queued')) {
+      removeFromOutbox(id).catch(error => console.error('Failed to remove queued clip:', error));
+    }
     setHistory(prev => prev.filter(item => {
         if (item.id === id) {
             revokeClipboardItemUrls(item);
@@ -734,7 +941,7 @@ const Room: React.FC = () => {
     });
     if (roomId) {
       try {
-        await clearHistory(roomId);
+        await Promise.all([clearHistory(roomId), clearOutbox(roomId)]);
         showToast('All clips have been deleted from history', 'info');
       } catch (error) {
         console.error('Failed to clear history from IndexedDB:', error);
@@ -755,7 +962,17 @@ const Room: React.FC = () => {
         onToggleEncryptFiles={setEncryptFiles}
         showToast={showToast}
         onClearAll={handleClearAll}
+        peers={peers}
+        onSetPeerVerified={setPeerVerified}
+        keyChangeAlerts={keyChangeAlerts}
+        onDismissKeyChangeAlert={dismissKeyChangeAlert}
+        passphraseProtected={isPassphraseProtected}
+        onKick={kickClient}
+        onSetLocked={setRoomLocked}
+        onTransferOwner={transferOwnership}
+        onSetKnock={setKnockMode}
       />
+      <JoinRequests requests={joinRequests} onRespond={respondToJoinRequest} />
       <ClipboardArea
         onPaste={handlePaste}
         onFileSelect={handleFileSelect}
@@ -765,6 +982,15 @@ const Room: React.FC = () => {
         showToast={showToast}
         onDeleteItem={handleDeleteItem}
       />
+      <PassphraseModal
+        isOpen={!!passphrasePrompt}
+        roomId={passphrasePrompt?.roomId ?? ''}
+        invalid={passphrasePrompt?.invalid ?? false}
+        onSubmit={(passphrase) => joinRoom(passphrasePrompt!.roomId, passphrase)}
+        onCancel={handleLeaveRoom}
+      />
+      <JoinPendingModal roomId={joinPending} onCancel={handleLeaveRoom} />
+      <ReloadRequiredModal isOpen={needsReload} />
       {toast && (
         <Toast
           message={toast.message}
@@ -0,0 +1,25 @@
+// src/protocol/index.ts
+// Encoding and decoding at the socket boundary.  Incoming messages are
+// checked against the shared schema before the app sees them.
+
+import { validateServerMessage } from './schema';
+import type { ClientMessage, ServerMessage } from './messages';
+
+export * from './messages';
+export { PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, negotiateVersion } from './schema';
+
+export const encodeClientMessage = (message: ClientMessage): string => JSON.stringify(message);
+
+/**
+ * Parses a text frame from the server.  Returns null, after logging why,
+ * for anything that doesn't match the schema.
+ */
+export const decodeServerMessage = (raw: string): ServerMessage | null => {
+  const data: unknown = JSON.parse(raw);
+  const validation = validateServerMessage(data);
+  if (!validation.valid) {
+    console.warn('Dropping invalid server message:', validation.message);
+    return null;
+  }
+  return data as ServerMessage;
+};
@@ -0,0 +1,352 @@
+// src/protocol/messages.ts
+// TypeScript view of the JSON messages described in schema.ts, one
+// interface per message type.  ClientMessage is what a browser may send,
+// ServerMessage what it may receive; both are discriminated on `type`.
+
+import type { PeerIdentity, PeerSignal, RoomClient } from '../types';
+
+export type EncryptedPayload = string | Record<string, string>; // One ciphertext, or one per recipient id
+
+export interface PassphraseProof {
+  salt: string;
+  verifier: string;
+  proof: string;
+}
+
+export interface ClipManifestEntry {
+  clipId: string;
+  timestamp: number;
+}
+
+/**
+ * Clip and file metadata.  In encrypted rooms most of it travels inside
+ * `encryptedMetadata` or `encryptedContent` instead.
+ */
+export interface ClipFields {
+  contentType?: string;
+  content?: string;
+  encryptedContent?: EncryptedPayload;
+  encryptedMetadata?: EncryptedPayload;
+  compression?: 'gzip' | 'deflate';
+  clipId?: string; // Stable id of a text clip, shared by every device's copy
+  timestamp?: number;
+  fileId?: string;
+  fileName?: string;
+  fileSize?: number;
+  fileType?: string;
+  totalChunks?: number;
+  previewContent?: string; // Base64 encoded thumbnail
+  fileDigest?: string; // Hex SHA-256 over the ordered chunk digests
+  chunkDigests?: string[]; // Hex SHA-256 of each plaintext chunk
+  collectionId?: string;
+  collectionTotal?: number;
+  collectionIndex?: number;
+}
+
+// ─── Client → server ─────────────────────────────────────────────────
+
+export interface ClientHello {
+  type: 'hello';
+  version: number;
+}
+
+export interface ClientJoin {
+  type: 'join';
+  roomId: string;
+  publicKey?: JsonWebKey;
+  identity?: PeerIdentity;
+  passphrase?: PassphraseProof;
+  sessionToken?: string; // Resumes the membership it was issued for
+}
+
+export interface ClientCreate {
+  type: 'create';
+  publicKey?: JsonWebKey;
+  identity?: PeerIdentity;
+  passphrase?: PassphraseProof;
+}
+
+export interface ClientLeave {
+  type: 'leave';
+}
+
+export interface ClientClipboard extends ClipFields {
+  type: 'clipboard';
+}
+
+export interface ClientFileChunk {
+  type: 'file-chunk'; // Legacy; chunks travel as binary frames
+  fileId: string;
+  chunkIndex: number;
+  totalChunks: number;
+  chunk?: string;
+  encryptedChunk?: EncryptedPayload;
+}
+
+export interface ClientFileStart extends ClipFields {
+  type: 'file-start';
+  fileId: string;
+  declaredFileSize?: number; // Server-visible size for transfer policy enforcement
+  uploadToken?: string; // Short-lived token required for large uploads
+  resume?: boolean; // Re-opens a transfer for re-sent chunks
+  resumeChunks?: number;
+  transport?: 'relay' | 'p2p';
+}
+
+export interface ClientFileKey {
+  type: 'file-key';
+  fileId: string;
+  encryptedDataKey: EncryptedPayload;
+}
+
+export interface ClientChunkAck {
+  type: 'chunk-ack';
+  fileId: string;
+  chunkIndex: number;
+  targetId?: string; // The uploader; the room gets the ack when it is unknown
+}
+
+export interface ClientFileResume {
+  type: 'file-resume';
+  fileId: string;
+  missingChunks: number[];
+}
+
+export interface ClientKick {
+  type: 'kick';
+  targetId: string;
+}
+
+export interface ClientLockRoom {
+  type: 'lock-room';
+  locked: boolean;
+}
+
+export interface ClientTransferOwner {
+  type: 'transfer-owner';
+  targetId: string;
+}
+
+export interface ClientSetKnock {
+  type: 'set-knock';
+  knock: boolean;
+}
+
+export interface ClientJoinResponse {
+  type: 'join-response';
+  requestId: string;
+  approve: boolean;
+}
+
+export interface ClientRtcSignal {
+  type: 'rtc-signal';
+  targetId: string;
+  signal: PeerSignal;
+}
+
+export interface ClientClipManifest {
+  type: 'clip-manifest';
+  targetId: string;
+  clips: ClipManifestEntry[];
+}
+
+export interface ClientClipRequest {
+  type: 'clip-request';
+  targetId: string;
+  clipIds: string[];
+}
+
+export interface ClientClipSync extends ClipFields {
+  type: 'clip-sync';
+  targetId: string;
+  clipId: string;
+}
+
+export type ClientMessage =
+  | ClientHello
+  | ClientJoin
+  | ClientCreate
+  | ClientLeave
+  | ClientClipboard
+  | ClientFileChunk
+  | ClientFileStart
+  | ClientFileKey
+  | ClientChunkAck
+  | ClientFileResume
+  | ClientKick
+  | ClientLockRoom
+  | ClientTransferOwner
+  | ClientSetKnock
+  | ClientJoinResponse
+  | ClientRtcSignal
+  | ClientClipManifest
+  | ClientClipRequest
+  | ClientClipSync;
+
+// ─── Server → client ─────────────────────────────────────────────────
+
+// Fields the server adds to everything it relays from another member
+interface Relayed {
+  senderId: string;
+  timestamp?: number;
+}
+
+export interface ServerHello {
+  type: 'hello';
+  version: number; // The version this connection speaks
+}
+
+export interface ServerRoomUpdate {
+  type: 'room-update';
+  roomId: string;
+  clients: RoomClient[];
+  clientCount: number;
+  ownerId: string | null;
+  locked: boolean;
+  knock: boolean;
+  clientId?: string; // Only on our own join, create or resume
+  sessionToken?: string; // Ditto; a later join carrying it resumes the membership
+}
+
+export interface ServerError {
+  type: 'error';
+  code: string;
+  message: string;
+  roomId?: string;
+  fileId?: string; // The transfer the error ends
+  passphraseSalt?: string; // Returned when a join needs a passphrase
+}
+
+export interface ServerClipboard extends ClipFields, Relayed {
+  type: 'clipboard';
+  senderPublicKey?: JsonWebKey; // On replayed clips, as the sender may have left
+  buffered?: boolean; // A catch-up copy of an earlier clip
+}
+
+export interface ServerFileChunk extends Relayed {
+  type: 'file-chunk';
+  fileId: string;
+  chunkIndex: number;
+  totalChunks: number;
+  chunk?: string;
+  encryptedChunk?: EncryptedPayload;
+}
+
+export interface ServerFileStart extends ClipFields, Relayed {
+  type: 'file-start';
+  fileId: string;
+  resume?: boolean;
+  resumeChunks?: number;
+  transport?: 'relay' | 'p2p';
+}
+
+export interface ServerFileKey extends Relayed {
+  type: 'file-key';
+  fileId: string;
+  encryptedDataKey: EncryptedPayload;
+}
+
+export interface ServerChunkAck extends Relayed {
+  type: 'chunk-ack';
+  fileId: string;
+  chunkIndex: number;
+}
+
+export interface ServerFileResume extends Relayed {
+  type: 'file-resume';
+  fileId: string;
+  missingChunks: number[];
+}
+
+export interface ServerFileCancel {
+  type: 'file-cancel';
+  fileId: string;
+  senderId?: string;
+}
+
+export interface ServerRtcSignal extends Relayed {
+  type: 'rtc-signal';
+  signal: PeerSignal;
+}
+
+export interface ServerClipManifest extends Relayed {
+  type: 'clip-manifest';
+  clips: ClipManifestEntry[];
+}
+
+export interface ServerClipRequest extends Relayed {
+  type: 'clip-request';
+  clipIds: string[];
+}
+
+export interface ServerClipSync extends ClipFields, Relayed {
+  type: 'clip-sync';
+  clipId: string;
+}
+
+export interface ServerKicked {
+  type: 'kicked';
+  roomId?: string;
+  reason?: string; // 'admin' when an administrator disconnected us
+}
+
+export interface ServerJoinPending {
+  type: 'join-pending';
+  roomId: string;
+}
+
+export interface ServerJoinDenied {
+  type: 'join-denied';
+  roomId: string;
+}
+
+export interface ServerJoinRequest {
+  type: 'join-request';
+  requestId: string; // The waiting client's id
+  publicKey?: JsonWebKey;
+  identity?: PeerIdentity;
+  userAgent?: string;
+}
+
+export interface ServerJoinRequestResolved {
+  type: 'join-request-resolved';
+  requestId: string;
+}
+
+export interface ServerRoomClosed {
+  type: 'room-closed';
+  reason?: string; // e.g. 'inactivity' or 'admin'
+}
+
+export interface ServerReconnectAfter {
+  type: 'reconnect-after';
+  delay: number; // Milliseconds to wait before reconnecting
+}
+
+export interface ServerReload {
+  type: 'reload';
+}
+
+export type ServerMessage =
+  | ServerHello
+  | ServerRoomUpdate
+  | ServerError
+  | ServerClipboard
+  | ServerFileChunk
+  | ServerFileStart
+  | ServerFileKey
+  | ServerChunkAck
+  | ServerFileResume
+  | ServerFileCancel
+  | ServerRtcSignal
+  | ServerClipManifest
+  | ServerClipRequest
+  | ServerClipSync
+  | ServerKicked
+  | ServerJoinPending
+  | ServerJoinDenied
+  | ServerJoinRequest
+  | ServerJoinRequestResolved
+  | ServerRoomClosed
+  | ServerReconnectAfter
+  | ServerReload;
@@ -0,0 +1,144 @@
+// src/protocol/schema.ts
+// The JSON wire protocol, shared by the server and the client.  Each table
+// lists the fields a message type must or may carry; unlisted fields pass
+// through, so relayed clips keep their metadata.
+// Limits that depend on server config (sizes, quotas, tokens) are checked
+// by the server's own validators after this.
+// The tables are typed against the unions in messages.ts, so a message type
+// or field missing from one side fails to compile.
+
+import type { ClientMessage, ServerMessage } from './messages';
+
+// Bump when a message changes shape.  A side older than the other's
+// MIN_PROTOCOL_VERSION is told to reload rather than left guessing.
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+
+type FieldKind = 'string' | 'integer' | 'number' | 'boolean' | 'object' | 'array';
+type RequiredSpec = FieldKind | `${FieldKind}|${FieldKind}`;
+export type FieldSpec = RequiredSpec | `${RequiredSpec}?`;
+
+// Optional or nullable fields take a '?' spec, all others must not
+type SpecFor<M, K extends keyof M> = {} extends Pick<M, K>
+  ? `${RequiredSpec}?`
+  : null extends M[K] ? `${RequiredSpec}?` : RequiredSpec;
+
+type FieldTable<M> = [Exclude<keyof M, 'type'>] extends [never]
+  ? Record<string, never> // A bare `{}` type would accept any field
+  : { [K in Exclude<keyof M, 'type'>]?: SpecFor<M, K> };
+
+// One entry per message type, listing only fields that message declares
+type SchemaTable<M extends { type: string }> = {
+  [T in M['type']]: FieldTable<Extract<M, { type: T }>>;
+};
+
+export interface ProtocolValidation {
+  valid: boolean;
+  code?: 'INVALID_MESSAGE';
+  message?: string;
+}
+
+// Field kinds: 'string', 'integer', 'number', 'boolean', 'object', 'array',
+// or alternatives joined with '|'.  A trailing '?' makes the field optional
+// (absent or null).
+export const CLIENT_MESSAGES: SchemaTable<ClientMessage> = {
+  hello: { version: 'integer' },
+  join: { roomId: 'string', publicKey: 'object?', identity: 'object?', passphrase: 'object?', sessionToken: 'string?' },
+  create: { publicKey: 'object?', identity: 'object?', passphrase: 'object?' },
+  leave: {},
+  clipboard: { content: 'string?', encryptedContent: 'string|object?', encryptedMetadata: 'string|object?', fileId: 'string?', clipId: 'string?' },
+  'file-chunk': { fileId: 'string', chunkIndex: 'integer', totalChunks: 'integer', chunk: 'string?', encryptedChunk: 'string|object?' },
+  'file-start': { fileId: 'string', fileName: 'string?', uploadToken: 'string?', resume: 'boolean?', resumeChunks: 'integer?', transport: 'string?' },
+  'file-key': { fileId: 'string', encryptedDataKey: 'string|object' },
+  'chunk-ack': { fileId: 'string', chunkIndex: 'integer', targetId: 'string?' },
+  'file-resume': { fileId: 'string', missingChunks: 'array' },
+  kick: { targetId: 'string' },
+  'lock-room': { locked: 'boolean' },
+  'transfer-owner': { targetId: 'string' },
+  'set-knock': { knock: 'boolean' },
+  'join-response': { requestId: 'string', approve: 'boolean' },
+  'rtc-signal': { targetId: 'string', signal: 'object' },
+  'clip-manifest': { targetId: 'string', clips: 'array' },
+  'clip-request': { targetId: 'string', clipIds: 'array' },
+  'clip-sync': { targetId: 'string', clipId: 'string', content: 'string?', encryptedContent: 'string|object?' },
+};
+
+export const SERVER_MESSAGES: SchemaTable<ServerMessage> = {
+  hello: { version: 'integer' },
+  'room-update': {
+    roomId: 'string', clients: 'array', clientCount: 'integer', ownerId: 'string?', locked: 'boolean', knock: 'boolean',
+    clientId: 'string?', sessionToken: 'string?',
+  },
+  error: { code: 'string', message: 'string', roomId: 'string?', fileId: 'string?', passphraseSalt: 'string?' },
+  clipboard: { senderId: 'string', content: 'string?', encryptedContent: 'string|object?', encryptedMetadata: 'string|object?', fileId: 'string?' },
+  'file-chunk': { senderId: 'string', fileId: 'string', chunkIndex: 'integer', totalChunks: 'integer' },
+  'file-start': { senderId: 'string', fileId: 'string', resume: 'boolean?' },
+  'file-key': { senderId: 'string', fileId: 'string', encryptedDataKey: 'string|object' },
+  'chunk-ack': { senderId: 'string', fileId: 'string', chunkIndex: 'integer' },
+  'file-resume': { senderId: 'string', fileId: 'string', missingChunks: 'array' },
+  'file-cancel': { fileId: 'string', senderId: 'string?' },
+  'rtc-signal': { senderId: 'string', signal: 'object' },
+  'clip-manifest': { senderId: 'string', clips: 'array' },
+  'clip-request': { senderId: 'string', clipIds: 'array' },
+  'clip-sync': { senderId: 'string', clipId: 'string', content: 'string?', encryptedContent: 'string|object?' },
+  kicked: { roomId: 'string?', reason: 'string?' },
+  'join-pending': { roomId: 'string' },
+  'join-denied': { roomId: 'string' },
+  'join-request': { requestId: 'string', publicKey: 'object?', identity: 'object?', userAgent: 'string?' },
+  'join-request-resolved': { requestId: 'string' },
+  'room-closed': { reason: 'string?' },
+  'reconnect-after': { delay: 'number' },
+  reload: {},
+};
+
+const isKind = (value: unknown, kind: string): boolean => {
+  switch (kind) {
+    case 'string': return typeof value === 'string';
+    case 'integer': return Number.isSafeInteger(value);
+    case 'number': return Number.isFinite(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    default: return false;
+  }
+};
+
+const validateAgainst = (schemas: Record<string, Record<string, FieldSpec>>, input: unknown): ProtocolValidation => {
+  if (!input || typeof input !== 'object' || typeof (input as { type?: unknown }).type !== 'string') {
+    return { valid: false, code: 'INVALID_MESSAGE', message: 'Invalid message format' };
+  }
+  const data = input as Record<string, unknown> & { type: string };
+  const fields = Object.prototype.hasOwnProperty.call(schemas, data.type) ? schemas[data.type] : null;
+  if (!fields) {
+    return { valid: false, code: 'INVALID_MESSAGE', message: `Unknown message type: ${data.type}` };
+  }
+  for (const [field, spec] of Object.entries(fields)) {
+    const optional = spec.endsWith('?');
+    const value = data[field];
+    if (optional && (value === undefined || value === null)) continue;
+    if (!spec.replace(/\?$/, '').split('|').some(kind => isKind(value, kind))) {
+      return { valid: false, code: 'INVALID_MESSAGE', message: `Invalid ${data.type}: ${field}` };
+    }
+  }
+  return { valid: true };
+};
+
+/**
+ * Checks a message a client sent to the server.
+ */
+export const validateClientMessage = (data: unknown): ProtocolValidation => validateAgainst(CLIENT_MESSAGES, data);
+
+/**
+ * Checks a message the server sent to a client.
+ */
+export const validateServerMessage = (data: unknown): ProtocolValidation => validateAgainst(SERVER_MESSAGES, data);
+
+/**
+ * Returns the version both sides will speak, or null when the other side's
+ * version is too old to talk to.
+ */
+export const negotiateVersion = (peerVersion: unknown): number | null => (
+  typeof peerVersion === 'number' && Number.isSafeInteger(peerVersion) && peerVersion >= MIN_PROTOCOL_VERSION
+    ? Math.min(peerVersion, PROTOCOL_VERSION)
+    : null
+);
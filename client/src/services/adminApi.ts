@@ -0,0 +1,97 @@
+// Client for the server's admin API.  The admin password travels as a
+// Bearer token and is kept for the browser session only.  The API reports
+// counts, ids and timings; it never returns clip or file contents.
+
+const ADMIN_PASSWORD_KEY = 'adminPassword';
+
+export interface AdminClient {
+  id: string;
+  connectedAt: number;
+  rateLimitHits: number;
+  userAgent: string;
+}
+
+export interface AdminTransfer {
+  clientId: string;
+  fileId: string;
+  bytesRelayed: number;
+  declaredSize: number | null;
+  chunksRelayed: number;
+  totalChunks: number | null;
+  startedAt: number;
+}
+
+export interface AdminRoom {
+  roomId: string;
+  clientCount: number; // Includes members connected to other nodes
+  remoteClientCount: number;
+  pendingCount: number;
+  ownerId: string | null;
+  locked: boolean;
+  knock: boolean;
+  protected: boolean;
+  bufferedClips: number;
+  lastActivity: number;
+  rateLimitHits: number;
+  bytesThisHour: number; // Relayed bytes counted against the room's hourly quota
+  clients: AdminClient[]; // This node's members only
+  transfers: AdminTransfer[];
+}
+
+export interface AdminOverview {
+  nodeId: string;
+  connections: number;
+  rooms: AdminRoom[];
+}
+
+export type AdminResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; status: number; error: string };
+
+export const getAdminPassword = (): string | null => {
+  try {
+    return sessionStorage.getItem(ADMIN_PASSWORD_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setAdminPassword = (password: string | null) => {
+  try {
+    if (password) {
+      sessionStorage.setItem(ADMIN_PASSWORD_KEY, password);
+    } else {
+      sessionStorage.removeItem(ADMIN_PASSWORD_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving admin password to sessionStorage', error);
+  }
+};
+
+const adminRequest = async <T>(path: string, password: string, method = 'GET'): Promise<AdminResult<T>> => {
+  try {
+    const response = await fetch(`/api/admin${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${password}` },
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { ok: false, status: response.status, error: body.error || `Request failed (${response.status})` };
+    }
+    return { ok: true, data: body as T };
+  } catch {
+    return { ok: false, status: 0, error: 'Could not reach the server' };
+  }
+};
+
+export const fetchAdminOverview = (password: string) => (
+  adminRequest<AdminOverview>('/rooms', password)
+);
+
+export const closeAdminRoom = (password: string, roomId: string) => (
+  adminRequest<{ closed: boolean }>(`/rooms/${encodeURIComponent(roomId)}/close`, password, 'POST')
+);
+
+export const disconnectAdminClient = (password: string, clientId: string) => (
+  adminRequest<{ disconnected: boolean }>(`/clients/${encodeURIComponent(clientId)}/disconnect`, password, 'POST')
+);
@@ -0,0 +1,76 @@
+// Catch-up of recent text clips for devices that join late.  When a new
+// member appears, one existing member offers it a manifest of its recent
+// clip ids; the newcomer asks for the ones it lacks, and each is sent back
+// encrypted for the newcomer alone.  The server only relays the exchange.
+
+import { ClientClipSync } from '../protocol';
+import { compressText } from '../utils/compression';
+import { EncryptionContext, encryptForRecipients } from './wsEncryption';
+
+export const CLIP_SYNC_LIMIT = 20; // Matches the server's clip buffer
+
+export interface SyncableClip {
+  clipId: string;
+  contentType: string;
+  content: string; // Plain text as shown in the history
+  timestamp: number;
+}
+
+export interface ClipManifestEntry {
+  clipId: string;
+  timestamp: number;
+}
+
+interface RoomMember {
+  id: string;
+}
+
+/**
+ * Picks the member that offers a newcomer its history: the owner, or else
+ * whoever has been in the room longest.  Every member computes the same
+ * answer from the room-update, so only one manifest is sent.
+ */
+export const getSyncOffererId = (
+  members: RoomMember[],
+  newcomerId: string,
+  ownerId: string | null,
+): string | null => {
+  if (ownerId && ownerId !== newcomerId && members.some(m => m.id === ownerId)) return ownerId;
+  return members.find(m => m.id !== newcomerId)?.id ?? null;
+};
+
+export const buildClipManifest = (clips: SyncableClip[]): ClipManifestEntry[] => (
+  clips.slice(0, CLIP_SYNC_LIMIT).map(({ clipId, timestamp }) => ({ clipId, timestamp }))
+);
+
+export const getMissingClipIds = (manifest: ClipManifestEntry[], localClipIds: Set<string>): string[] => (
+  manifest
+    .filter(entry => typeof entry?.clipId === 'string' && !localClipIds.has(entry.clipId))
+    .slice(0, CLIP_SYNC_LIMIT)
+    .map(entry => entry.clipId)
+);
+
+/**
+ * Builds the 'clip-sync' reply for one requested clip, encrypted for the
+ * requester only.  Returns null when the clip would have to travel in the
+ * clear although the room is encrypted.
+ */
+export const createClipSyncMessage = async (
+  clip: SyncableClip,
+  recipientId: string,
+  ctx: EncryptionContext,
+): Promise<ClientClipSync | null> => {
+  const packed = await compressText(clip.content);
+  const encrypted = await encryptForRecipients(packed.content, ctx, [recipientId]);
+  if (!encrypted && ctx.isE2eeEnabled) return null;
+
+  return {
+    type: 'clip-sync',
+    targetId: recipientId,
+    clipId: clip.clipId,
+    contentType: clip.contentType,
+    compression: packed.compression,
+    timestamp: clip.timestamp,
+    ...(encrypted ? { encryptedContent: encrypted } : { content: packed.content }),
+  };
+};
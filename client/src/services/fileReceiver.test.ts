@@ -0,0 +1,48 @@
+/**
+ * @jest-environment node
+ */
+// Runs under Node for its TextEncoder and Blob.
+
+import { encodeBinaryFrame } from './binaryProtocol';
+import { ActiveFileTransfer, createFileReceiverState, handleBinaryChunk } from './fileReceiver';
+
+const FILE_ID = 'file-1';
+const SENDER_ID = 'sender-1';
+
+const frame = (chunkIndex: number, totalChunks: number) => (
+  encodeBinaryFrame(FILE_ID, chunkIndex, totalChunks, new Uint8Array([chunkIndex]))
+);
+
+describe('handleBinaryChunk', () => {
+  it('acks a re-sent chunk it already stored', async () => {
+    const state = createFileReceiverState();
+    const transfer: ActiveFileTransfer = {
+      totalChunks: 3,
+      receivedChunks: new Set(),
+      metadata: { fileSize: 3 },
+      senderId: SENDER_ID,
+      createdAt: Date.now(),
+      _lastProgress: 0,
+    };
+    state.activeTransfers.set(FILE_ID, transfer);
+    const acks: number[] = [];
+    const receive = (chunkIndex: number) => handleBinaryChunk(
+      frame(chunkIndex, 3),
+      state,
+      () => {},
+      () => {},
+      () => {},
+      (fileId, index, senderId) => {
+        expect(senderId).toBe(SENDER_ID);
+        acks.push(index);
+      },
+    );
+
+    await receive(0);
+    await receive(1);
+    await receive(1); // Its first ack was lost, so the sender tried again
+
+    expect(acks).toEqual([0, 1, 1]);
+    expect(Array.from(transfer.receivedChunks)).toEqual([0, 1]);
+  });
+});
@@ -1,10 +1,44 @@
 // Handles incoming binary file chunks: reassembly, decryption, and completion.
+// Files up to MEMORY_RECEIVE_LIMIT are reassembled in memory and never
+// checkpointed: after a reconnect they resume from the in-memory received set,
+// but a reload loses them.  Larger files are written straight to disk (OPFS
+// where available, otherwise IndexedDB) and checkpointed.  Either way an
+// interrupted transfer resumes by asking for only the missing indices.
 
-import { decodeBinaryFrame } from './binaryProtocol';
+import { CHUNK_SIZE, decodeBinaryFrame, toBlobArrayBuffer } from './binaryProtocol';
 import { decryptChunk } from '../utils/e2ee';
+import { sha256Hex, computeFileDigests } from '../utils/fileDigest';
+import { CompressionFormat, decompressBytes } from '../utils/compression';
+import {
+  storeChunk,
+  saveCheckpoint,
+  getCheckpoint,
+  assembleFile,
+  deleteTransfer,
+} from '../utils/fileChunkStore';
+import {
+  isOpfsAvailable,
+  writeOpfsChunk,
+  finalizeOpfsFile,
+  deleteOpfsFile,
+} from '../utils/opfsChunkStore';
 import { WebSocketMessage } from '../types';
 
 const MAX_ORPHAN_BINARY_CHUNKS_PER_FILE = 32;
+const MEMORY_RECEIVE_LIMIT = 64 * 1024 * 1024; // 64 MB
+
+export type ReceiveStorageMode = 'memory' | 'indexeddb' | 'opfs';
+
+/**
+ * Picks where a transfer's chunks are kept.  Anything above the memory limit
+ * goes to disk so mobile tabs are not killed while reassembling large files.
+ */
+export const selectStorageMode = (fileSize: number): ReceiveStorageMode => {
+  if (fileSize <= MEMORY_RECEIVE_LIMIT) return 'memory';
+  if (isOpfsAvailable()) return 'opfs';
+  if (typeof indexedDB !== 'undefined') return 'indexeddb';
+  return 'memory';
+};
 
 export interface ActiveFileTransfer {
   dataKey?: CryptoKey;
@@ -16,17 +50,28 @@ export interface ActiveFileTransfer {
     fileType?: string;
     contentType?: string;
     previewContent?: string;
+    fileDigest?: string;
+    chunkDigests?: string[];
+    compression?: CompressionFormat;
   };
   senderId?: string;
   createdAt: number;
+  storageMode?: ReceiveStorageMode; // Chosen on the first chunk, once the size is known
   _lastProgress: number;
 }
 
+// A chunk that arrived before its file-start, with the data channel peer it came from
+export interface OrphanBinaryChunk {
+  frameData: ArrayBuffer;
+  peerId?: string;
+}
+
 export interface FileReceiverState {
   activeTransfers: Map<string, ActiveFileTransfer>;
   memoryChunks: Map<string, (BlobPart | null)[]>;
-  orphanBinaryChunks: Map<string, ArrayBuffer[]>;
+  orphanBinaryChunks: Map<string, OrphanBinaryChunk[]>;
   pendingDataKeys: Map<string, CryptoKey>;
+  settledFileIds: Set<string>; // Completed or failed; late and re-sent chunks are ignored
 }
 
 export const createFileReceiverState = (): FileReceiverState => ({
@@ -34,14 +79,148 @@ export const createFileReceiverState = (): FileReceiverState => ({
   memoryChunks: new Map(),
   orphanBinaryChunks: new Map(),
   pendingDataKeys: new Map(),
+  settledFileIds: new Set(),
 });
 
+/**
+ * Writes a decrypted chunk to the transfer's storage.  Disk-backed modes also
+ * record a checkpoint; a failed disk write is fatal because nothing else
+ * holds the bytes.
+ */
+const storeReceivedChunk = async (
+  state: FileReceiverState,
+  fileId: string,
+  chunkIndex: number,
+  data: Uint8Array,
+  transfer: ActiveFileTransfer,
+): Promise<void> => {
+  if (transfer.storageMode === 'memory') {
+    if (!state.memoryChunks.has(fileId)) {
+      state.memoryChunks.set(fileId, new Array(transfer.totalChunks).fill(null));
+    }
+    state.memoryChunks.get(fileId)![chunkIndex] = data;
+    return;
+  }
+
+  if (transfer.storageMode === 'opfs') {
+    await writeOpfsChunk(fileId, chunkIndex * CHUNK_SIZE, data);
+  } else {
+    // Stored as a Blob so the browser can keep it on disk instead of the JS heap
+    await storeChunk(fileId, chunkIndex, new Blob([toBlobArrayBuffer(data)]));
+  }
+
+  const received = new Set(transfer.receivedChunks).add(chunkIndex);
+  await saveCheckpoint({
+    fileId,
+    totalChunks: transfer.totalChunks,
+    receivedCount: received.size,
+    receivedSet: Array.from(received).sort((a, b) => a - b),
+    metadata: transfer.metadata,
+    createdAt: transfer.createdAt,
+    updatedAt: Date.now(),
+  });
+};
+
+/**
+ * Returns the chunk indices still missing for a transfer.  Disk-backed
+ * transfers also count the persisted checkpoint; in-memory ones have none,
+ * so their received set is the only record.
+ */
+export const getMissingChunks = async (
+  fileId: string,
+  transfer: ActiveFileTransfer,
+): Promise<number[]> => {
+  let received = transfer.receivedChunks;
+  if (transfer.storageMode !== 'memory') {
+    try {
+      const checkpoint = await getCheckpoint(fileId);
+      if (checkpoint && checkpoint.totalChunks === transfer.totalChunks) {
+        received = new Set([...checkpoint.receivedSet, ...transfer.receivedChunks]);
+      }
+    } catch (e) {
+      console.warn(`Failed to read checkpoint for ${fileId}:`, e);
+    }
+  }
+
+  const missing: number[] = [];
+  for (let i = 0; i < transfer.totalChunks; i++) {
+    if (!received.has(i)) missing.push(i);
+  }
+  return missing;
+};
+
+/**
+ * Drops every trace of a transfer, including its persisted chunks.
+ */
+export const discardTransfer = (state: FileReceiverState, fileId: string): void => {
+  const transfer = state.activeTransfers.get(fileId);
+  state.activeTransfers.delete(fileId);
+  state.orphanBinaryChunks.delete(fileId);
+  state.pendingDataKeys.delete(fileId);
+  releaseTransferStorage(state, fileId, transfer?.storageMode);
+};
+
+const releaseTransferStorage = (
+  state: FileReceiverState,
+  fileId: string,
+  storageMode: ReceiveStorageMode | undefined,
+) => {
+  state.memoryChunks.delete(fileId);
+  if (storageMode === 'opfs') {
+    deleteOpfsFile(fileId).catch(() => {});
+  }
+  deleteTransfer(fileId).catch(() => {});
+};
+
+const failIntegrity = (
+  state: FileReceiverState,
+  fileId: string,
+  transfer: ActiveFileTransfer,
+  message: string,
+  onError: (update: WebSocketMessage) => void,
+) => {
+  state.activeTransfers.delete(fileId);
+  state.settledFileIds.add(fileId);
+  releaseTransferStorage(state, fileId, transfer.storageMode);
+  onError({ type: 'file-integrity-error', fileId, message });
+};
+
+/**
+ * Produces the finished file.  Disk-backed results reference the stored
+ * data, which is left in place until stale-transfer cleanup removes it,
+ * because deleting it would break the object URL handed to the UI.
+ */
+const assembleTransfer = async (
+  state: FileReceiverState,
+  fileId: string,
+  transfer: ActiveFileTransfer,
+): Promise<Blob> => {
+  const fileType = transfer.metadata.fileType || 'application/octet-stream';
+
+  if (transfer.storageMode === 'opfs') {
+    const file = await finalizeOpfsFile(fileId);
+    return file.slice(0, file.size, fileType);
+  }
+  if (transfer.storageMode === 'indexeddb') {
+    return assembleFile(fileId, transfer.totalChunks, fileType);
+  }
+
+  const chunks = state.memoryChunks.get(fileId);
+  state.memoryChunks.delete(fileId);
+  if (!chunks || !chunks.every(Boolean)) {
+    throw new Error(`Missing in-memory chunks for file ${fileId}`);
+  }
+  return new Blob(chunks.map(b => b!), { type: fileType });
+};
+
 export const handleBinaryChunk = async (
   frameData: ArrayBuffer,
   state: FileReceiverState,
   onProgress: (update: WebSocketMessage) => void,
   onComplete: (update: WebSocketMessage) => void,
   onError: (update: WebSocketMessage) => void,
+  onChunkStored?: (fileId: string, chunkIndex: number, senderId?: string) => void,
+  peerId?: string, // Set for frames from a data channel, which only the file's sender may use
 ): Promise<void> => {
   let decoded;
   try {
@@ -53,6 +232,7 @@ export const handleBinaryChunk = async (
   }
 
   const { fileId, chunkIndex, totalChunks, data: chunkData } = decoded;
+  if (state.settledFileIds.has(fileId)) return;
 
   const transfer = state.activeTransfers.get(fileId);
   if (!transfer || transfer.totalChunks === 0) {
@@ -65,7 +245,14 @@ export const handleBinaryChunk = async (
       state.orphanBinaryChunks.delete(fileId);
       return;
     }
-    orphanChunks.push(frameData);
+    orphanChunks.push({ frameData, peerId });
+    return;
+  }
+
+  // The relay ties chunks to the client that announced the file; a data
+  // channel does not, so any peer could otherwise write into this transfer
+  if (peerId !== undefined && peerId !== transfer.senderId) {
+    console.warn(`Dropped chunk for ${fileId} from peer ${peerId}, who did not send it`);
     return;
   }
 
@@ -74,7 +261,11 @@ export const handleBinaryChunk = async (
     return;
   }
 
-  if (transfer.receivedChunks.has(chunkIndex)) return;
+  if (transfer.receivedChunks.has(chunkIndex)) {
+    // A re-sent chunk whose ack was lost; ack it again so the sender's window moves on
+    onChunkStored?.(fileId, chunkIndex, transfer.senderId);
+    return;
+  }
 
   let plainBytes: Uint8Array;
   if (transfer.dataKey) {
@@ -89,12 +280,49 @@ export const handleBinaryChunk = async (
     plainBytes = chunkData;
   }
 
-  if (!state.memoryChunks.has(fileId)) {
-    state.memoryChunks.set(fileId, new Array(totalChunks).fill(null));
+  if (transfer.metadata.compression) {
+    try {
+      plainBytes = await decompressBytes(plainBytes, transfer.metadata.compression, CHUNK_SIZE);
+    } catch (e) {
+      console.error(`Chunk ${chunkIndex} decompression failed for ${fileId}:`, e);
+      discardTransfer(state, fileId);
+      state.settledFileIds.add(fileId);
+      onError({ type: 'file-error', fileId, message: 'Chunk decompression failed' });
+      return;
+    }
   }
 
-  state.memoryChunks.get(fileId)![chunkIndex] = plainBytes;
+  const { fileDigest, chunkDigests } = transfer.metadata;
+  const chunkDigest = chunkDigests ? await sha256Hex(plainBytes) : undefined;
+
+  // The transfer may have been cancelled while the chunk was being decrypted
+  if (state.activeTransfers.get(fileId) !== transfer) return;
+
+  if (chunkDigests && chunkDigest !== chunkDigests[chunkIndex]) {
+    failIntegrity(state, fileId, transfer, `Chunk ${chunkIndex + 1} of ${totalChunks} failed its integrity check`, onError);
+    return;
+  }
+
+  if (!transfer.storageMode) {
+    transfer.storageMode = selectStorageMode(transfer.metadata.fileSize ?? totalChunks * CHUNK_SIZE);
+  }
+
+  try {
+    await storeReceivedChunk(state, fileId, chunkIndex, plainBytes, transfer);
+  } catch (e) {
+    console.error(`Failed to store chunk ${chunkIndex} for ${fileId}:`, e);
+    const quotaExceeded = e instanceof DOMException && e.name === 'QuotaExceededError';
+    discardTransfer(state, fileId);
+    onError({
+      type: 'file-error',
+      fileId,
+      message: quotaExceeded ? 'Not enough storage space for this file' : 'Failed to store file chunk',
+    });
+    return;
+  }
+  if (state.activeTransfers.get(fileId) !== transfer || transfer.receivedChunks.has(chunkIndex)) return;
   transfer.receivedChunks.add(chunkIndex);
+  onChunkStored?.(fileId, chunkIndex, transfer.senderId);
 
   const progress = (transfer.receivedChunks.size / totalChunks) * 100;
   if (progress - transfer._lastProgress >= 2 || transfer.receivedChunks.size === totalChunks) {
@@ -103,19 +331,21 @@ export const handleBinaryChunk = async (
   }
 
   if (transfer.receivedChunks.size === totalChunks) {
+    state.activeTransfers.delete(fileId);
+    state.settledFileIds.add(fileId);
     try {
-      const chunks = state.memoryChunks.get(fileId)!;
-      const blob = new Blob(chunks.map(b => b!), {
-        type: transfer.metadata.fileType || 'application/octet-stream',
-      });
+      const blob = await assembleTransfer(state, fileId, transfer);
+      // Hashed as read back from storage, so a bad write or a stale resume
+      // checkpoint fails here rather than reaching the user
+      if (fileDigest && (await computeFileDigests(blob, CHUNK_SIZE)).fileDigest !== fileDigest) {
+        failIntegrity(state, fileId, transfer, 'File failed its integrity check', onError);
+        return;
+      }
       const contentUrl = URL.createObjectURL(blob);
       onComplete({ type: 'file-complete', fileId, content: contentUrl });
     } catch (e) {
       console.error('File assembly failed:', e);
       onError({ type: 'file-error', fileId, message: 'File assembly failed' });
-    } finally {
-      state.memoryChunks.delete(fileId);
-      state.activeTransfers.delete(fileId);
     }
   }
 };
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+// Runs under Node for its TextEncoder; the uploader only needs the WebSocket
+// readyState constants, which Node 20 does not provide globally.
+
+import { decodeBinaryFrame } from './binaryProtocol';
+import { createFileUploaderState, handleChunkAck, resendChunks, UploadDeps } from './fileUploader';
+import { ClientMessage } from '../protocol';
+
+jest.mock('./binaryProtocol', () => ({
+  ...jest.requireActual('./binaryProtocol'),
+  CHUNK_SIZE: 4,
+}));
+
+const OPEN = 1;
+Object.assign(globalThis, { WebSocket: { OPEN, CLOSED: 3 } });
+
+const FILE_ID = 'file-1';
+const PEER_ID = 'peer-1';
+const TOTAL_CHUNKS = 6;
+
+// Only the parts of File the uploader reads
+const createFile = (size: number): File => {
+  const bytes = new Uint8Array(size);
+  return {
+    name: 'notes.txt',
+    size,
+    slice: (start: number, end: number) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer }),
+  } as unknown as File;
+};
+
+const setup = () => {
+  const uploaderState = createFileUploaderState();
+  uploaderState.outgoingFiles.set(FILE_ID, {
+    file: createFile(4 * TOTAL_CHUNKS),
+    totalChunks: TOTAL_CHUNKS,
+    uploading: false,
+    pendingResume: new Set(),
+    pendingResumeRequesters: new Set(),
+    acks: new Map(),
+    createdAt: Date.now(),
+  });
+  const ack = (chunkIndex: number) => handleChunkAck(uploaderState, FILE_ID, PEER_ID, chunkIndex);
+
+  // Peer frames are small enough to go out as one fragment behind a one-byte header
+  const channelChunks: number[] = [];
+  const channel = {
+    readyState: 'open',
+    bufferedAmount: 0,
+    send: (fragment: Uint8Array) => {
+      const { chunkIndex } = decodeBinaryFrame(fragment.slice(1).buffer);
+      channelChunks.push(chunkIndex);
+      // Chunk 1 is stored but its ack is lost; the channel drops after chunk 2
+      if (chunkIndex !== 1) ack(chunkIndex);
+      if (chunkIndex === 2) channel.readyState = 'closed';
+    },
+  };
+
+  // The receiver acks every relayed chunk, including the one it already had
+  const relayedChunks: number[] = [];
+  const ws = {
+    readyState: OPEN,
+    bufferedAmount: 0,
+    send: (frame: ArrayBuffer) => {
+      const { chunkIndex } = decodeBinaryFrame(frame);
+      relayedChunks.push(chunkIndex);
+      ack(chunkIndex);
+    },
+  };
+
+  const sentMessages: ClientMessage[] = [];
+  const deps: UploadDeps = {
+    ws: ws as unknown as WebSocket,
+    sendMessage: async (message) => {
+      sentMessages.push(message);
+      return true;
+    },
+    encryptionCtx: { isE2eeEnabled: false, keyPair: null, roomClients: {}, clientId: null, roomKey: null },
+    encryptFiles: false,
+    onUpdate: () => {},
+    uploaderState,
+    getRecipientIds: () => [PEER_ID],
+    getPeerChannels: () => [channel as unknown as RTCDataChannel],
+  };
+
+  return { deps, channelChunks, relayedChunks, sentMessages };
+};
+
+describe('resendChunks', () => {
+  it('relays only the chunks the receiver has not acked when the peer channel drops', async () => {
+    const { deps, channelChunks, relayedChunks, sentMessages } = setup();
+    const missing = Array.from({ length: TOTAL_CHUNKS }, (_, i) => i);
+
+    await resendChunks(FILE_ID, missing, deps, [PEER_ID]);
+
+    expect(channelChunks).toEqual([0, 1, 2]);
+    expect(relayedChunks).toEqual([1, 3, 4, 5]);
+    expect(sentMessages).toEqual([
+      expect.objectContaining({ type: 'file-start', fileId: FILE_ID, resume: true, resumeChunks: 4 }),
+    ]);
+  });
+});
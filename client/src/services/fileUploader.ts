@@ -1,26 +1,315 @@
 // Handles streaming file uploads over WebSocket with backpressure.
+// Besides the local socket buffer, uploads are paced by receivers' chunk
+// acks: at most ACK_WINDOW_CHUNKS may be unacknowledged by the slowest
+// recipient, so a slow phone slows the sender down instead of overflowing
+// its server-side send buffer.  Sent files stay registered for a while so
+// receivers that reconnect mid-transfer can ask for just the chunks they missed.
+// When every recipient has an open WebRTC data channel the frames go peer to
+// peer; if a channel drops mid-stream the rest of the file falls back to the
+// relay, re-sending only the chunks some recipient has not acknowledged.
+// A dropped socket pauses the upload until the session resumes on a new one,
+// which then carries on the same way.
 
 import { CHUNK_SIZE, BUFFER_HIGH_WATER, encodeBinaryFrame } from './binaryProtocol';
 import { encryptChunk, generateDataKey, exportDataKey } from '../utils/e2ee';
+import { computeFileDigests } from '../utils/fileDigest';
+import {
+  CompressionFormat,
+  DEFAULT_COMPRESSION,
+  compressBytes,
+  isCompressibleFile,
+  isCompressionSupported,
+} from '../utils/compression';
+import { ClientMessage } from '../protocol';
 import { WebSocketMessage } from '../types';
 import { EncryptionContext, encryptForRecipients } from './wsEncryption';
+import { PEER_BUFFER_HIGH_WATER, sendPeerFrame } from './peerTransport';
 
 const BACKPRESSURE_POLL_MS = 16;
+const OUTGOING_FILE_TTL_MS = 30 * 60 * 1000; // Matches the room history lifetime
+const ACK_WINDOW_CHUNKS = 3;
+const ACK_STALL_TIMEOUT_MS = 15 * 1000; // Recipients silent this long stop gating the upload
+const MAX_CHUNK_DIGESTS = 256; // Per-chunk digests are only sent up to 1 GB worth of chunks
 
 export interface UploadDeps {
   ws: WebSocket;
-  sendMessage: (msg: WebSocketMessage) => Promise<boolean>;
+  sendMessage: (msg: ClientMessage) => Promise<boolean>;
   encryptionCtx: EncryptionContext;
   encryptFiles: boolean;
   onUpdate: (update: WebSocketMessage) => void;
+  uploaderState: FileUploaderState;
+  getRecipientIds: () => string[]; // Live list of other clients in the room
+  getPeerChannels?: (recipientIds: string[]) => RTCDataChannel[] | null; // Null when any needs the relay
+  waitForResume?: () => Promise<WebSocket | null>; // The resumed session's socket, or null if it ended
 }
 
+// How an upload ended; 'disconnected' ones can be sent again once the room is back
+export type UploadOutcome = 'complete' | 'failed' | 'disconnected';
+
 export interface FileUploadCollection {
   collectionId: string;
   collectionTotal: number;
   collectionIndex: number;
 }
 
+interface RecipientAckState {
+  acked: Set<number>; // Indices of the chunks the recipient has stored
+  lastAckAt: number;
+}
+
+export interface OutgoingFile {
+  file: File;
+  totalChunks: number;
+  dataKey?: CryptoKey;
+  compression?: CompressionFormat; // Applied to every chunk before encryption
+  uploadToken?: string;
+  uploading: boolean;
+  pendingResume: Set<number>;
+  pendingResumeRequesters: Set<string>;
+  acks: Map<string, RecipientAckState>; // Per-recipient acks for the current send pass
+  createdAt: number;
+}
+
+export interface FileUploaderState {
+  outgoingFiles: Map<string, OutgoingFile>;
+}
+
+export const createFileUploaderState = (): FileUploaderState => ({
+  outgoingFiles: new Map(),
+});
+
+const pruneOutgoingFiles = (state: FileUploaderState) => {
+  const now = Date.now();
+  state.outgoingFiles.forEach((outgoing, fileId) => {
+    if (!outgoing.uploading && now - outgoing.createdAt > OUTGOING_FILE_TTL_MS) {
+      state.outgoingFiles.delete(fileId);
+    }
+  });
+};
+
+// A message that could not go out on a closed socket is worth retrying later
+const getSendFailureOutcome = (deps: UploadDeps): UploadOutcome => (
+  deps.ws.readyState === WebSocket.OPEN ? 'failed' : 'disconnected'
+);
+
+const distributeDataKey = async (
+  fileId: string,
+  dataKey: CryptoKey,
+  deps: UploadDeps,
+): Promise<boolean> => {
+  const dataKeyB64 = await exportDataKey(dataKey);
+  const encryptedDataKey = await encryptForRecipients(dataKeyB64, deps.encryptionCtx);
+  if (!encryptedDataKey) {
+    deps.onUpdate({ type: 'file-error', fileId, message: 'Failed to encrypt data key for recipients' });
+    return false;
+  }
+  const keySent = await deps.sendMessage({ type: 'file-key', fileId, encryptedDataKey });
+  if (!keySent) {
+    deps.onUpdate({ type: 'file-error', fileId, message: 'Failed to send data key' });
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Records a receiver's acknowledgement that it stored one chunk of a file.
+ */
+export const handleChunkAck = (
+  state: FileUploaderState,
+  fileId: string,
+  recipientId: string,
+  chunkIndex: number,
+): void => {
+  const ackState = state.outgoingFiles.get(fileId)?.acks.get(recipientId);
+  if (!ackState) return;
+  ackState.acked.add(chunkIndex);
+  ackState.lastAckAt = Date.now();
+};
+
+const resetAcks = (outgoing: OutgoingFile, recipientIds: string[]) => {
+  const now = Date.now();
+  outgoing.acks = new Map(recipientIds.map(id => [id, { acked: new Set(), lastAckAt: now }]));
+};
+
+const isWithinAckWindow = (outgoing: OutgoingFile, sent: number[], liveRecipients: Set<string>) => {
+  const now = Date.now();
+  let outstanding = 0;
+  outgoing.acks.forEach((ackState, recipientId) => {
+    if (!liveRecipients.has(recipientId) || now - ackState.lastAckAt > ACK_STALL_TIMEOUT_MS) {
+      // Left the room, or an older client that never acks: stop waiting on it
+      outgoing.acks.delete(recipientId);
+      return;
+    }
+    outstanding = Math.max(outstanding, sent.filter(i => !ackState.acked.has(i)).length);
+  });
+  return outstanding < ACK_WINDOW_CHUNKS;
+};
+
+// Sent chunks that some recipient has not acknowledged, in the order they went out
+const getUnackedChunks = (outgoing: OutgoingFile, sent: number[]) => {
+  const ackStates = Array.from(outgoing.acks.values());
+  return sent.filter(i => ackStates.some(ackState => !ackState.acked.has(i)));
+};
+
+/**
+ * Tells the server that `chunkCount` more chunks of an already announced file
+ * are about to be relayed.
+ */
+const announceRelayResume = (
+  fileId: string,
+  outgoing: OutgoingFile,
+  chunkCount: number,
+  deps: UploadDeps,
+): Promise<boolean> => deps.sendMessage({
+  type: 'file-start', fileId,
+  resume: true,
+  resumeChunks: chunkCount,
+  declaredFileSize: outgoing.file.size,
+  ...(outgoing.uploadToken ? { uploadToken: outgoing.uploadToken } : {}),
+});
+
+/**
+ * Streams the given chunk indices as binary frames, over the peer channels
+ * when given and the socket otherwise, waiting on the transport's buffered
+ * amount and on the slowest recipient's acks between frames.  Returns false
+ * if the connection dropped and the session could not be resumed.
+ */
+const streamChunks = async (
+  fileId: string,
+  outgoing: OutgoingFile,
+  indices: number[],
+  deps: UploadDeps,
+  channels: RTCDataChannel[] | null,
+  onChunkSent?: (sentCount: number) => void,
+): Promise<boolean> => {
+  const { getRecipientIds } = deps;
+  const { file, totalChunks, dataKey, compression } = outgoing;
+  let { ws } = deps;
+  let peerChannels = channels;
+
+  const isBackedUp = () => (peerChannels
+    ? peerChannels.some(channel => channel.bufferedAmount > PEER_BUFFER_HIGH_WATER)
+    : ws.bufferedAmount > BUFFER_HIGH_WATER);
+
+  // Frames still queued on a dropped transport are lost; acked ones were stored,
+  // so the relay carries the unacknowledged ones followed by the rest
+  let queue = indices;
+  const fallBackToRelay = (sentCount: number) => {
+    queue = [...getUnackedChunks(outgoing, queue.slice(0, sentCount)), ...queue.slice(sentCount)];
+    peerChannels = null;
+    return queue.length === 0 || announceRelayResume(fileId, outgoing, queue.length, deps);
+  };
+
+  for (let n = 0; n < queue.length; n++) {
+    if (ws.readyState !== WebSocket.OPEN) {
+      const resumed = await deps.waitForResume?.();
+      if (!resumed) return false;
+      ws = resumed;
+      console.warn(`Session resumed while sending ${fileId}; relaying the remaining chunks`);
+      if (!(await fallBackToRelay(n))) return false;
+      n = 0;
+    }
+
+    if (peerChannels?.some(channel => channel.readyState !== 'open')) {
+      console.warn(`Peer channel closed while sending ${fileId}; relaying the remaining chunks`);
+      if (!(await fallBackToRelay(n))) return false;
+      n = 0;
+    }
+    if (n >= queue.length) break; // Everything sent had been stored
+    const i = queue[n];
+
+    while (
+      isBackedUp()
+      || !isWithinAckWindow(outgoing, queue.slice(0, n), new Set(getRecipientIds()))
+    ) {
+      await new Promise(r => setTimeout(r, BACKPRESSURE_POLL_MS));
+      if (ws.readyState !== WebSocket.OPEN) break;
+    }
+    if (ws.readyState !== WebSocket.OPEN) {
+      n -= 1; // Waits for the session at the top of the loop
+      continue;
+    }
+
+    const start = i * CHUNK_SIZE;
+    const end = Math.min(start + CHUNK_SIZE, file.size);
+    const sliceAB = await file.slice(start, end).arrayBuffer();
+
+    let payload = new Uint8Array(sliceAB);
+    if (compression) {
+      payload = await compressBytes(payload, compression);
+    }
+    if (dataKey) {
+      payload = await encryptChunk(payload, dataKey);
+    }
+
+    const frame = encodeBinaryFrame(fileId, i, totalChunks, payload);
+    if (peerChannels) {
+      peerChannels.forEach(channel => sendPeerFrame(channel, frame));
+    } else {
+      ws.send(frame);
+    }
+    onChunkSent?.(indices.length - queue.length + n + 1);
+  }
+
+  return true;
+};
+
+const flushPendingResume = async (fileId: string, outgoing: OutgoingFile, deps: UploadDeps) => {
+  if (outgoing.pendingResume.size === 0) return;
+  const queued = Array.from(outgoing.pendingResume);
+  const requesterIds = Array.from(outgoing.pendingResumeRequesters);
+  outgoing.pendingResume.clear();
+  outgoing.pendingResumeRequesters.clear();
+  await resendChunks(fileId, queued, deps, requesterIds);
+};
+
+/**
+ * Re-sends the chunks a reconnected receiver reported missing.  If the
+ * original upload is still streaming, the request is queued and served once
+ * it finishes so the server never sees two overlapping announcements.
+ */
+export const resendChunks = async (
+  fileId: string,
+  missingChunks: number[],
+  deps: UploadDeps,
+  requesterIds: string[] = [],
+): Promise<void> => {
+  const outgoing = deps.uploaderState.outgoingFiles.get(fileId);
+  if (!outgoing) return;
+
+  const indices = missingChunks.filter(i => Number.isSafeInteger(i) && i >= 0 && i < outgoing.totalChunks);
+  if (indices.length === 0) return;
+
+  if (outgoing.uploading) {
+    indices.forEach(i => outgoing.pendingResume.add(i));
+    requesterIds.forEach(id => outgoing.pendingResumeRequesters.add(id));
+    return;
+  }
+
+  outgoing.uploading = true;
+  try {
+    if (outgoing.dataKey && !(await distributeDataKey(fileId, outgoing.dataKey, deps))) {
+      return;
+    }
+
+    // Only the requesters are missing these chunks, so only their acks pace the
+    // resend and a direct channel to each of them is enough to skip the relay
+    const channels = requesterIds.length > 0 ? deps.getPeerChannels?.(requesterIds) ?? null : null;
+    if (!channels && !(await announceRelayResume(fileId, outgoing, indices.length, deps))) return;
+
+    resetAcks(outgoing, requesterIds);
+    const sorted = [...indices].sort((a, b) => a - b);
+    if (!(await streamChunks(fileId, outgoing, sorted, deps, channels))) {
+      console.warn(`Connection lost while resending chunks for ${fileId}`);
+    }
+  } finally {
+    outgoing.uploading = false;
+    outgoing.createdAt = Date.now();
+  }
+
+  await flushPendingResume(fileId, outgoing, deps);
+};
+
 export const uploadFile = async (
   file: File,
   fileId: string,
@@ -28,38 +317,44 @@ export const uploadFile = async (
   uploadToken: string | undefined,
   deps: UploadDeps,
   collection?: FileUploadCollection,
-): Promise<void> => {
-  const { ws, sendMessage, encryptionCtx, encryptFiles, onUpdate } = deps;
+): Promise<UploadOutcome> => {
+  const { sendMessage, encryptionCtx, encryptFiles, onUpdate, uploaderState } = deps;
 
   const recipients = Object.values(encryptionCtx.roomClients)
     .filter(c => c.id !== encryptionCtx.clientId);
   const requiresEncryption = encryptionCtx.isE2eeEnabled && encryptFiles && recipients.length > 0;
   const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
+  const compression = isCompressionSupported() && isCompressibleFile(file.type, file.name)
+    ? DEFAULT_COMPRESSION
+    : undefined;
+
+  // 0. Hash the file so receivers can verify what they reassemble
+  let digests: { fileDigest: string; chunkDigests: string[] };
+  try {
+    digests = await computeFileDigests(file, CHUNK_SIZE);
+  } catch (e) {
+    console.error('File hashing failed:', e);
+    onUpdate({ type: 'file-error', fileId, message: 'Failed to read file' });
+    return 'failed';
+  }
 
   // 1. Generate & distribute per-file data key
   let dataKey: CryptoKey | undefined;
   if (requiresEncryption) {
     try {
       dataKey = await generateDataKey();
-      const dataKeyB64 = await exportDataKey(dataKey);
-      const encryptedDataKey = await encryptForRecipients(dataKeyB64, encryptionCtx);
-      if (!encryptedDataKey) {
-        onUpdate({ type: 'file-error', fileId, message: 'Failed to encrypt data key for recipients' });
-        return;
-      }
-      const keySent = await sendMessage({ type: 'file-key', fileId, encryptedDataKey } as WebSocketMessage);
-      if (!keySent) {
-        onUpdate({ type: 'file-error', fileId, message: 'Failed to send data key' });
-        return;
+      if (!(await distributeDataKey(fileId, dataKey, deps))) {
+        return getSendFailureOutcome(deps);
       }
     } catch (e) {
       console.error('Data key generation/distribution failed:', e);
       onUpdate({ type: 'file-error', fileId, message: 'Encryption setup failed' });
-      return;
+      return 'failed';
     }
   }
 
-  // 2. Announce metadata
+  // 2. Announce metadata; the server only tracks transfers that go through the relay
+  const peerChannels = deps.getPeerChannels?.(recipients.map(c => c.id)) ?? null;
   const fileStartSent = await sendMessage({
     type: 'file-start', fileId,
     fileName: file.name, fileSize: file.size, fileType: file.type,
@@ -68,10 +363,11 @@ export const uploadFile = async (
     collectionIndex: collection?.collectionIndex,
     declaredFileSize: file.size,
     ...(uploadToken ? { uploadToken } : {}),
+    ...(peerChannels ? { transport: 'p2p' as const } : {}),
   });
   if (!fileStartSent) {
     onUpdate({ type: 'file-error', fileId, message: 'Failed to send file start metadata' });
-    return;
+    return getSendFailureOutcome(deps);
   }
 
   const fileMetaSent = await sendMessage({
@@ -81,53 +377,51 @@ export const uploadFile = async (
     : file.type.startsWith('audio/') ? 'audio' : 'file',
     fileId, fileName: file.name, fileSize: file.size,
     fileType: file.type, totalChunks, previewContent,
+    fileDigest: digests.fileDigest,
+    chunkDigests: totalChunks <= MAX_CHUNK_DIGESTS ? digests.chunkDigests : undefined,
+    compression,
     collectionId: collection?.collectionId,
     collectionTotal: collection?.collectionTotal,
     collectionIndex: collection?.collectionIndex,
   });
   if (!fileMetaSent) {
     onUpdate({ type: 'file-error', fileId, message: 'Failed to send file metadata' });
-    return;
+    return getSendFailureOutcome(deps);
   }
 
   // 3. Stream chunks as binary frames with backpressure
-  let lastReportedProgress = 0;
-
-  for (let i = 0; i < totalChunks; i++) {
-    if (ws.readyState !== WebSocket.OPEN) {
-      onUpdate({ type: 'file-error', fileId, message: 'Connection lost during upload' });
-      return;
-    }
-
-    while (ws.bufferedAmount > BUFFER_HIGH_WATER) {
-      await new Promise(r => setTimeout(r, BACKPRESSURE_POLL_MS));
-      if (ws.readyState !== WebSocket.OPEN) {
-        onUpdate({ type: 'file-error', fileId, message: 'Connection lost during upload' });
-        return;
-      }
-    }
+  pruneOutgoingFiles(uploaderState);
+  const outgoing: OutgoingFile = {
+    file, totalChunks, dataKey, compression, uploadToken,
+    uploading: true,
+    pendingResume: new Set(),
+    pendingResumeRequesters: new Set(),
+    acks: new Map(),
+    createdAt: Date.now(),
+  };
+  resetAcks(outgoing, recipients.map(c => c.id));
+  uploaderState.outgoingFiles.set(fileId, outgoing);
 
-    const start = i * CHUNK_SIZE;
-    const end = Math.min(start + CHUNK_SIZE, file.size);
-    const sliceAB = await file.slice(start, end).arrayBuffer();
-
-    let payload: Uint8Array;
-    if (dataKey) {
-      payload = await encryptChunk(new Uint8Array(sliceAB), dataKey);
-    } else {
-      payload = new Uint8Array(sliceAB);
-    }
-
-    const frame = encodeBinaryFrame(fileId, i, totalChunks, payload);
-    ws.send(frame);
-
-    const progress = ((i + 1) / totalChunks) * 100;
-    if (progress - lastReportedProgress >= 2 || i === totalChunks - 1) {
+  let lastReportedProgress = 0;
+  const indices = Array.from({ length: totalChunks }, (_, i) => i);
+  const completed = await streamChunks(fileId, outgoing, indices, deps, peerChannels, (sentCount) => {
+    const progress = (sentCount / totalChunks) * 100;
+    if (progress - lastReportedProgress >= 2 || sentCount === totalChunks) {
       onUpdate({ type: 'file-progress', fileId, progress });
       lastReportedProgress = progress;
     }
+  });
+  outgoing.uploading = false;
+
+  if (!completed) {
+    uploaderState.outgoingFiles.delete(fileId);
+    onUpdate({ type: 'file-error', fileId, message: 'Connection lost during upload' });
+    return 'disconnected';
   }
 
   // Signal upload complete so the sender's UI transitions to 'complete'
   onUpdate({ type: 'file-complete', fileId });
+
+  await flushPendingResume(fileId, outgoing, deps);
+  return 'complete';
 };
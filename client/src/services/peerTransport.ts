@@ -0,0 +1,315 @@
+// Peer-to-peer transport for file chunks over WebRTC data channels.
+// The WebSocket room doubles as the signaling channel: offers, answers and
+// ICE candidates travel as 'rtc-signal' messages addressed to one member.
+// Chunks keep the binaryProtocol frame format; a frame larger than one data
+// channel message is split into fragments, each prefixed with a marker byte
+// saying whether more follow.  The channel is ordered, so reassembly is a
+// plain concatenation.  Peers without an open channel are served by the relay.
+
+import { CHUNK_SIZE } from './binaryProtocol';
+import { PeerSignal } from '../types';
+
+const CHANNEL_LABEL = 'file-chunks';
+const FRAGMENT_SIZE = 64 * 1024; // Safe message size across browsers
+const FRAGMENT_MORE = 0;
+const FRAGMENT_LAST = 1;
+const MAX_FRAME_BYTES = CHUNK_SIZE + 64 * 1024; // One chunk plus frame and encryption overhead
+const PEER_CONNECT_TIMEOUT_MS = 10 * 1000;
+
+// Browsers close a data channel whose send queue overflows (16 MB in Chrome),
+// so this leaves room for one more 4 MB frame on top.
+export const PEER_BUFFER_HIGH_WATER = 8 * 1024 * 1024;
+
+interface PeerLink {
+  pc: RTCPeerConnection;
+  channel: RTCDataChannel | null;
+  signaled: boolean; // Own offer/answer sent; earlier local candidates are held back
+  outgoingCandidates: RTCIceCandidateInit[];
+  incomingCandidates: RTCIceCandidateInit[];
+  fragments: Uint8Array[];
+  fragmentBytes: number;
+  delivery: Promise<void>; // Frames are handled one at a time, in arrival order
+  connectTimer: ReturnType<typeof setTimeout> | null;
+  failed: boolean; // Not retried; the relay serves this peer until either side reconnects
+}
+
+export interface PeerTransportState {
+  links: Map<string, PeerLink>;
+}
+
+export interface PeerTransportDeps {
+  sendSignal: (targetId: string, signal: PeerSignal) => void;
+  onFrame: (frame: ArrayBuffer, peerId: string) => Promise<void>;
+}
+
+export const createPeerTransportState = (): PeerTransportState => ({
+  links: new Map(),
+});
+
+export const isPeerTransportSupported = (): boolean => typeof RTCPeerConnection !== 'undefined';
+
+const getIceServers = (): RTCIceServer[] => {
+  // Without STUN servers only host candidates are gathered, which covers peers on the same LAN
+  const urls = (process.env.REACT_APP_STUN_URLS || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+  return urls.length > 0 ? [{ urls }] : [];
+};
+
+// ─── Link lifecycle ──────────────────────────────────────────
+
+const failLink = (link: PeerLink) => {
+  if (link.failed) return;
+  link.failed = true;
+  if (link.connectTimer) clearTimeout(link.connectTimer);
+  link.connectTimer = null;
+  link.fragments = [];
+  link.fragmentBytes = 0;
+  link.channel?.close();
+  link.pc.close();
+};
+
+const handleFragment = (
+  link: PeerLink,
+  peerId: string,
+  data: ArrayBuffer,
+  deps: PeerTransportDeps,
+) => {
+  const bytes = new Uint8Array(data);
+  if (bytes.length === 0) return;
+
+  link.fragments.push(bytes.subarray(1));
+  link.fragmentBytes += bytes.length - 1;
+  if (link.fragmentBytes > MAX_FRAME_BYTES) {
+    console.warn(`Oversized frame from peer ${peerId}; falling back to the relay`);
+    failLink(link);
+    return;
+  }
+  if (bytes[0] !== FRAGMENT_LAST) return;
+
+  const frame = new Uint8Array(link.fragmentBytes);
+  let offset = 0;
+  link.fragments.forEach((fragment) => {
+    frame.set(fragment, offset);
+    offset += fragment.length;
+  });
+  link.fragments = [];
+  link.fragmentBytes = 0;
+
+  link.delivery = link.delivery
+    .then(() => deps.onFrame(frame.buffer, peerId))
+    .catch(e => console.error(`Failed to handle frame from peer ${peerId}:`, e));
+};
+
+const attachChannel = (
+  link: PeerLink,
+  peerId: string,
+  channel: RTCDataChannel,
+  deps: PeerTransportDeps,
+) => {
+  link.channel = channel;
+  channel.binaryType = 'arraybuffer';
+  channel.onopen = () => {
+    if (link.connectTimer) clearTimeout(link.connectTimer);
+    link.connectTimer = null;
+  };
+  channel.onmessage = (event) => {
+    if (event.data instanceof ArrayBuffer) {
+      handleFragment(link, peerId, event.data, deps);
+    }
+  };
+  channel.onclose = () => failLink(link);
+};
+
+const createLink = (
+  state: PeerTransportState,
+  peerId: string,
+  deps: PeerTransportDeps,
+): PeerLink => {
+  const pc = new RTCPeerConnection({ iceServers: getIceServers() });
+  const link: PeerLink = {
+    pc,
+    channel: null,
+    signaled: false,
+    outgoingCandidates: [],
+    incomingCandidates: [],
+    fragments: [],
+    fragmentBytes: 0,
+    delivery: Promise.resolve(),
+    connectTimer: null,
+    failed: false,
+  };
+
+  pc.onicecandidate = (event) => {
+    if (!event.candidate) return;
+    const candidate = event.candidate.toJSON();
+    if (link.signaled) {
+      deps.sendSignal(peerId, { kind: 'candidate', candidate });
+    } else {
+      link.outgoingCandidates.push(candidate);
+    }
+  };
+  pc.onconnectionstatechange = () => {
+    if (pc.connectionState === 'failed' || pc.connectionState === 'closed') {
+      failLink(link);
+    }
+  };
+  pc.ondatachannel = (event) => {
+    if (event.channel.label === CHANNEL_LABEL) {
+      attachChannel(link, peerId, event.channel, deps);
+    }
+  };
+
+  link.connectTimer = setTimeout(() => {
+    link.connectTimer = null;
+    if (link.channel?.readyState !== 'open') {
+      console.info(`No direct connection to peer ${peerId}; using the relay`);
+      failLink(link);
+    }
+  }, PEER_CONNECT_TIMEOUT_MS);
+
+  state.links.set(peerId, link);
+  return link;
+};
+
+const sendDescription = (link: PeerLink, peerId: string, deps: PeerTransportDeps) => {
+  const description = link.pc.localDescription;
+  if (!description || (description.type !== 'offer' && description.type !== 'answer')) return;
+  deps.sendSignal(peerId, { kind: description.type, sdp: description.sdp });
+  link.signaled = true;
+  link.outgoingCandidates.forEach(candidate => deps.sendSignal(peerId, { kind: 'candidate', candidate }));
+  link.outgoingCandidates = [];
+};
+
+const applyIncomingCandidates = async (link: PeerLink) => {
+  const candidates = link.incomingCandidates;
+  link.incomingCandidates = [];
+  for (const candidate of candidates) {
+    await link.pc.addIceCandidate(candidate);
+  }
+};
+
+const closeLink = (state: PeerTransportState, peerId: string) => {
+  const link = state.links.get(peerId);
+  if (!link) return;
+  failLink(link);
+  state.links.delete(peerId);
+};
+
+const initiateLink = async (
+  state: PeerTransportState,
+  peerId: string,
+  deps: PeerTransportDeps,
+): Promise<void> => {
+  const link = createLink(state, peerId, deps);
+  try {
+    attachChannel(link, peerId, link.pc.createDataChannel(CHANNEL_LABEL, { ordered: true }), deps);
+    await link.pc.setLocalDescription(await link.pc.createOffer());
+    if (link.failed) return;
+    sendDescription(link, peerId, deps);
+  } catch (e) {
+    console.warn(`Failed to start a direct connection to peer ${peerId}:`, e);
+    failLink(link);
+  }
+};
+
+// ─── Public API ──────────────────────────────────────────────
+
+/**
+ * Brings links in line with the room: closes links to members who left and
+ * opens links to new ones.  Only the member with the lower id sends the
+ * offer, so two peers never negotiate against each other.
+ */
+export const syncPeers = (
+  state: PeerTransportState,
+  selfId: string,
+  peerIds: string[],
+  deps: PeerTransportDeps,
+): void => {
+  const current = new Set(peerIds);
+  Array.from(state.links.keys()).forEach((peerId) => {
+    if (!current.has(peerId)) closeLink(state, peerId);
+  });
+
+  peerIds.forEach((peerId) => {
+    if (!state.links.has(peerId) && selfId < peerId) {
+      initiateLink(state, peerId, deps);
+    }
+  });
+};
+
+/**
+ * Applies an offer, answer or ICE candidate received from a room member.
+ */
+export const handleSignal = async (
+  state: PeerTransportState,
+  peerId: string,
+  signal: PeerSignal,
+  deps: PeerTransportDeps,
+): Promise<void> => {
+  let link = state.links.get(peerId);
+  try {
+    if (signal.kind === 'offer') {
+      // A fresh offer replaces whatever was negotiated before
+      closeLink(state, peerId);
+      link = createLink(state, peerId, deps);
+      await link.pc.setRemoteDescription({ type: 'offer', sdp: signal.sdp });
+      await applyIncomingCandidates(link);
+      await link.pc.setLocalDescription(await link.pc.createAnswer());
+      if (!link.failed) sendDescription(link, peerId, deps);
+      return;
+    }
+
+    if (!link || link.failed) return;
+
+    if (signal.kind === 'answer') {
+      await link.pc.setRemoteDescription({ type: 'answer', sdp: signal.sdp });
+      await applyIncomingCandidates(link);
+    } else if (link.pc.remoteDescription) {
+      await link.pc.addIceCandidate(signal.candidate);
+    } else {
+      link.incomingCandidates.push(signal.candidate);
+    }
+  } catch (e) {
+    console.warn(`Failed to apply '${signal.kind}' signal from peer ${peerId}:`, e);
+    if (link) failLink(link);
+  }
+};
+
+/**
+ * Returns open data channels to every given peer, or null if any of them can
+ * only be reached through the relay.
+ */
+export const getOpenChannels = (
+  state: PeerTransportState,
+  peerIds: string[],
+): RTCDataChannel[] | null => {
+  if (peerIds.length === 0) return null;
+  const channels: RTCDataChannel[] = [];
+  for (const peerId of peerIds) {
+    const channel = state.links.get(peerId)?.channel;
+    if (!channel || channel.readyState !== 'open') return null;
+    channels.push(channel);
+  }
+  return channels;
+};
+
+/**
+ * Sends one binary frame over a data channel, fragmenting it as needed.
+ */
+export const sendPeerFrame = (channel: RTCDataChannel, frame: ArrayBuffer): void => {
+  const bytes = new Uint8Array(frame);
+  const payloadSize = FRAGMENT_SIZE - 1;
+  for (let offset = 0; offset < bytes.length; offset += payloadSize) {
+    const end = Math.min(offset + payloadSize, bytes.length);
+    const fragment = new Uint8Array(1 + end - offset);
+    fragment[0] = end === bytes.length ? FRAGMENT_LAST : FRAGMENT_MORE;
+    fragment.set(bytes.subarray(offset, end), 1);
+    channel.send(fragment);
+  }
+};
+
+export const closeAllPeers = (state: PeerTransportState): void => {
+  Array.from(state.links.keys()).forEach(peerId => closeLink(state, peerId));
+};
@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+
+import { decryptFrom } from '../utils/e2ee';
+import { decryptFromSender, decryptWithRelayKey, EncryptionContext } from './wsEncryption';
+
+jest.mock('../utils/e2ee');
+
+const SENDER_ID = 'sender-1';
+const PAYLOAD = { 'client-1': 'ciphertext' };
+const SEEN_KEY: JsonWebKey = { x: 'seen' };
+const RELAY_KEY: JsonWebKey = { x: 'relay' };
+
+const createContext = (seenPublicKeys: Map<string, JsonWebKey>): EncryptionContext => ({
+  isE2eeEnabled: true,
+  keyPair: { publicKey: {}, privateKey: {} },
+  roomClients: {},
+  clientId: 'client-1',
+  roomKey: null,
+  seenPublicKeys,
+});
+
+describe('decrypting a clip from a sender who has left', () => {
+  // Reports which key it was handed so the tests can check the choice
+  beforeEach(() => {
+    jest.mocked(decryptFrom).mockImplementation(async (_data, _privateKey, publicKey) => publicKey.x ?? null);
+  });
+
+  it('uses the key seen while the sender was in the room, never the relay one', async () => {
+    const ctx = createContext(new Map([[SENDER_ID, SEEN_KEY]]));
+
+    expect(await decryptFromSender(PAYLOAD, SENDER_ID, ctx)).toBe('seen');
+    expect(await decryptWithRelayKey(PAYLOAD, SENDER_ID, RELAY_KEY, ctx)).toBeNull();
+    expect(decryptFrom).toHaveBeenCalledTimes(1);
+  });
+
+  it('only uses the relay key for a sender it never saw', async () => {
+    const ctx = createContext(new Map());
+
+    expect(await decryptFromSender(PAYLOAD, SENDER_ID, ctx)).toBeNull();
+    expect(await decryptWithRelayKey(PAYLOAD, SENDER_ID, RELAY_KEY, ctx)).toBe('relay');
+  });
+});
@@ -8,6 +8,8 @@ export interface EncryptionContext {
   keyPair: { publicKey: JsonWebKey; privateKey: JsonWebKey } | null;
   roomClients: Record<string, { id: string; publicKey?: JsonWebKey }>;
   clientId: string | null;
+  roomKey?: Uint8Array | null; // Passphrase-derived key mixed into every shared secret
+  seenPublicKeys?: Map<string, JsonWebKey>; // Member keys from earlier room-updates, kept after they leave
 }
 
 export type EncryptedPayload = string | Record<string, string>;
@@ -15,17 +17,20 @@ export type EncryptedPayload = string | Record<string, string>;
 export const encryptForRecipients = async (
   plainText: string,
   ctx: EncryptionContext,
+  recipientIds?: string[], // Limits the payload to these members; defaults to everyone else
 ): Promise<Record<string, string> | null> => {
   if (!ctx.isE2eeEnabled || !ctx.keyPair || !ctx.clientId) return null;
 
-  const recipients = Object.values(ctx.roomClients).filter(c => c.id !== ctx.clientId);
+  const recipients = Object.values(ctx.roomClients).filter(c => (
+    c.id !== ctx.clientId && (!recipientIds || recipientIds.includes(c.id))
+  ));
   if (recipients.length === 0 || recipients.some(c => !c.publicKey)) return null;
 
   const result: Record<string, string> = {};
   await Promise.all(
     recipients.map(async (recipient) => {
       result[recipient.id] = await encryptFor(
-        plainText, ctx.keyPair!.privateKey, recipient.publicKey!,
+        plainText, ctx.keyPair!.privateKey, recipient.publicKey!, ctx.roomKey,
       );
     })
   );
@@ -42,6 +47,11 @@ export const getEncryptedValueForCurrentClient = (
   return payload[clientId] || null;
 };
 
+// A key this client took from a room-update, never one the relay attached to a message
+const getKnownSenderKey = (senderId: string, ctx: EncryptionContext): JsonWebKey | undefined => (
+  ctx.roomClients[senderId]?.publicKey ?? ctx.seenPublicKeys?.get(senderId)
+);
+
 export const decryptFromSender = async (
   payload: EncryptedPayload | undefined,
   senderId: string | undefined,
@@ -52,10 +62,30 @@ export const decryptFromSender = async (
   const encrypted = getEncryptedValueForCurrentClient(payload, ctx.clientId);
   if (!encrypted) return null;
 
-  const sender = ctx.roomClients[senderId];
-  if (!sender?.publicKey) return null;
+  const publicKey = getKnownSenderKey(senderId, ctx);
+  if (!publicKey) return null;
+
+  return decryptFrom(encrypted, ctx.keyPair.privateKey, publicKey, ctx.roomKey);
+};
+
+/**
+ * Decrypts a replayed clip from a sender this client never saw, with the key
+ * the relay stored beside it.  Nothing vouches for that key, so the result
+ * must be shown as unverified.  Senders with a known key never get here.
+ */
+export const decryptWithRelayKey = async (
+  payload: EncryptedPayload | undefined,
+  senderId: string | undefined,
+  senderPublicKey: JsonWebKey | undefined,
+  ctx: EncryptionContext,
+): Promise<string | null> => {
+  if (!ctx.isE2eeEnabled || !ctx.keyPair || !senderId || !senderPublicKey) return null;
+  if (getKnownSenderKey(senderId, ctx)) return null;
+
+  const encrypted = getEncryptedValueForCurrentClient(payload, ctx.clientId);
+  if (!encrypted) return null;
 
-  return decryptFrom(encrypted, ctx.keyPair.privateKey, sender.publicKey);
+  return decryptFrom(encrypted, ctx.keyPair.privateKey, senderPublicKey, ctx.roomKey);
 };
 
 export const decryptMetadata = async (
@@ -76,6 +106,9 @@ export const decryptMetadata = async (
       fileType: parsed.fileType,
       contentType: parsed.contentType,
       previewContent: parsed.previewContent,
+      fileDigest: parsed.fileDigest,
+      chunkDigests: parsed.chunkDigests,
+      compression: parsed.compression,
       collectionId: parsed.collectionId,
       collectionTotal: parsed.collectionTotal,
       collectionIndex: parsed.collectionIndex,
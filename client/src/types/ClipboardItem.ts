@@ -12,6 +12,8 @@ export interface ClipboardItem {
   size?: number; // To store the file size in bytes
   items?: ClipboardItem[];
   encrypted?: boolean;
-  status?: 'complete' | 'uploading' | 'downloading' | 'generating'; 
+  senderUnverified?: boolean; // Decrypted with a sender key only the relay vouched for
+  status?: 'complete' | 'uploading' | 'downloading' | 'generating' | 'corrupted' | 'queued'; // 'queued' waits in the outbox
   progress?: number;
+  error?: string; // Why a transfer ended in a failed state such as 'corrupted'
 }
@@ -1,17 +1,14 @@
+// A received clip once decrypted, or a local file transfer update.  What goes
+// over the socket is typed by the unions in protocol/messages.ts.
 export interface WebSocketMessage {
   type: string;
-  roomId?: string;
   contentType?: string;
   content?: string;
   encryptedContent?: string | Record<string, string>;
   encryptedMetadata?: string | Record<string, string>;
   senderId?: string;
   message?: string;
-  clients?: any;
   timestamp?: number;
-  clientId?: string;
-  publicKey?: JsonWebKey;
-  clientCount?: number;
 
   // Fields for file chunking
   fileName?: string;
@@ -21,20 +18,50 @@ export interface WebSocketMessage {
   collectionId?: string;
   collectionTotal?: number;
   collectionIndex?: number;
-  declaredFileSize?: number; // Server-visible size for transfer policy enforcement
-  uploadToken?: string; // Short-lived token required for large uploads
-  chunk?: string; // Base64 encoded chunk (legacy)
-  encryptedChunk?: string | Record<string, string>; // (legacy)
-  encryptedDataKey?: string | Record<string, string>; // Per-recipient encrypted data key for file transfers
-  chunkIndex?: number;
   totalChunks?: number;
   progress?: number; // 0-100
   previewContent?: string; // Base64 encoded thumbnail
+  fileDigest?: string; // Hex SHA-256 over the ordered chunk digests
+  chunkDigests?: string[]; // Hex SHA-256 of each plaintext chunk
+  compression?: 'gzip' | 'deflate'; // Text content or every file chunk was compressed before encryption
+
+  // Fields for the room's clip buffer
+  clipId?: string; // Stable id of a text clip, shared by every device's copy
+  senderPublicKey?: JsonWebKey; // Sender's key on replayed clips, as the sender may have left
+  buffered?: boolean; // A catch-up copy of an earlier clip, from the room's buffer or a peer
+  senderUnverified?: boolean; // Set locally when only the relay's senderPublicKey could decrypt a clip
 }
 
+export type PeerSignal =
+  | { kind: 'offer'; sdp: string }
+  | { kind: 'answer'; sdp: string }
+  | { kind: 'candidate'; candidate: RTCIceCandidateInit };
+
 export interface RoomState {
   roomId: string | null;
   connected: boolean;
   clientCount: number;
   clientId: string | null;
+  ownerId: string | null; // Null for rooms that were opened by a join rather than created
+  locked: boolean;
+  knock: boolean; // Joins wait for a member's approval
+}
+
+export interface PeerIdentity {
+  publicKey: JsonWebKey; // ECDSA P-256 identity key, stable across sessions
+  signature: string; // Base64 signature over the session's ephemeral ECDH key
+  deviceName?: string;
+}
+
+export interface JoinRequest {
+  id: string; // The waiting client's id
+  publicKey?: JsonWebKey;
+  identity?: PeerIdentity;
+  userAgent?: string;
+}
+
+export interface RoomClient {
+  id: string;
+  publicKey?: JsonWebKey;
+  identity?: PeerIdentity;
 }
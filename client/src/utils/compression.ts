@@ -0,0 +1,161 @@
+// src/utils/compression.ts
+// Optional deflate compression for text clips and compressible files.
+// Compression always runs on plaintext, before anything is encrypted:
+// ciphertext looks random and would not shrink.
+
+import { uint8ArrayToBase64, base64ToUint8Array } from './e2ee';
+
+export type CompressionFormat = 'gzip' | 'deflate';
+
+export const DEFAULT_COMPRESSION: CompressionFormat = 'deflate';
+
+const MIN_COMPRESSION_BYTES = 1024; // Below this the saving is lost in framing overhead
+const MIN_SAVING_RATIO = 0.9; // Compressed output must be at least 10% smaller to be used
+
+// Longest text clip a receiver will inflate; longer texts are sent as files
+export const MAX_TEXT_CLIP_INFLATED_BYTES = 16 * 1024 * 1024;
+
+// The TypeScript DOM lib does not ship the Compression Streams API yet.
+type CompressionStreamConstructor = new (format: CompressionFormat) => TransformStream<Uint8Array, Uint8Array>;
+
+const getStreamConstructors = () => {
+  const scope = window as unknown as {
+    CompressionStream?: CompressionStreamConstructor;
+    DecompressionStream?: CompressionStreamConstructor;
+  };
+  return { CompressionStream: scope.CompressionStream, DecompressionStream: scope.DecompressionStream };
+};
+
+const COMPRESSIBLE_MIME_PREFIXES = ['text/'];
+const COMPRESSIBLE_MIME_TYPES = new Set([
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/x-javascript',
+  'application/typescript',
+  'application/sql',
+  'application/x-sh',
+  'application/x-yaml',
+  'application/yaml',
+  'application/x-ndjson',
+  'application/rtf',
+  'image/svg+xml',
+  'image/bmp',
+]);
+const COMPRESSIBLE_EXTENSIONS = new Set([
+  'txt', 'log', 'csv', 'tsv', 'json', 'ndjson', 'xml', 'html', 'htm', 'css', 'js', 'ts', 'tsx',
+  'jsx', 'md', 'yml', 'yaml', 'toml', 'ini', 'sql', 'sh', 'py', 'svg', 'bmp', 'rtf',
+]);
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const isCompressionSupported = (): boolean => {
+  const { CompressionStream, DecompressionStream } = getStreamConstructors();
+  return typeof CompressionStream === 'function' && typeof DecompressionStream === 'function';
+};
+
+/**
+ * Whether a file is likely to shrink noticeably.  Already compressed formats
+ * (JPEG, PNG, video, archives, ...) are skipped to save CPU on both ends.
+ */
+export const isCompressibleFile = (mimeType: string, fileName?: string): boolean => {
+  const type = mimeType.toLowerCase();
+  if (COMPRESSIBLE_MIME_TYPES.has(type) || COMPRESSIBLE_MIME_PREFIXES.some(prefix => type.startsWith(prefix))) {
+    return true;
+  }
+  // Browsers report many text formats without a type, so fall back to the extension
+  const untyped = !type || type === 'application/octet-stream';
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  return untyped && !!extension && COMPRESSIBLE_EXTENSIONS.has(extension);
+};
+
+/**
+ * Runs bytes through a (de)compression stream.  Output is read as it is
+ * produced, so a small payload that inflates past `maxOutputBytes` is
+ * cancelled before it can exhaust memory.
+ */
+const pipeBytes = async (
+  data: Uint8Array,
+  Stream: CompressionStreamConstructor,
+  format: CompressionFormat,
+  maxOutputBytes = Infinity,
+): Promise<Uint8Array> => {
+  const copy = new Uint8Array(data.byteLength);
+  copy.set(data);
+  const reader = new Blob([copy.buffer]).stream().pipeThrough(new Stream(format)).getReader();
+
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxOutputBytes) {
+      await reader.cancel();
+      throw new Error(`Output exceeds ${maxOutputBytes} bytes`);
+    }
+    parts.push(value);
+  }
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach((part) => {
+    output.set(part, offset);
+    offset += part.byteLength;
+  });
+  return output;
+};
+
+export const compressBytes = async (
+  data: Uint8Array,
+  format: CompressionFormat = DEFAULT_COMPRESSION,
+): Promise<Uint8Array> => {
+  const { CompressionStream } = getStreamConstructors();
+  if (!CompressionStream) throw new Error('CompressionStream is not supported');
+  return pipeBytes(data, CompressionStream, format);
+};
+
+/**
+ * Inflates bytes from a peer, failing once the output passes `maxBytes`.
+ */
+export const decompressBytes = async (
+  data: Uint8Array,
+  format: CompressionFormat,
+  maxBytes: number,
+): Promise<Uint8Array> => {
+  const { DecompressionStream } = getStreamConstructors();
+  if (!DecompressionStream) throw new Error('DecompressionStream is not supported');
+  return pipeBytes(data, DecompressionStream, format, maxBytes);
+};
+
+// ─── Text clips ──────────────────────────────────────────────────────
+
+/**
+ * Compresses a text clip into a base64 string when that is worthwhile.
+ * Returns the text unchanged, without a format, otherwise.
+ */
+export const compressText = async (
+  text: string,
+): Promise<{ content: string; compression?: CompressionFormat }> => {
+  const bytes = textEncoder.encode(text);
+  if (bytes.length < MIN_COMPRESSION_BYTES || !isCompressionSupported()) {
+    return { content: text };
+  }
+  try {
+    const packed = uint8ArrayToBase64(await compressBytes(bytes));
+    if (packed.length < bytes.length * MIN_SAVING_RATIO) {
+      return { content: packed, compression: DEFAULT_COMPRESSION };
+    }
+  } catch (e) {
+    console.warn('Text compression failed; sending uncompressed:', e);
+  }
+  return { content: text };
+};
+
+export const decompressText = async (
+  content: string,
+  format: CompressionFormat,
+): Promise<string> => textDecoder.decode(
+  await decompressBytes(base64ToUint8Array(content), format, MAX_TEXT_CLIP_INFLATED_BYTES),
+);
@@ -0,0 +1,258 @@
+// src/utils/deviceIdentity.ts
+// Long-lived device identity.  An ECDSA P-256 key pair is generated once and
+// kept in IndexedDB with a non-extractable private key; each session's
+// ephemeral ECDH key is signed with it.  Peers remember identity keys they
+// have seen, so a reconnecting device is recognised instead of looking new.
+
+import { uint8ArrayToBase64, base64ToUint8Array } from './e2ee';
+import { PeerIdentity } from '../types';
+
+const IDENTITY_DB_NAME = 'InstantPasteIdentity';
+const IDENTITY_DB_VERSION = 1;
+const IDENTITY_STORE = 'identity';
+const KNOWN_DEVICE_STORE = 'knownDevices';
+const SELF_KEY = 'self';
+
+const DEVICE_NAME_KEY = 'deviceName';
+const IDENTITY_ENABLED_KEY = 'persistentIdentity';
+export const MAX_DEVICE_NAME_LENGTH = 64;
+
+const SIGNATURE_CONTEXT = 'instant-paste-ephemeral-key-v1';
+const signParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export interface DeviceIdentity {
+  privateKey: CryptoKey; // Non-extractable; can only sign
+  publicKey: JsonWebKey;
+}
+
+interface IdentityRecord extends DeviceIdentity {
+  id: string;
+  createdAt: number;
+}
+
+export interface KnownDeviceRecord {
+  fingerprint: string; // SHA-256 of the identity public key
+  deviceName?: string;
+  verified: boolean;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+const textEncoder = new TextEncoder();
+
+// ─── Database lifecycle ──────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDENTITY_DB_NAME, IDENTITY_DB_VERSION);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(new Error('Failed to open identity DB'));
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(IDENTITY_STORE)) {
+        db.createObjectStore(IDENTITY_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(KNOWN_DEVICE_STORE)) {
+        db.createObjectStore(KNOWN_DEVICE_STORE, { keyPath: 'fingerprint' });
+      }
+    };
+  });
+  return dbPromise;
+};
+
+const getRecord = async <T>(storeName: string, key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const putRecord = async (storeName: string, record: unknown): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(record);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// ─── Settings ────────────────────────────────────────────────────────
+
+export const getDeviceName = (): string => {
+  try {
+    return localStorage.getItem(DEVICE_NAME_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const setDeviceName = (name: string): void => {
+  try {
+    const trimmed = name.trim().slice(0, MAX_DEVICE_NAME_LENGTH);
+    if (trimmed) {
+      localStorage.setItem(DEVICE_NAME_KEY, trimmed);
+    } else {
+      localStorage.removeItem(DEVICE_NAME_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving device name to localStorage', error);
+  }
+};
+
+/**
+ * Persistent identity is on by default; turning it off makes every page
+ * load a new, unlinkable device again.
+ */
+export const isIdentityEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(IDENTITY_ENABLED_KEY) !== 'false';
+  } catch {
+    return false;
+  }
+};
+
+export const setIdentityEnabled = async (enabled: boolean): Promise<void> => {
+  try {
+    localStorage.setItem(IDENTITY_ENABLED_KEY, String(enabled));
+  } catch (error) {
+    console.error('Error saving identity setting to localStorage', error);
+  }
+  if (!enabled) {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(IDENTITY_STORE, 'readwrite');
+      tx.objectStore(IDENTITY_STORE).delete(SELF_KEY);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+};
+
+// ─── Own identity ────────────────────────────────────────────────────
+
+/**
+ * Returns this device's identity, creating and storing it on first use.
+ */
+export const loadOrCreateIdentity = async (): Promise<DeviceIdentity> => {
+  const existing = await getRecord<IdentityRecord>(IDENTITY_STORE, SELF_KEY);
+  if (existing) {
+    return { privateKey: existing.privateKey, publicKey: existing.publicKey };
+  }
+
+  // With extractable=false only the private key is locked; public keys are always exportable
+  const keyPair = await window.crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign', 'verify'],
+  );
+  const publicKey = await window.crypto.subtle.exportKey('jwk', keyPair.publicKey!);
+  const record: IdentityRecord = {
+    id: SELF_KEY,
+    privateKey: keyPair.privateKey!,
+    publicKey,
+    createdAt: Date.now(),
+  };
+  await putRecord(IDENTITY_STORE, record);
+  return { privateKey: record.privateKey, publicKey };
+};
+
+const getSignedPayload = (ephemeralKey: JsonWebKey) => (
+  textEncoder.encode(`${SIGNATURE_CONTEXT}|${ephemeralKey.crv}:${ephemeralKey.x}:${ephemeralKey.y}`)
+);
+
+/**
+ * Signs a session's ephemeral ECDH public key, producing the identity proof
+ * sent with join and create.
+ */
+export const signEphemeralKey = async (
+  identity: DeviceIdentity,
+  ephemeralKey: JsonWebKey,
+  deviceName?: string,
+): Promise<PeerIdentity> => {
+  const signature = await window.crypto.subtle.sign(
+    signParams,
+    identity.privateKey,
+    getSignedPayload(ephemeralKey),
+  );
+  return {
+    publicKey: identity.publicKey,
+    signature: uint8ArrayToBase64(new Uint8Array(signature)),
+    ...(deviceName ? { deviceName } : {}),
+  };
+};
+
+/**
+ * Checks that a peer's ephemeral key was signed by the identity it claims.
+ */
+export const verifyEphemeralKey = async (
+  identity: PeerIdentity,
+  ephemeralKey: JsonWebKey,
+): Promise<boolean> => {
+  try {
+    const identityKey = await window.crypto.subtle.importKey(
+      'jwk',
+      { kty: 'EC', crv: 'P-256', x: identity.publicKey.x, y: identity.publicKey.y },
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify'],
+    );
+    return await window.crypto.subtle.verify(
+      signParams,
+      identityKey,
+      base64ToUint8Array(identity.signature),
+      getSignedPayload(ephemeralKey),
+    );
+  } catch {
+    return false;
+  }
+};
+
+// ─── Known devices ───────────────────────────────────────────────────
+
+/**
+ * Records that a device was seen and returns what was known about it
+ * before, or null if it has never been seen on this browser.
+ */
+export const recordKnownDevice = async (
+  fingerprint: string,
+  deviceName?: string,
+): Promise<KnownDeviceRecord | null> => {
+  const previous = await getRecord<KnownDeviceRecord>(KNOWN_DEVICE_STORE, fingerprint);
+  const now = Date.now();
+  await putRecord(KNOWN_DEVICE_STORE, {
+    fingerprint,
+    deviceName: deviceName ?? previous?.deviceName,
+    verified: previous?.verified ?? false,
+    firstSeen: previous?.firstSeen ?? now,
+    lastSeen: now,
+  } as KnownDeviceRecord);
+  return previous ?? null;
+};
+
+/**
+ * Looks a device up without marking it as seen.
+ */
+export const getKnownDevice = async (fingerprint: string): Promise<KnownDeviceRecord | null> => (
+  (await getRecord<KnownDeviceRecord>(KNOWN_DEVICE_STORE, fingerprint)) ?? null
+);
+
+export const setKnownDeviceVerified = async (fingerprint: string, verified: boolean): Promise<void> => {
+  const previous = await getRecord<KnownDeviceRecord>(KNOWN_DEVICE_STORE, fingerprint);
+  const now = Date.now();
+  await putRecord(KNOWN_DEVICE_STORE, {
+    fingerprint,
+    deviceName: previous?.deviceName,
+    verified,
+    firstSeen: previous?.firstSeen ?? now,
+    lastSeen: now,
+  } as KnownDeviceRecord);
+};
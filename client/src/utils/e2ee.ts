@@ -24,7 +24,7 @@ const BINARY_STRING_CHUNK_SIZE = 0x8000;
 // Fix #4: Use array accumulation instead of string concatenation.
 // Joining once at the end avoids creating progressively larger intermediate
 // strings that pressure the GC on memory-constrained devices.
-const uint8ArrayToBase64 = (bytes: Uint8Array): string => {
+export const uint8ArrayToBase64 = (bytes: Uint8Array): string => {
   const parts: string[] = [];
 
   for (let i = 0; i < bytes.length; i += BINARY_STRING_CHUNK_SIZE) {
@@ -35,7 +35,7 @@ const uint8ArrayToBase64 = (bytes: Uint8Array): string => {
   return btoa(parts.join(''));
 };
 
-const base64ToUint8Array = (base64: string): Uint8Array => {
+export const base64ToUint8Array = (base64: string): Uint8Array => {
   const binary = atob(base64);
   const bytes = new Uint8Array(binary.length);
 
@@ -97,34 +97,55 @@ const sharedSecretCache = new Map<string, CryptoKey>();
  */
 const SHARED_SECRET_CACHE_MAX = 64;
 
+const ROOM_KEY_INFO = textEncoder.encode('instant-paste-room-key-v1');
+
 /**
  * Derives a shared AES-256-GCM key from a private ECDH key and a peer's
  * public ECDH key.  Results are cached so repeated calls with the same
  * key pair return instantly.
+ *
+ * In a passphrase-protected room the ECDH output is run through HKDF with
+ * the room key as salt, so a relay that swaps in its own public key still
+ * cannot derive the key without the passphrase.
  */
 const deriveSharedSecret = async (
   privateKey: JsonWebKey,
   publicKey: JsonWebKey,
+  roomKey?: Uint8Array | null,
 ): Promise<CryptoKey> => {
-  const cacheKey = `${jwkFingerprint(privateKey)}::${jwkFingerprint(publicKey)}`;
+  const roomKeyTag = roomKey ? `::${uint8ArrayToBase64(roomKey)}` : '';
+  const cacheKey = `${jwkFingerprint(privateKey)}::${jwkFingerprint(publicKey)}${roomKeyTag}`;
 
   const cached = sharedSecretCache.get(cacheKey);
   if (cached) return cached;
 
   const privKey = await window.crypto.subtle.importKey(
-    'jwk', privateKey, keyGenParams, false, ['deriveKey'],
+    'jwk', privateKey, keyGenParams, false, ['deriveKey', 'deriveBits'],
   );
   const pubKey = await window.crypto.subtle.importKey(
     'jwk', publicKey, keyGenParams, false, [],
   );
 
-  const derived = await window.crypto.subtle.deriveKey(
-    { name: 'ECDH', public: pubKey },
-    privKey,
-    { name: 'AES-GCM', length: 256 },
-    true,
-    ['encrypt', 'decrypt'],
-  );
+  let derived: CryptoKey;
+  if (roomKey) {
+    const sharedBits = await window.crypto.subtle.deriveBits({ name: 'ECDH', public: pubKey }, privKey, 256);
+    const hkdfKey = await window.crypto.subtle.importKey('raw', sharedBits, 'HKDF', false, ['deriveKey']);
+    derived = await window.crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: toBufferSource(roomKey), info: ROOM_KEY_INFO },
+      hkdfKey,
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt'],
+    );
+  } else {
+    derived = await window.crypto.subtle.deriveKey(
+      { name: 'ECDH', public: pubKey },
+      privKey,
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt'],
+    );
+  }
 
   // Evict oldest entry if the cache is full
   if (sharedSecretCache.size >= SHARED_SECRET_CACHE_MAX) {
@@ -143,8 +164,9 @@ export const encryptFor = async (
   data: string,
   privateKey: JsonWebKey,
   publicKey: JsonWebKey,
+  roomKey?: Uint8Array | null,
 ): Promise<string> => {
-  const sharedSecret = await deriveSharedSecret(privateKey, publicKey);
+  const sharedSecret = await deriveSharedSecret(privateKey, publicKey, roomKey);
   const encodedData = textEncoder.encode(data);
 
   const iv = window.crypto.getRandomValues(new Uint8Array(12));
@@ -169,9 +191,10 @@ export const decryptFrom = async (
   encryptedDataB64: string,
   privateKey: JsonWebKey,
   publicKey: JsonWebKey,
+  roomKey?: Uint8Array | null,
 ): Promise<string | null> => {
   try {
-    const sharedSecret = await deriveSharedSecret(privateKey, publicKey);
+    const sharedSecret = await deriveSharedSecret(privateKey, publicKey, roomKey);
 
     const combined = base64ToUint8Array(encryptedDataB64);
     // Fix #5: Zero-copy subarray views instead of slice() copies.
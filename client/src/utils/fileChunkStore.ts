@@ -12,7 +12,7 @@ interface ChunkRecord {
   key: string; // `${fileId}:${chunkIndex}`
   fileId: string;
   chunkIndex: number;
-  data: ArrayBuffer;
+  data: ArrayBuffer | Blob; // Blobs stay disk-backed when read back
 }
 
 export interface CheckpointRecord {
@@ -63,7 +63,7 @@ const openDB = (): Promise<IDBDatabase> => {
 export const storeChunk = async (
   fileId: string,
   chunkIndex: number,
-  data: ArrayBuffer,
+  data: ArrayBuffer | Blob,
 ): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
@@ -105,7 +105,8 @@ export const getCheckpoint = async (fileId: string): Promise<CheckpointRecord |
 
 /**
  * Reads all persisted chunks for a file, assembles them in order, and
- * returns a single Blob.  Throws if any chunk is missing.
+ * returns a single Blob.  Throws if any chunk is missing.  Chunks stored
+ * as Blobs are referenced rather than copied, so the result can exceed RAM.
  */
 export const assembleFile = async (
   fileId: string,
@@ -113,7 +114,7 @@ export const assembleFile = async (
   fileType: string,
 ): Promise<Blob> => {
   const db = await openDB();
-  const chunks: ArrayBuffer[] = new Array(totalChunks);
+  const chunks: BlobPart[] = new Array(totalChunks);
 
   return new Promise((resolve, reject) => {
     const tx = db.transaction(CHUNK_STORE, 'readonly');
@@ -0,0 +1,65 @@
+// src/utils/fileDigest.ts
+// SHA-256 digests for end-to-end file integrity checks.
+//
+// SubtleCrypto cannot hash a stream, so a whole file is digested as a hash
+// list: every chunk is hashed on its own and the file digest is the SHA-256
+// of all chunk digests concatenated in order.  It commits to every byte of
+// the file while only one chunk has to be in memory at a time.
+
+const hexTable = Array.from({ length: 256 }, (_, i) => i.toString(16).padStart(2, '0'));
+
+const toHex = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += hexTable[bytes[i]];
+  }
+  return hex;
+};
+
+const fromHex = (hex: string): Uint8Array => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+/**
+ * Returns the lowercase hex SHA-256 digest of the given bytes.
+ */
+export const sha256Hex = async (data: Uint8Array): Promise<string> => {
+  const view = data.buffer instanceof ArrayBuffer
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+  return toHex(await window.crypto.subtle.digest('SHA-256', view));
+};
+
+/**
+ * Combines ordered chunk digests into the file digest.
+ */
+export const combineChunkDigests = async (chunkDigests: string[]): Promise<string> => {
+  const combined = new Uint8Array(chunkDigests.length * 32);
+  chunkDigests.forEach((digest, i) => combined.set(fromHex(digest), i * 32));
+  return sha256Hex(combined);
+};
+
+/**
+ * Hashes a file chunk by chunk, returning the per-chunk digests and the
+ * combined file digest.
+ */
+export const computeFileDigests = async (
+  file: Blob,
+  chunkSize: number,
+): Promise<{ fileDigest: string; chunkDigests: string[] }> => {
+  const totalChunks = Math.ceil(file.size / chunkSize);
+  const chunkDigests: string[] = [];
+
+  for (let i = 0; i < totalChunks; i++) {
+    const start = i * chunkSize;
+    const slice = await file.slice(start, Math.min(start + chunkSize, file.size)).arrayBuffer();
+    chunkDigests.push(await sha256Hex(new Uint8Array(slice)));
+  }
+
+  return { fileDigest: await combineChunkDigests(chunkDigests), chunkDigests };
+};
@@ -0,0 +1,117 @@
+// src/utils/opfsChunkStore.ts
+// Writes incoming file-transfer chunks straight into the Origin Private
+// File System.  The finished file is handed out as a disk-backed File, so
+// even a 1 GB transfer never has to be held in memory.
+
+const TRANSFER_DIR = 'instant-paste-transfers';
+
+// The TypeScript DOM lib does not ship the writable-stream half of the
+// File System Access API yet, so the members we rely on are declared here.
+interface WritableFileStream {
+  write(params: { type: 'write'; position: number; data: BufferSource }): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+type WritableFileHandle = FileSystemFileHandle & {
+  createWritable(options?: { keepExistingData?: boolean }): Promise<WritableFileStream>;
+};
+
+type IterableDirectoryHandle = FileSystemDirectoryHandle & {
+  keys(): AsyncIterableIterator<string>;
+};
+
+const openWritables = new Map<string, Promise<WritableFileStream>>();
+
+const getFileName = (fileId: string) => `${fileId}.part`;
+
+export const isOpfsAvailable = (): boolean => (
+  typeof navigator !== 'undefined'
+  && typeof navigator.storage?.getDirectory === 'function'
+  && typeof FileSystemFileHandle !== 'undefined'
+  && 'createWritable' in FileSystemFileHandle.prototype
+);
+
+const getTransferDir = async (): Promise<FileSystemDirectoryHandle> => {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(TRANSFER_DIR, { create: true });
+};
+
+const getWritable = (fileId: string): Promise<WritableFileStream> => {
+  let writable = openWritables.get(fileId);
+  if (!writable) {
+    writable = getTransferDir()
+      .then(dir => dir.getFileHandle(getFileName(fileId), { create: true }))
+      .then(handle => (handle as WritableFileHandle).createWritable());
+    openWritables.set(fileId, writable);
+    writable.catch(() => openWritables.delete(fileId));
+  }
+  return writable;
+};
+
+// ─── Chunk operations ────────────────────────────────────────────────
+
+/**
+ * Writes a chunk at its byte offset.  Writes to one file share a single
+ * open stream; the data becomes readable once the file is finalized.
+ */
+export const writeOpfsChunk = async (
+  fileId: string,
+  position: number,
+  data: Uint8Array,
+): Promise<void> => {
+  const writable = await getWritable(fileId);
+  await writable.write({ type: 'write', position, data });
+};
+
+/**
+ * Commits all written chunks and returns the file as a disk-backed File.
+ */
+export const finalizeOpfsFile = async (fileId: string): Promise<File> => {
+  const writable = openWritables.get(fileId);
+  if (writable) {
+    openWritables.delete(fileId);
+    await (await writable).close();
+  }
+  const dir = await getTransferDir();
+  const handle = await dir.getFileHandle(getFileName(fileId));
+  return handle.getFile();
+};
+
+// ─── Cleanup ─────────────────────────────────────────────────────────
+
+/**
+ * Discards an unfinished or no longer needed transfer file.
+ */
+export const deleteOpfsFile = async (fileId: string): Promise<void> => {
+  const writable = openWritables.get(fileId);
+  if (writable) {
+    openWritables.delete(fileId);
+    await (await writable).abort().catch(() => {});
+  }
+  const dir = await getTransferDir();
+  await dir.removeEntry(getFileName(fileId)).catch(() => {});
+};
+
+/**
+ * Removes transfer files last modified more than `maxAgeMs` ago (default 24 h).
+ */
+export const cleanupStaleOpfsFiles = async (
+  maxAgeMs: number = 24 * 60 * 60 * 1000,
+): Promise<void> => {
+  if (!isOpfsAvailable()) return;
+  const dir = (await getTransferDir()) as IterableDirectoryHandle;
+  if (typeof dir.keys !== 'function') return;
+
+  const now = Date.now();
+  const staleNames: string[] = [];
+  for await (const name of dir.keys()) {
+    try {
+      const file = await (await dir.getFileHandle(name)).getFile();
+      if (now - file.lastModified > maxAgeMs) staleNames.push(name);
+    } catch {
+      // Not a file or already gone
+    }
+  }
+  await Promise.all(staleNames.map(name => dir.removeEntry(name).catch(() => {})));
+};
@@ -0,0 +1,103 @@
+// src/utils/outbox.ts
+// Persists clips made while the room is unreachable (socket closed, or a
+// peer's key not known yet) so they survive a reload and go out in order
+// once the room is back.  Only text clips and small files are queued.
+
+import type { ClipboardItem } from '../types/ClipboardItem';
+
+const OUTBOX_DB_NAME = 'InstantPasteOutbox';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_STORE = 'entries';
+
+export const MAX_OUTBOX_FILE_BYTES = 10 * 1024 * 1024;
+
+export interface OutboxEntry {
+  id: string; // The clip's history id; for files also its fileId
+  roomId: string;
+  createdAt: number;
+  kind: 'text' | 'file';
+  contentType?: ClipboardItem['type']; // Text clips
+  content?: string; // Text clips, uncompressed
+  file?: File; // Files
+  previewContent?: string; // Image thumbnail for files
+}
+
+// ─── Database lifecycle ──────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(new Error('Failed to open outbox DB'));
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const store = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        store.createIndex('roomId', 'roomId', { unique: false });
+      }
+    };
+  });
+  return dbPromise;
+};
+
+// ─── Entry operations ────────────────────────────────────────────────
+
+export const addToOutbox = async (entry: OutboxEntry): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+    tx.objectStore(OUTBOX_STORE).put(entry);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/**
+ * Returns a room's queued entries, oldest first.
+ */
+export const loadOutbox = async (roomId: string): Promise<OutboxEntry[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, 'readonly');
+    const request = tx.objectStore(OUTBOX_STORE).index('roomId').getAll(IDBKeyRange.only(roomId));
+    request.onsuccess = () => {
+      const entries = request.result as OutboxEntry[];
+      resolve(entries.sort((a, b) => a.createdAt - b.createdAt));
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const removeFromOutbox = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+    tx.objectStore(OUTBOX_STORE).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const clearOutbox = async (roomId: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+    const store = tx.objectStore(OUTBOX_STORE);
+    const request = store.index('roomId').openKeyCursor(IDBKeyRange.only(roomId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
@@ -1,18 +1,24 @@
+import { isValidRoomId, normalizeRoomId } from './roomId';
+
 const RECENT_ROOMS_KEY = 'recentRooms';
 const MAX_RECENT_ROOMS = 5;
 
 export const getRecentRooms = (): string[] => {
   try {
     const rooms = localStorage.getItem(RECENT_ROOMS_KEY);
-    return rooms ? JSON.parse(rooms) : [];
+    const parsed: unknown = rooms ? JSON.parse(rooms) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((r): r is string => typeof r === 'string' && isValidRoomId(r)).map(normalizeRoomId)
+      : [];
   } catch (error) {
     console.error('Error reading recent rooms from localStorage', error);
     return [];
   }
 };
 
-export const addRecentRoom = (roomId: string) => {
-  if (!roomId) return;
+export const addRecentRoom = (rawRoomId: string) => {
+  if (!rawRoomId) return;
+  const roomId = normalizeRoomId(rawRoomId);
   try {
     let rooms = getRecentRooms();
     // Remove the room if it already exists to avoid duplicates and move it to the top
@@ -0,0 +1,57 @@
+// src/utils/roomId.ts
+// Room ID scheme.  The server decides the format (character IDs of a set
+// length and alphabet, or word IDs like amber-tiger-cedar-42) and publishes
+// it; legacy 6-character IDs are always accepted.
+
+export interface RoomIdFormat {
+  format: 'chars' | 'words';
+  length: number;
+  alphabet: string;
+  wordCount: number;
+}
+
+export const MAX_ROOM_ID_LENGTH = 64;
+
+const LEGACY_ROOM_ID_PATTERN = /^[A-Z0-9]{6}$/;
+const WORD_ROOM_ID_PATTERN = /^[a-z]+(-[a-z]+){1,5}-\d{2}$/;
+const CHAR_ROOM_ID_PATTERN = /^[A-Z0-9]{6,32}$/; // Used until the server's format is known
+
+/**
+ * Character IDs are case-insensitive and shown upper case; word IDs are
+ * lower case.
+ */
+export const normalizeRoomId = (roomId: string): string => {
+  const trimmed = roomId.trim();
+  return trimmed.includes('-') ? trimmed.toLowerCase() : trimmed.toUpperCase();
+};
+
+/**
+ * Checks the shape of a room ID.  Word IDs are only checked for shape; the
+ * server also checks the words themselves.
+ */
+export const isValidRoomId = (roomId: string, format?: RoomIdFormat | null): boolean => {
+  const normalized = normalizeRoomId(roomId);
+  if (LEGACY_ROOM_ID_PATTERN.test(normalized) || WORD_ROOM_ID_PATTERN.test(normalized)) return true;
+  if (!format) return CHAR_ROOM_ID_PATTERN.test(normalized);
+  return normalized.length === format.length
+    && Array.from(normalized).every(c => format.alphabet.includes(c));
+};
+
+export const getRoomIdPlaceholder = (format?: RoomIdFormat | null): string => (
+  format?.format === 'words' ? 'e.g. amber-tiger-cedar-42' : 'Enter room ID'
+);
+
+let formatPromise: Promise<RoomIdFormat | null> | null = null;
+
+export const fetchRoomIdFormat = (): Promise<RoomIdFormat | null> => {
+  if (!formatPromise) {
+    formatPromise = fetch('/api/room-id-format')
+      .then(response => (response.ok ? response.json() : null))
+      .catch((error) => {
+        console.warn('Could not load room ID format:', error);
+        formatPromise = null;
+        return null;
+      });
+  }
+  return formatPromise;
+};
@@ -0,0 +1,83 @@
+// src/utils/roomPassphrase.ts
+// Room passphrases.  PBKDF2 stretches the passphrase into two independent
+// halves: an auth key the server can check against a salted verifier, and
+// an encryption key that never leaves the device and is mixed into every
+// ECDH-derived key.  The server never sees the passphrase or the second half.
+
+import { uint8ArrayToBase64, base64ToUint8Array } from './e2ee';
+import { normalizeRoomId } from './roomId';
+
+const PBKDF2_ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const SECRETS_KEY_PREFIX = 'roomSecrets:';
+
+export interface RoomSecrets {
+  salt: string; // Base64, chosen by the room creator
+  proof: string; // Base64 auth key, sent on join
+  verifier: string; // Hex SHA-256 of the auth key, stored by the server
+  encryptionKey: string; // Base64, mixed into E2EE key derivation only
+}
+
+const textEncoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export const isPassphraseSupported = (): boolean => !!window.crypto?.subtle;
+
+/**
+ * Derives a room's secrets from its passphrase and salt.
+ */
+export const deriveRoomSecrets = async (passphrase: string, salt: string): Promise<RoomSecrets> => {
+  const baseKey = await window.crypto.subtle.importKey(
+    'raw', textEncoder.encode(passphrase.normalize('NFKC')), 'PBKDF2', false, ['deriveBits'],
+  );
+  const bits = new Uint8Array(await window.crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToUint8Array(salt), iterations: PBKDF2_ITERATIONS },
+    baseKey,
+    512,
+  ));
+  const authKey = bits.slice(0, 32);
+  const verifier = new Uint8Array(await window.crypto.subtle.digest('SHA-256', authKey));
+  return {
+    salt,
+    proof: uint8ArrayToBase64(authKey),
+    verifier: toHex(verifier),
+    encryptionKey: uint8ArrayToBase64(bits.slice(32)),
+  };
+};
+
+/**
+ * Picks a fresh salt and derives the secrets for a room being created.
+ */
+export const createRoomSecrets = (passphrase: string): Promise<RoomSecrets> => (
+  deriveRoomSecrets(passphrase, uint8ArrayToBase64(window.crypto.getRandomValues(new Uint8Array(SALT_BYTES))))
+);
+
+// ─── Session storage ─────────────────────────────────────────────────
+// Kept per tab only, so a reload rejoins without asking again but closing
+// the tab forgets the passphrase.
+
+export const saveRoomSecrets = (roomId: string, secrets: RoomSecrets): void => {
+  try {
+    sessionStorage.setItem(SECRETS_KEY_PREFIX + normalizeRoomId(roomId), JSON.stringify(secrets));
+  } catch (error) {
+    console.error('Error saving room secrets to sessionStorage', error);
+  }
+};
+
+export const loadRoomSecrets = (roomId: string): RoomSecrets | null => {
+  try {
+    const stored = sessionStorage.getItem(SECRETS_KEY_PREFIX + normalizeRoomId(roomId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearRoomSecrets = (roomId: string): void => {
+  try {
+    sessionStorage.removeItem(SECRETS_KEY_PREFIX + normalizeRoomId(roomId));
+  } catch {
+    // Nothing to clear
+  }
+};
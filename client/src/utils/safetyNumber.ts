@@ -0,0 +1,64 @@
+// src/utils/safetyNumber.ts
+// Safety numbers let two devices confirm out of band that the relay handed
+// each of them the other's real public key.  Both sides hash the same pair of
+// keys in a fixed order, so they see the same code; a swapped key changes it.
+
+const EMOJI = [
+  '🐶', '🐱', '🦊', '🐻', '🐼', '🐨', '🐯', '🦁',
+  '🐮', '🐷', '🐸', '🐵', '🐔', '🐧', '🐦', '🦆',
+  '🦉', '🐴', '🦄', '🐝', '🐢', '🐍', '🐙', '🦀',
+  '🐬', '🐳', '🦋', '🌵', '🌲', '🌻', '🍄', '🌙',
+  '⭐', '🔥', '🌈', '❄️', '🍎', '🍌', '🍇', '🍓',
+  '🍒', '🍍', '🥕', '🌽', '🍕', '🍩', '🍪', '🎂',
+  '⚽', '🏀', '🎲', '🎸', '🎺', '🚀', '🚲', '⛵',
+  '🏠', '🔑', '🔔', '📚', '✏️', '⏰', '💡', '🎁',
+]; // 64 entries, so a byte maps onto it without bias
+
+const DIGIT_GROUPS = 6;
+const EMOJI_COUNT = 8;
+
+export interface SafetyNumber {
+  digits: string; // Six groups of five digits, e.g. "01234 56789 ..."
+  emoji: string[];
+}
+
+const textEncoder = new TextEncoder();
+
+const canonicalKey = (jwk: JsonWebKey) => `${jwk.kty}:${jwk.crv}:${jwk.x}:${jwk.y}`;
+
+const digest = async (value: string): Promise<Uint8Array> => (
+  new Uint8Array(await window.crypto.subtle.digest('SHA-256', textEncoder.encode(value)))
+);
+
+/**
+ * Returns a stable hex fingerprint of a single public key, used to notice
+ * when a peer's key changes.
+ */
+export const getKeyFingerprint = async (jwk: JsonWebKey): Promise<string> => {
+  const bytes = await digest(canonicalKey(jwk));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Derives the safety number both devices of a pair display.
+ */
+export const computeSafetyNumber = async (
+  ownKey: JsonWebKey,
+  peerKey: JsonWebKey,
+): Promise<SafetyNumber> => {
+  const [first, second] = [canonicalKey(ownKey), canonicalKey(peerKey)].sort();
+  const bytes = await digest(`${first}|${second}`);
+
+  const groups: string[] = [];
+  for (let g = 0; g < DIGIT_GROUPS; g++) {
+    // Five bytes (40 bits) per group keeps the modulo bias negligible
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      value = value * 256 + bytes[g * 5 + i];
+    }
+    groups.push(String(value % 100000).padStart(5, '0'));
+  }
+
+  const emoji = Array.from(bytes.subarray(0, EMOJI_COUNT), b => EMOJI[b % EMOJI.length]);
+  return { digits: groups.join(' '), emoji };
+};
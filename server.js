@@ -1,1220 +0,0 @@
-require('dotenv').config();
-
-const express = require('express');
-const http = require('http');
-const WebSocket = require('ws');
-const path = require('path');
-const cors = require('cors');
-const crypto = require('crypto');
-
-const ONE_MIB = 1024 * 1024;
-
-const parsePositiveInt = (value, fallback) => {
-  const parsed = Number(value);
-  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
-};
-
-// =============================================================================
-// CONFIGURATION
-// =============================================================================
-
-const CONFIG = {
-  PORT: process.env.PORT || 3000,
-
-  // Secrets (loaded from .env)
-  LARGE_FILE_PASSWORD: process.env.LARGE_FILE_PASSWORD,
-  HEALTH_PASSWORD: process.env.HEALTH_PASSWORD,
-  ALLOWED_ORIGINS: (process.env.ALLOWED_ORIGINS || '')
-    .split(',')
-    .map((origin) => origin.trim())
-    .filter(Boolean),
-  VERIFY_PASSWORD_MAX_ATTEMPTS: Number(process.env.VERIFY_PASSWORD_MAX_ATTEMPTS || 5),
-  VERIFY_PASSWORD_WINDOW_MS: Number(process.env.VERIFY_PASSWORD_WINDOW_MS || 5 * 60 * 1000),
-  VERIFY_PASSWORD_LOCK_MS: Number(process.env.VERIFY_PASSWORD_LOCK_MS || 10 * 60 * 1000),
-
-  // Room settings
-  MAX_ROOM_SIZE: 10,
-  MAX_ROOM_INACTIVITY: 60 * 60 * 1000, // 1 hour
-  INACTIVE_ROOM_CHECK_INTERVAL: 60 * 1000, // 1 minute
-  ROOM_STATUS_INTERVAL: 5 * 60 * 1000, // 5 minutes
-
-  // Rate limiting
-  MESSAGE_RATE_LIMIT: parsePositiveInt(process.env.MESSAGE_RATE_LIMIT, 100), // messages per window
-  RATE_LIMIT_WINDOW: parsePositiveInt(process.env.RATE_LIMIT_WINDOW_MS, 1000), // 1 second
-
-  // File transfer limits
-  MAX_FILE_SIZE: parsePositiveInt(process.env.MAX_FILE_SIZE_BYTES, 1024 * ONE_MIB), // 1GB
-  LARGE_FILE_PASSWORD_THRESHOLD: parsePositiveInt(process.env.LARGE_FILE_PASSWORD_THRESHOLD_BYTES, 150 * ONE_MIB),
-  FILE_SIZE_ENFORCEMENT_GRACE_BYTES: parsePositiveInt(process.env.FILE_SIZE_ENFORCEMENT_GRACE_BYTES, ONE_MIB),
-  MAX_FILENAME_LENGTH: parsePositiveInt(process.env.MAX_FILENAME_LENGTH, 255),
-  MAX_FILE_ID_LENGTH: parsePositiveInt(process.env.MAX_FILE_ID_LENGTH, 128),
-  MAX_TOTAL_CHUNKS: parsePositiveInt(process.env.MAX_TOTAL_CHUNKS, 4096),
-  UPLOAD_TOKEN_TTL_MS: parsePositiveInt(process.env.UPLOAD_TOKEN_TTL_MS, 30 * 60 * 1000),
-
-  // WebSocket settings
-  WS_MAX_PAYLOAD: parsePositiveInt(process.env.WS_MAX_PAYLOAD_BYTES, 8 * ONE_MIB), // Supports 4MB chunks plus encrypted overhead
-  WS_SEND_BUFFER_HIGH_WATER: parsePositiveInt(process.env.WS_SEND_BUFFER_HIGH_WATER, 64 * ONE_MIB),
-  HEARTBEAT_INTERVAL:  30000, // 30 seconds
-  HTTP_JSON_LIMIT: process.env.HTTP_JSON_LIMIT || '16kb',
-};
-
-const IS_PRODUCTION = process.env.NODE_ENV === 'production';
-const isPlaceholderSecret = (secret) => typeof secret === 'string' && /^CHANGE_ME/i.test(secret);
-
-if (IS_PRODUCTION && !CONFIG.HEALTH_PASSWORD) {
-  throw new Error('HEALTH_PASSWORD is required in production.');
-}
-
-if (IS_PRODUCTION && isPlaceholderSecret(CONFIG.HEALTH_PASSWORD)) {
-  throw new Error('HEALTH_PASSWORD must be changed before production startup.');
-}
-
-if (IS_PRODUCTION && isPlaceholderSecret(CONFIG.LARGE_FILE_PASSWORD)) {
-  throw new Error('LARGE_FILE_PASSWORD must be changed before production startup.');
-}
-
-if (IS_PRODUCTION && CONFIG.ALLOWED_ORIGINS.length === 0) {
-  throw new Error('ALLOWED_ORIGINS is required in production.');
-}
-
-// =============================================================================
-// LOGGING
-// =============================================================================
-
-const LOG_LEVELS = {
-  INFO: 'INFO',
-  WARN: 'WARN',
-  ERROR:  'ERROR',
-  DEBUG: 'DEBUG',
-};
-
-function log(level, message, ...args) {
-  const now = new Date();
-  const formatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: 'Europe/Sofia',
-    hour12: false,
-    hour: '2-digit',
-    minute: '2-digit',
-    second: '2-digit',
-    year: 'numeric',
-    month: 'short',
-    day: '2-digit',
-  });
-
-  const p = formatter.formatToParts(now).reduce((acc, part) => {
-    acc[part.type] = part.value;
-    return acc;
-  }, {});
-
-  const timestamp = `${p.hour}:${p.minute}.${p.second}, ${p.year}-${p.month}-${p.day}`;
-  console.log(`[${timestamp}] [${level}] ${message}`, ...args);
-}
-
-// =============================================================================
-// METRICS
-// =============================================================================
-
-const metrics = {
-  totalConnections: 0,
-  activeConnections: 0,
-  messagesRelayed: 0,
-  filesTransferred: 0,
-  roomsCreated: 0,
-  errors: 0,
-  rateLimitHits: 0,
-  startTime: Date.now(),
-};
-
-// =============================================================================
-// ERROR CODES
-// =============================================================================
-
-const ERROR_CODES = {
-  ROOM_NOT_FOUND: 'ROOM_NOT_FOUND',
-  ROOM_FULL: 'ROOM_FULL',
-  ROOM_ID_REQUIRED: 'ROOM_ID_REQUIRED',
-  INVALID_ROOM_ID: 'INVALID_ROOM_ID',
-  NOT_IN_ROOM: 'NOT_IN_ROOM',
-  RATE_LIMITED: 'RATE_LIMITED',
-  INVALID_FILE_ID: 'INVALID_FILE_ID',
-  FILE_TOO_LARGE: 'FILE_TOO_LARGE',
-  LARGE_FILE_AUTH_REQUIRED: 'LARGE_FILE_AUTH_REQUIRED',
-  FILE_TRANSFER_REQUIRED: 'FILE_TRANSFER_REQUIRED',
-  INVALID_FILENAME:  'INVALID_FILENAME',
-  INVALID_MESSAGE: 'INVALID_MESSAGE',
-};
-
-// =============================================================================
-// SERVER SETUP
-// =============================================================================
-
-const app = express();
-const server = http.createServer(app);
-const wss = new WebSocket.Server({
-  noServer: true,
-  maxPayload: CONFIG.WS_MAX_PAYLOAD,
-  perMessageDeflate: false,
-});
-const clientBuildPath = path.join(__dirname, 'client/build');
-
-const rooms = new Map();
-const messageCounters = new Map();
-const verifyPasswordAttempts = new Map();
-
-const normalizeOrigin = (origin) => {
-  if (!origin || typeof origin !== 'string') {
-    return '';
-  }
-  return origin.trim().toLowerCase().replace(/\/+$/, '');
-};
-
-if (process.env.TRUST_PROXY) {
-  const trustProxyValue = process.env.TRUST_PROXY;
-  const numericValue = Number(trustProxyValue);
-  if (trustProxyValue === 'true') {
-    app.set('trust proxy', true);
-  } else if (trustProxyValue === 'false') {
-    app.set('trust proxy', false);
-  } else if (!Number.isNaN(numericValue)) {
-    app.set('trust proxy', numericValue);
-  } else {
-    app.set('trust proxy', trustProxyValue);
-  }
-}
-
-const isOriginAllowed = (origin) => {
-  if (!origin) {
-    return !IS_PRODUCTION;
-  }
-
-  if (!IS_PRODUCTION && CONFIG.ALLOWED_ORIGINS.length === 0) {
-    return true;
-  }
-
-  const normalizedOrigin = normalizeOrigin(origin);
-  return CONFIG.ALLOWED_ORIGINS.some((allowedOrigin) => normalizeOrigin(allowedOrigin) === normalizedOrigin);
-};
-
-app.disable('x-powered-by');
-app.use((req, res, next) => {
-  res.setHeader('X-Content-Type-Options', 'nosniff');
-  res.setHeader('Referrer-Policy', 'no-referrer');
-  res.setHeader('X-Frame-Options', 'DENY');
-  res.setHeader('Permissions-Policy', 'clipboard-read=(self), clipboard-write=(self)');
-  if (IS_PRODUCTION && req.secure) {
-    res.setHeader('Strict-Transport-Security', 'max-age=31536000; includeSubDomains');
-  }
-  next();
-});
-
-app.use(cors({
-  origin: (origin, callback) => {
-    // Requests without Origin are typically non-browser/server-to-server/health checks.
-    // CORS is a browser control, so allow these to avoid false production errors.
-    if (!origin) {
-      callback(null, true);
-      return;
-    }
-
-    if (isOriginAllowed(origin)) {
-      callback(null, true);
-      return;
-    }
-
-    log(LOG_LEVELS.WARN, `[CORS] Rejected origin: ${origin}`);
-    callback(null, false);
-  },
-  methods: ['GET', 'POST', 'OPTIONS'],
-}));
-app.use(express.json({ limit: CONFIG.HTTP_JSON_LIMIT }));
-app.use(express.static(clientBuildPath, {
-  etag: true,
-  maxAge: 0,
-  setHeaders: (res, filePath) => {
-    if (IS_PRODUCTION && filePath.includes(`${path.sep}static${path.sep}`)) {
-      res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
-      return;
-    }
-    res.setHeader('Cache-Control', 'no-cache');
-  },
-}));
-
-server.on('upgrade', (request, socket, head) => {
-  const origin = request.headers.origin;
-
-  if (!isOriginAllowed(origin)) {
-    log(LOG_LEVELS.WARN, `[WS] Upgrade rejected for origin: ${origin || 'missing origin'}`);
-    socket.write('HTTP/1.1 403 Forbidden\\r\\n\\r\\n');
-    socket.destroy();
-    return;
-  }
-
-  wss.handleUpgrade(request, socket, head, (ws) => {
-    wss.emit('connection', ws, request);
-  });
-});
-
-// =============================================================================
-// UTILITY FUNCTIONS
-// =============================================================================
-
-function sendError(ws, code, message) {
-  if (ws. readyState === WebSocket.OPEN) {
-    ws. send(JSON.stringify({ type: 'error', code, message }));
-  }
-  metrics.errors++;
-}
-
-function sendMessage(ws, data) {
-  sendJsonToClient(ws, data, ws.roomId || 'direct');
-}
-
-function closeSlowClient(ws, roomId) {
-  if (ws.readyState !== WebSocket.OPEN) return;
-  log(LOG_LEVELS.WARN, `[ROOM ${roomId}] Closing slow client ${ws.id}; buffered ${ws.bufferedAmount} bytes`);
-  metrics.errors++;
-  ws.close(1013, 'Client is too slow to receive data');
-}
-
-function sendJsonToClient(ws, data, roomId) {
-  if (ws.readyState !== WebSocket.OPEN) return;
-  if (ws.bufferedAmount > CONFIG.WS_SEND_BUFFER_HIGH_WATER) {
-    closeSlowClient(ws, roomId);
-    return;
-  }
-  ws.send(JSON.stringify(data), (error) => {
-    if (error) {
-      log(LOG_LEVELS.ERROR, `[WS] Failed to send JSON to ${ws.id}:`, error);
-      metrics.errors++;
-    }
-  });
-}
-
-function generateRoomId() {
-  let roomId;
-  do {
-    const uuid = crypto.randomUUID();
-    roomId = uuid.replace(/-/g, '').substring(0, 6).toUpperCase();
-  } while (rooms.has(roomId));
-  return roomId;
-}
-
-function checkRateLimit(ws) {
-  const now = Date.now();
-  let counter = messageCounters. get(ws.id);
-
-  if (! counter || now > counter. resetTime) {
-    counter = { count:  0, resetTime: now + CONFIG.RATE_LIMIT_WINDOW };
-  }
-
-  counter.count++;
-  messageCounters.set(ws.id, counter);
-
-  if (counter.count > CONFIG.MESSAGE_RATE_LIMIT) {
-    log(LOG_LEVELS. WARN, `[WS] Rate limit exceeded for ${ws.id}`);
-    metrics.rateLimitHits++;
-    return false;
-  }
-  return true;
-}
-
-function cleanupClient(wsId) {
-  messageCounters.delete(wsId);
-}
-
-function logRoomStatus() {
-  if (rooms.size === 0) {
-    log(LOG_LEVELS.INFO, 'No active rooms.');
-    return;
-  }
-  const color = '\x1b[32m'; // Green
-  const reset = '\x1b[0m';
-  log(LOG_LEVELS.INFO, `${color}--- Active Rooms Status (${rooms.size} total) ---${reset}`);
-  rooms.forEach((room, roomId) => {
-    const fileTransfers = room.activeTransfers ?  room.activeTransfers. size : 0;
-    log(LOG_LEVELS.INFO, `${color}  Room ID: ${roomId}, Clients: ${room.clients.size}, Active File Transfers: ${fileTransfers}${reset}`);
-  });
-  log(LOG_LEVELS.INFO, `${color}-----------------------------------${reset}`);
-}
-
-function getClientIp(req) {
-  return req.ip || req.socket?.remoteAddress || 'unknown';
-}
-
-function getVerifyPasswordAttemptState(ip) {
-  const now = Date.now();
-  const existing = verifyPasswordAttempts.get(ip);
-
-  if (!existing || now > existing.resetTime) {
-    const freshState = {
-      attempts: 0,
-      resetTime: now + CONFIG.VERIFY_PASSWORD_WINDOW_MS,
-      lockUntil: 0,
-    };
-    verifyPasswordAttempts.set(ip, freshState);
-    return freshState;
-  }
-
-  return existing;
-}
-
-function cleanupVerifyPasswordAttempts() {
-  const now = Date.now();
-  verifyPasswordAttempts.forEach((state, ip) => {
-    if (now > state.resetTime && now > state.lockUntil) {
-      verifyPasswordAttempts.delete(ip);
-    }
-  });
-}
-
-function base64UrlEncode(value) {
-  return Buffer.from(value)
-    .toString('base64')
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=+$/g, '');
-}
-
-function base64UrlDecode(value) {
-  const normalized = value.replace(/-/g, '+').replace(/_/g, '/');
-  const padded = normalized.padEnd(normalized.length + ((4 - (normalized.length % 4)) % 4), '=');
-  return Buffer.from(padded, 'base64').toString('utf8');
-}
-
-function timingSafeEqualString(input, expected) {
-  if (typeof input !== 'string' || typeof expected !== 'string') {
-    return false;
-  }
-
-  const inputBuffer = Buffer.from(input);
-  const expectedBuffer = Buffer.from(expected);
-  if (inputBuffer.length !== expectedBuffer.length) {
-    return false;
-  }
-
-  return crypto.timingSafeEqual(inputBuffer, expectedBuffer);
-}
-
-function signUploadToken(payload) {
-  return base64UrlEncode(
-    crypto
-      .createHmac('sha256', CONFIG.LARGE_FILE_PASSWORD)
-      .update(payload)
-      .digest()
-  );
-}
-
-function createUploadToken() {
-  if (!CONFIG.LARGE_FILE_PASSWORD) return null;
-
-  const payload = base64UrlEncode(JSON.stringify({
-    exp: Date.now() + CONFIG.UPLOAD_TOKEN_TTL_MS,
-    nonce: base64UrlEncode(crypto.randomBytes(16)),
-  }));
-
-  return `${payload}.${signUploadToken(payload)}`;
-}
-
-function isUploadTokenValid(token) {
-  if (!CONFIG.LARGE_FILE_PASSWORD || typeof token !== 'string' || token.length > 512) {
-    return false;
-  }
-
-  const parts = token.split('.');
-  if (parts.length !== 2) {
-    return false;
-  }
-
-  const [payload, signature] = parts;
-  const expectedSignature = signUploadToken(payload);
-  if (!timingSafeEqualString(signature, expectedSignature)) {
-    return false;
-  }
-
-  try {
-    const parsed = JSON.parse(base64UrlDecode(payload));
-    return Number.isSafeInteger(parsed.exp) && parsed.exp >= Date.now();
-  } catch {
-    return false;
-  }
-}
-
-function createRoomState() {
-  return {
-    clients: new Map(),
-    lastActivity: Date.now(),
-    activeTransfers: new Map(),
-    transferState: new Map(),
-  };
-}
-
-function getTransferKey(ws, fileId) {
-  return `${ws.id}:${fileId}`;
-}
-
-function isValidFileId(fileId) {
-  return (
-    typeof fileId === 'string'
-    && fileId.length > 0
-    && fileId.length <= CONFIG.MAX_FILE_ID_LENGTH
-    && /^[A-Za-z0-9._:-]+$/.test(fileId)
-  );
-}
-
-function parseDeclaredFileSize(data) {
-  const size = data.declaredFileSize ?? data.fileSize;
-  if (size === undefined || size === null) {
-    return { valid: true, size: null };
-  }
-
-  if (typeof size !== 'number' || !Number.isSafeInteger(size) || size < 0) {
-    return { valid: false, size: null };
-  }
-
-  return { valid: true, size };
-}
-
-function stripTransferControlFields(data) {
-  const { uploadToken, declaredFileSize, ...publicData } = data;
-  return publicData;
-}
-
-function estimateEncodedPayloadBytes(value) {
-  if (typeof value === 'string') {
-    return Math.ceil(value.length * 3 / 4);
-  }
-  if (value && typeof value === 'object') {
-    return Object.values(value).reduce((total, item) => total + estimateEncodedPayloadBytes(item), 0);
-  }
-  return 0;
-}
-
-function startFileTransfer(room, ws, fileId, options = {}) {
-  if (!room.activeTransfers.has(ws.id)) {
-    room.activeTransfers.set(ws.id, new Set());
-  }
-
-  room.activeTransfers.get(ws.id).add(fileId);
-  room.transferState.set(getTransferKey(ws, fileId), {
-    authorizedLarge: Boolean(options.authorizedLarge),
-    bytesRelayed: 0,
-    declaredSize: options.declaredSize ?? null,
-    totalChunks: null,
-    startedAt: Date.now(),
-  });
-}
-
-function finishFileTransfer(room, ws, fileId) {
-  const active = room.activeTransfers.get(ws.id);
-  if (active) {
-    active.delete(fileId);
-    if (active.size === 0) {
-      room.activeTransfers.delete(ws.id);
-    }
-  }
-  room.transferState.delete(getTransferKey(ws, fileId));
-}
-
-function getTransferState(room, ws, fileId) {
-  return room.transferState?.get(getTransferKey(ws, fileId));
-}
-
-function cancelFileTransfer(roomId, room, ws, fileId, code, message) {
-  sendError(ws, code, message);
-  broadcastToRoom(roomId, { type: 'file-cancel', fileId, senderId: ws.id }, ws);
-  finishFileTransfer(room, ws, fileId);
-}
-
-function registerTransferBytes(roomId, room, ws, fileId, totalChunks, bytes) {
-  const transfer = getTransferState(room, ws, fileId);
-  if (!transfer) {
-    sendError(ws, ERROR_CODES.FILE_TRANSFER_REQUIRED, 'File transfer must be announced before chunks are sent');
-    return false;
-  }
-
-  if (transfer.totalChunks !== null && transfer.totalChunks !== totalChunks) {
-    cancelFileTransfer(roomId, room, ws, fileId, ERROR_CODES.INVALID_MESSAGE, 'File chunk metadata mismatch');
-    return false;
-  }
-  transfer.totalChunks = totalChunks;
-
-  const nextBytes = transfer.bytesRelayed + bytes;
-  if (nextBytes > CONFIG.MAX_FILE_SIZE + CONFIG.FILE_SIZE_ENFORCEMENT_GRACE_BYTES) {
-    cancelFileTransfer(roomId, room, ws, fileId, ERROR_CODES.FILE_TOO_LARGE, `File exceeds maximum size of ${CONFIG.MAX_FILE_SIZE} bytes`);
-    return false;
-  }
-
-  if (
-    !transfer.authorizedLarge
-    && nextBytes > CONFIG.LARGE_FILE_PASSWORD_THRESHOLD + CONFIG.FILE_SIZE_ENFORCEMENT_GRACE_BYTES
-  ) {
-    cancelFileTransfer(roomId, room, ws, fileId, ERROR_CODES.LARGE_FILE_AUTH_REQUIRED, 'Large files require upload password verification');
-    return false;
-  }
-
-  transfer.bytesRelayed = nextBytes;
-  return true;
-}
-
-function broadcastToRoom(roomId, data, excludeWs = null) {
-  const room = rooms.get(roomId);
-  if (!room) return;
-
-  const message = JSON.stringify(data);
-
-  room.clients.forEach(({ ws: client }) => {
-    if (client !== excludeWs && client.readyState === WebSocket. OPEN) {
-      if (client.bufferedAmount > CONFIG.WS_SEND_BUFFER_HIGH_WATER) {
-        closeSlowClient(client, roomId);
-        return;
-      }
-      client.send(message, (error) => {
-        if (error) {
-          log(LOG_LEVELS.ERROR, `[WS] Failed to broadcast to ${client.id}:`, error);
-          metrics.errors++;
-        }
-      });
-    }
-  });
-
-  metrics.messagesRelayed++;
-}
-
-// =============================================================================
-// VALIDATION FUNCTIONS
-// =============================================================================
-
-function validateRoomId(roomId) {
-  if (!roomId) {
-    return { valid: false, code: ERROR_CODES.ROOM_ID_REQUIRED, message: 'Room ID is required' };
-  }
-  if (typeof roomId !== 'string' || !/^[A-Za-z0-9]{6}$/.test(roomId)) {
-    return { valid: false, code: ERROR_CODES.INVALID_ROOM_ID, message: 'Invalid room ID format' };
-  }
-  return { valid: true };
-}
-
-function validateFileStart(data) {
-  if (!isValidFileId(data.fileId)) {
-    return { valid:  false, code: ERROR_CODES. INVALID_FILE_ID, message: 'Invalid file ID' };
-  }
-
-  const declaredFileSize = parseDeclaredFileSize(data);
-  if (!declaredFileSize.valid) {
-    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid file size' };
-  }
-  if (declaredFileSize.size !== null && declaredFileSize.size > CONFIG.MAX_FILE_SIZE) {
-    return { valid:  false, code: ERROR_CODES.FILE_TOO_LARGE, message: `File exceeds maximum size of ${CONFIG.MAX_FILE_SIZE} bytes` };
-  }
-  if (
-    declaredFileSize.size !== null
-    && declaredFileSize.size > CONFIG.LARGE_FILE_PASSWORD_THRESHOLD
-    && !isUploadTokenValid(data.uploadToken)
-  ) {
-    return { valid: false, code: ERROR_CODES.LARGE_FILE_AUTH_REQUIRED, message: 'Large files require upload password verification' };
-  }
-  if (data. fileName && (typeof data.fileName !== 'string' || data.fileName.length > CONFIG.MAX_FILENAME_LENGTH)) {
-    return { valid: false, code: ERROR_CODES.INVALID_FILENAME, message: 'Invalid filename' };
-  }
-  return { valid: true };
-}
-
-function validateFileChunk(data) {
-  if (!isValidFileId(data.fileId)) {
-    return { valid: false, code: ERROR_CODES.INVALID_FILE_ID, message:  'Invalid file ID' };
-  }
-  if (
-    !Number.isSafeInteger(data.chunkIndex)
-    || !Number.isSafeInteger(data.totalChunks)
-  ) {
-    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid chunk data' };
-  }
-  if (data.totalChunks === 0 || data.totalChunks > CONFIG.MAX_TOTAL_CHUNKS || data.chunkIndex < 0 || data.chunkIndex >= data.totalChunks) {
-    return { valid:  false, code: ERROR_CODES. INVALID_MESSAGE, message: 'Chunk index out of range' };
-  }
-  return { valid: true };
-}
-
-function decodeBinaryFrameHeader(data) {
-  const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
-  if (buffer.length < 10) return null;
-
-  const idLen = buffer.readUInt16BE(0);
-  if (idLen === 0 || idLen > CONFIG.MAX_FILE_ID_LENGTH || 2 + idLen + 8 > buffer.length) {
-    return null;
-  }
-
-  const offset = 2 + idLen;
-  const fileId = buffer.toString('utf8', 2, offset);
-  const chunkIndex = buffer.readUInt32BE(offset);
-  const totalChunks = buffer.readUInt32BE(offset + 4);
-  const payloadOffset = offset + 8;
-
-  if (!isValidFileId(fileId) || totalChunks === 0 || totalChunks > CONFIG.MAX_TOTAL_CHUNKS || chunkIndex >= totalChunks) {
-    return null;
-  }
-
-  return { fileId, chunkIndex, totalChunks, payloadLength: buffer.length - payloadOffset };
-}
-
-// =============================================================================
-// MESSAGE HANDLERS
-// =============================================================================
-
-function handleJoin(ws, roomId, publicKey) {
-  const validation = validateRoomId(roomId);
-  if (!validation. valid) {
-    sendError(ws, validation.code, validation.message);
-    return;
-  }
-
-  roomId = roomId.toUpperCase();
-
-  // Leave current room first if already in one
-  if (ws.roomId) {
-    handleLeave(ws);
-  }
-
-  // Get existing room or create a new one (restored original behavior)
-  let room = rooms.get(roomId);
-  if (!room) {
-    room = createRoomState();
-    rooms.set(roomId, room);
-    metrics.roomsCreated++;
-    log(LOG_LEVELS. INFO, `[ROOM ${roomId}] Created by client ${ws.id} via join`);
-  }
-
-  // Check room size limit
-  if (room.clients.size >= CONFIG.MAX_ROOM_SIZE) {
-    sendError(ws, ERROR_CODES. ROOM_FULL, 'Room is full');
-    return;
-  }
-
-  ws.roomId = roomId;
-  room.clients.set(ws.id, { ws, publicKey });
-  room.lastActivity = Date.now();
-
-  const clientsInRoom = Array. from(room.clients.values()).map(c => ({ id: c.ws.id, publicKey: c.publicKey }));
-
-  sendMessage(ws, {
-    type: 'room-update',
-    roomId:  roomId,
-    clients: clientsInRoom,
-    clientId: ws.id,
-    clientCount: room.clients.size
-  });
-
-  broadcastToRoom(roomId, {
-    type: 'room-update',
-    roomId: roomId,
-    clients: clientsInRoom,
-    clientCount: room.clients.size
-  }, ws);
-
-  log(LOG_LEVELS.INFO, `[ROOM ${roomId}] Client ${ws.id} joined.  Total clients in room: ${room. clients.size}`);
-}
-
-function handleCreate(ws, publicKey) {
-  // Leave current room first if already in one
-  if (ws.roomId) {
-    handleLeave(ws);
-  }
-
-  const roomId = generateRoomId();
-  const room = createRoomState();
-  rooms.set(roomId, room);
-
-  ws.roomId = roomId;
-  room.clients.set(ws.id, { ws, publicKey });
-
-  const clientsInRoom = Array.from(room.clients.values()).map(c => ({ id: c.ws.id, publicKey: c.publicKey }));
-
-  sendMessage(ws, {
-    type: 'room-update',
-    roomId:  roomId,
-    clients: clientsInRoom,
-    clientId: ws.id,
-    clientCount: room.clients.size
-  });
-
-  metrics.roomsCreated++;
-  log(LOG_LEVELS. INFO, `[ROOM ${roomId}] Created by client ${ws.id}`);
-  logRoomStatus();
-}
-
-function handleLeave(ws) {
-  if (! ws.roomId || !rooms.has(ws.roomId)) {
-    return;
-  }
-
-  const room = rooms. get(ws.roomId);
-  const roomId = ws.roomId;
-
-  if (! room.clients.has(ws.id)) {
-    return;
-  }
-
-  room.clients.delete(ws.id);
-  room.lastActivity = Date.now();
-
-  // Cancel any active file transfers from the disconnected client
-  if (room.activeTransfers. has(ws.id)) {
-    const fileIds = Array.from(room.activeTransfers. get(ws.id));
-    fileIds.forEach(fileId => {
-      log(LOG_LEVELS. WARN, `[ROOM ${roomId}] Cancelling file transfer ${fileId} from disconnected client ${ws.id}`);
-      broadcastToRoom(roomId, { type: 'file-cancel', fileId:  fileId, senderId: ws.id });
-      finishFileTransfer(room, ws, fileId);
-    });
-  }
-
-  if (room.clients. size === 0) {
-    rooms. delete(roomId);
-    log(LOG_LEVELS.INFO, `[ROOM ${roomId}] Deleted (empty)`);
-    logRoomStatus();
-  } else {
-    const clientsInRoom = Array.from(room.clients.values()).map(c => ({ id: c.ws.id, publicKey: c.publicKey }));
-    broadcastToRoom(roomId, {
-      type: 'room-update',
-      roomId: roomId,
-      clients:  clientsInRoom,
-      clientCount:  room.clients.size
-    });
-    log(LOG_LEVELS.INFO, `[ROOM ${roomId}] Client ${ws.id} left. Total clients in room: ${room. clients.size}`);
-  }
-
-  ws.roomId = null;
-}
-
-function handleClipboard(ws, data) {
-  if (!ws.roomId) {
-    sendError(ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
-    return;
-  }
-
-  const room = rooms.get(ws.roomId);
-  if (!room) return;
-  room.lastActivity = Date.now();
-
-  const message = {
-    ...stripTransferControlFields(data),
-    senderId: ws.id,
-    timestamp: Date.now()
-  };
-
-  if (data.fileId) {
-    log(LOG_LEVELS.INFO, `[ROOM ${ws.roomId}] Relaying file metadata ${data.fileId} from ${ws.id}`);
-  }
-
-  log(LOG_LEVELS.INFO, `[ROOM ${ws. roomId}] Relaying '${data.type}' from ${ws.id}`);
-  broadcastToRoom(ws. roomId, message, ws);
-}
-
-function handleFileChunk(ws, data) {
-  if (!ws.roomId) {
-    sendError(ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
-    return;
-  }
-
-  const validation = validateFileChunk(data);
-  if (!validation. valid) {
-    sendError(ws, validation.code, validation.message);
-    return;
-  }
-
-  const room = rooms.get(ws.roomId);
-  if (!room) return;
-  room.lastActivity = Date.now();
-
-  const chunkBytes = estimateEncodedPayloadBytes(data.chunk || data.encryptedChunk);
-  if (!registerTransferBytes(ws.roomId, room, ws, data.fileId, data.totalChunks, chunkBytes)) {
-    return;
-  }
-
-  const message = {
-    ...stripTransferControlFields(data),
-    senderId: ws.id,
-  };
-
-  // Clean up transfer tracking when the last chunk is sent
-  if (data.chunkIndex === data. totalChunks - 1) {
-    finishFileTransfer(room, ws, data.fileId);
-    metrics.filesTransferred++;
-    log(LOG_LEVELS.INFO, `[ROOM ${ws.roomId}] Finished file transfer ${data.fileId} from ${ws.id}`);
-  }
-
-  broadcastToRoom(ws.roomId, message, ws);
-}
-
-function handleFileStart(ws, data) {
-  if (! ws.roomId) {
-    sendError(ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
-    return;
-  }
-
-  const validation = validateFileStart(data);
-  if (!validation.valid) {
-    sendError(ws, validation.code, validation.message);
-    return;
-  }
-
-  const room = rooms.get(ws.roomId);
-  if (!room) return;
-  room.lastActivity = Date.now();
-
-  const declaredFileSize = parseDeclaredFileSize(data).size;
-  startFileTransfer(room, ws, data.fileId, {
-    authorizedLarge: isUploadTokenValid(data.uploadToken),
-    declaredSize: declaredFileSize,
-  });
-
-  const message = {
-    ...stripTransferControlFields(data),
-    senderId: ws. id,
-    timestamp: Date.now()
-  };
-
-  log(LOG_LEVELS.INFO, `[ROOM ${ws.roomId}] Relaying '${data.type}' for file ${data.fileId} from ${ws.id}`);
-  broadcastToRoom(ws.roomId, message, ws);
-}
-
-function handleBinaryRelay(ws, data) {
-  if (!ws.roomId) {
-    // Binary frame from a client not in a room – ignore
-    return;
-  }
-  if (!checkRateLimit(ws)) {
-    sendError(ws, ERROR_CODES.RATE_LIMITED, 'Too many messages. Please slow down.');
-    return;
-  }
-  const room = rooms.get(ws.roomId);
-  if (!room) return;
-  room.lastActivity = Date.now();
-
-  const header = decodeBinaryFrameHeader(data);
-  if (!header) {
-    sendError(ws, ERROR_CODES.INVALID_MESSAGE, 'Invalid binary file chunk');
-    return;
-  }
-
-  if (!registerTransferBytes(ws.roomId, room, ws, header.fileId, header.totalChunks, header.payloadLength)) {
-    return;
-  }
-
-  // Relay binary frame as-is to every other client in the room
-  room.clients.forEach(({ ws: client }) => {
-    if (client !== ws && client.readyState === WebSocket.OPEN) {
-      if (client.bufferedAmount > CONFIG.WS_SEND_BUFFER_HIGH_WATER) {
-        closeSlowClient(client, ws.roomId);
-        return;
-      }
-      client.send(data, { binary: true }, (error) => {
-        if (error) {
-          log(LOG_LEVELS.ERROR, `[WS] Failed to relay binary frame to ${client.id}:`, error);
-          metrics.errors++;
-        }
-      });
-    }
-  });
-
-  if (header.chunkIndex === header.totalChunks - 1) {
-    finishFileTransfer(room, ws, header.fileId);
-    metrics.filesTransferred++;
-    log(LOG_LEVELS.INFO, `[ROOM ${ws.roomId}] Finished binary file transfer ${header.fileId} from ${ws.id}`);
-  }
-
-  metrics.messagesRelayed++;
-}
-
-function handleFileKey(ws, data) {
-  if (!ws.roomId) {
-    sendError(ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
-    return;
-  }
-  if (!isValidFileId(data.fileId)) {
-    sendError(ws, ERROR_CODES.INVALID_FILE_ID, 'Invalid file ID');
-    return;
-  }
-  const room = rooms.get(ws.roomId);
-  if (!room) return;
-  room.lastActivity = Date.now();
-  broadcastToRoom(ws.roomId, { ...stripTransferControlFields(data), senderId: ws.id }, ws);
-  log(LOG_LEVELS.INFO, `[ROOM ${ws.roomId}] Relaying 'file-key' for file ${data.fileId} from ${ws.id}`);
-}
-
-function handleChunkAck(ws, data) {
-  if (!ws.roomId) {
-    sendError(ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
-    return;
-  }
-  const room = rooms.get(ws.roomId);
-  if (!room) return;
-  room.lastActivity = Date.now();
-  broadcastToRoom(ws.roomId, { ...stripTransferControlFields(data), senderId: ws.id }, ws);
-}
-
-// =============================================================================
-// WEBSOCKET CONNECTION HANDLER
-// =============================================================================
-
-wss.on('connection', (ws, request) => {
-  ws.id = crypto.randomUUID();
-  ws.isAlive = true;
-
-  metrics.totalConnections++;
-  metrics.activeConnections++;
-
-  log(LOG_LEVELS.INFO, `[WS] Client connected: ${ws.id} (origin: ${request.headers.origin || 'none'})`);
-
-  ws.on('pong', () => {
-    ws.isAlive = true;
-  });
-
-  ws.on('message', (message, isBinary) => {
-    try {
-      // Binary frames are file-chunk data – relay without parsing
-      if (isBinary) {
-        handleBinaryRelay(ws, message);
-        return;
-      }
-
-      // Check rate limit
-      if (!checkRateLimit(ws)) {
-        sendError(ws, ERROR_CODES. RATE_LIMITED, 'Too many messages.  Please slow down.');
-        return;
-      }
-
-      const data = JSON.parse(message. toString());
-
-      if (! data.type || typeof data.type !== 'string') {
-        sendError(ws, ERROR_CODES.INVALID_MESSAGE, 'Invalid message format');
-        return;
-      }
-
-      switch (data.type) {
-        case 'join':
-          handleJoin(ws, data.roomId, data.publicKey);
-          break;
-        case 'create':
-          handleCreate(ws, data.publicKey);
-          break;
-        case 'leave':
-          handleLeave(ws);
-          break;
-        case 'clipboard':
-          handleClipboard(ws, data);
-          break;
-        case 'file-chunk':
-          handleFileChunk(ws, data);
-          break;
-        case 'file-start':
-          handleFileStart(ws, data);
-          break;
-        case 'file-key':
-          handleFileKey(ws, data);
-          break;
-        case 'chunk-ack':
-          handleChunkAck(ws, data);
-          break;
-        default:
-          log(LOG_LEVELS.WARN, `[ROOM ${ws.roomId}] Unknown message type from ${ws.id}: `, data.type);
-          sendError(ws, ERROR_CODES. INVALID_MESSAGE, `Unknown message type: ${data.type}`);
-      }
-    } catch (error) {
-      log(LOG_LEVELS. ERROR, 'Error handling message:', error);
-      sendError(ws, ERROR_CODES.INVALID_MESSAGE, 'Failed to parse message');
-    }
-  });
-
-  ws.on('close', () => {
-    log(LOG_LEVELS.INFO, `[WS] Client disconnected: ${ws. id}`);
-    metrics.activeConnections--;
-    cleanupClient(ws. id);
-    handleLeave(ws);
-  });
-
-  ws.on('error', (error) => {
-    log(LOG_LEVELS. ERROR, `[WS] Error for client ${ws.id}:`, error);
-    metrics.errors++;
-  });
-});
-
-// =============================================================================
-// HEARTBEAT INTERVAL
-// =============================================================================
-
-const heartbeatInterval = setInterval(() => {
-  wss.clients.forEach((ws) => {
-    if (ws. isAlive === false) {
-      log(LOG_LEVELS.WARN, `[WS] Terminating unresponsive client ${ws.id}`);
-      cleanupClient(ws.id);
-      handleLeave(ws);
-      ws.terminate();
-    } else {
-      ws.isAlive = false;
-      ws.ping();
-    }
-  });
-}, CONFIG.HEARTBEAT_INTERVAL);
-
-const verifyPasswordCleanupInterval = setInterval(cleanupVerifyPasswordAttempts, 60 * 1000);
-
-// =============================================================================
-// INACTIVE ROOM CLEANUP
-// =============================================================================
-
-const inactiveRoomCheckInterval = setInterval(() => {
-  const now = Date.now();
-  rooms.forEach((room, roomId) => {
-    if (now - room.lastActivity > CONFIG.MAX_ROOM_INACTIVITY) {
-      log(LOG_LEVELS.INFO, `[ROOM ${roomId}] Shutting down due to inactivity. `);
-      room.clients.forEach(({ ws: client }) => {
-        sendMessage(client, { type: 'room-closed', reason: 'inactivity' });
-        client.close();
-      });
-      rooms.delete(roomId);
-      logRoomStatus();
-    }
-  });
-}, CONFIG. INACTIVE_ROOM_CHECK_INTERVAL);
-
-// =============================================================================
-// ROOM STATUS LOGGING
-// =============================================================================
-
-const roomStatusInterval = setInterval(logRoomStatus, CONFIG.ROOM_STATUS_INTERVAL);
-
-// =============================================================================
-// HTTP ROUTES
-// =============================================================================
-
-// Upload password verification endpoint
-app.post('/api/verify-upload-password', (req, res) => {
-  const ip = getClientIp(req);
-  const now = Date.now();
-  const state = getVerifyPasswordAttemptState(ip);
-
-  if (state.lockUntil > now) {
-    return res.status(429).json({ valid: false, error: 'Too many failed attempts. Try again later.' });
-  }
-
-  const { password } = req.body;
-  if (!CONFIG.LARGE_FILE_PASSWORD) {
-    return res.status(500).json({ valid: false, error: 'LARGE_FILE_PASSWORD not configured on server' });
-  }
-
-  if (!password || !timingSafeEqualString(password, CONFIG.LARGE_FILE_PASSWORD)) {
-    state.attempts += 1;
-    if (state.attempts >= CONFIG.VERIFY_PASSWORD_MAX_ATTEMPTS) {
-      state.lockUntil = now + CONFIG.VERIFY_PASSWORD_LOCK_MS;
-      state.attempts = 0;
-      state.resetTime = now + CONFIG.VERIFY_PASSWORD_WINDOW_MS;
-      verifyPasswordAttempts.set(ip, state);
-      return res.status(429).json({ valid: false, error: 'Too many failed attempts. Try again later.' });
-    }
-    verifyPasswordAttempts.set(ip, state);
-    return res.status(401).json({ valid: false });
-  }
-
-  verifyPasswordAttempts.delete(ip);
-  return res.json({
-    valid: true,
-    uploadToken: createUploadToken(),
-    expiresInMs: CONFIG.UPLOAD_TOKEN_TTL_MS,
-  });
-});
-
-// Health check endpoint with metrics (Basic Auth protected)
-app.get('/health', (req, res) => {
-  if (CONFIG.HEALTH_PASSWORD) {
-    const authHeader = req.headers['authorization'];
-    const isBasicAuth = authHeader && authHeader.startsWith('Basic ');
-    if (!isBasicAuth) {
-      res.setHeader('WWW-Authenticate', 'Basic realm="Health Check"');
-      return res.status(401).json({ error: 'Authentication required' });
-    }
-    const decoded = Buffer.from(authHeader.slice(6), 'base64').toString('utf8');
-    // Accept any username; only the password matters
-    const password = decoded.includes(':') ? decoded.split(':').slice(1).join(':') : decoded;
-    if (!timingSafeEqualString(password, CONFIG.HEALTH_PASSWORD)) {
-      res.setHeader('WWW-Authenticate', 'Basic realm="Health Check"');
-      return res.status(401).json({ error: 'Invalid credentials' });
-    }
-  }
-  const uptime = Date.now() - metrics.startTime;
-  res.json({
-    status: 'ok',
-    uptime: uptime,
-    uptimeHuman: `${Math.floor(uptime / 1000 / 60 / 60)}h ${Math.floor((uptime / 1000 / 60) % 60)}m`,
-    rooms: rooms.size,
-    connections: wss.clients.size,
-    metrics:  {
-      totalConnections: metrics.totalConnections,
-      activeConnections: metrics.activeConnections,
-      messagesRelayed: metrics.messagesRelayed,
-      filesTransferred:  metrics.filesTransferred,
-      roomsCreated: metrics. roomsCreated,
-      errors: metrics.errors,
-      rateLimitHits: metrics.rateLimitHits,
-    }
-  });
-});
-
-// Catch-all for SPA
-app.get('*', (req, res) => {
-  res.sendFile(path.join(clientBuildPath, 'index.html'));
-});
-
-// =============================================================================
-// SERVER LIFECYCLE
-// =============================================================================
-
-wss.on('close', () => {
-  clearInterval(heartbeatInterval);
-  clearInterval(verifyPasswordCleanupInterval);
-  clearInterval(inactiveRoomCheckInterval);
-  clearInterval(roomStatusInterval);
-});
-
-server.listen(CONFIG. PORT, () => {
-  log(LOG_LEVELS.INFO, `Server running on port ${CONFIG. PORT}`);
-  log(LOG_LEVELS.INFO, `Access at: http://localhost:${CONFIG.PORT}`);
-  log(LOG_LEVELS.INFO, `Health check at: http://localhost:${CONFIG. PORT}/health`);
-});
-
-process.on('SIGTERM', () => {
-  log(LOG_LEVELS.INFO, 'SIGTERM received, closing server.. .');
-
-  // Notify all clients
-  wss.clients.forEach((ws) => {
-    sendMessage(ws, { type: 'server-shutdown' });
-  });
-
-  server.close(() => {
-    log(LOG_LEVELS.INFO, 'Server closed');
-    process.exit(0);
-  });
-});
-
-process.on('SIGINT', () => {
-  log(LOG_LEVELS. INFO, 'SIGINT received, closing server...');
-
-  wss.clients.forEach((ws) => {
-    sendMessage(ws, { type:  'server-shutdown' });
-  });
-
-  server.close(() => {
-    log(LOG_LEVELS.INFO, 'Server closed');
-    process.exit(0);
-  });
-});
-
-// Handle uncaught exceptions
-process.on('uncaughtException', (error) => {
-  log(LOG_LEVELS.ERROR, 'Uncaught exception:', error);
-  metrics.errors++;
-});
-
-process.on('unhandledRejection', (reason, promise) => {
-  log(LOG_LEVELS.ERROR, 'Unhandled rejection at:', promise, 'reason:', reason);
-  metrics.errors++;
-});
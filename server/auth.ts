@@ -0,0 +1,292 @@
+// Secrets and proofs: upload tokens for large files, room passphrase
+// proofs, the admin and health passwords, and the per-IP lockouts that
+// keep them from being guessed.
+
+import crypto from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { Request, Response } from 'express';
+import type { PassphraseProof } from '../client/src/protocol/messages';
+import { ERROR_CODES, Validation } from './errors';
+import { LOG_LEVELS } from './logging';
+import { sendError } from './relay';
+import type { AttemptState, RelaySocket, RoomPassphrase, ServerContext } from './types';
+
+// Express requests carry req.ip; WebSocket upgrades are plain requests, so the
+// forwarded chain is walked here with Express's own TRUST_PROXY rule
+export const getClientIp = (ctx: ServerContext, req: IncomingMessage & { ip?: string }): string => {
+  if (req.ip) return req.ip;
+
+  const trust: (address: string, hop: number) => boolean = ctx.app.get('trust proxy fn');
+  const forwarded = String(req.headers?.['x-forwarded-for'] || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .reverse();
+  let address = req.socket?.remoteAddress;
+  for (let hop = 0; hop < forwarded.length && address && trust(address, hop); hop++) {
+    address = forwarded[hop];
+  }
+  return address || 'unknown';
+};
+
+export const getAttemptState = (ctx: ServerContext, attemptMap: Map<string, AttemptState>, ip: string): AttemptState => {
+  const now = ctx.now();
+  const existing = attemptMap.get(ip);
+
+  if (!existing || now > existing.resetTime) {
+    const freshState = {
+      attempts: 0,
+      resetTime: now + ctx.config.VERIFY_PASSWORD_WINDOW_MS,
+      lockUntil: 0,
+    };
+    attemptMap.set(ip, freshState);
+    return freshState;
+  }
+
+  return existing;
+};
+
+// Counts a failed attempt; returns true when it starts a lockout
+const recordFailedAttempt = (ctx: ServerContext, state: AttemptState, now: number): boolean => {
+  state.attempts += 1;
+  if (state.attempts < ctx.config.VERIFY_PASSWORD_MAX_ATTEMPTS) return false;
+  state.lockUntil = now + ctx.config.VERIFY_PASSWORD_LOCK_MS;
+  state.attempts = 0;
+  state.resetTime = now + ctx.config.VERIFY_PASSWORD_WINDOW_MS;
+  return true;
+};
+
+export const cleanupAttempts = (ctx: ServerContext): void => {
+  const now = ctx.now();
+  [ctx.verifyPasswordAttempts, ctx.roomPassphraseAttempts, ctx.adminAttempts].forEach((attemptMap) => {
+    attemptMap.forEach((state, ip) => {
+      if (now > state.resetTime && now > state.lockUntil) {
+        attemptMap.delete(ip);
+      }
+    });
+  });
+};
+
+const base64UrlEncode = (value: string | Buffer): string => Buffer.from(value)
+  .toString('base64')
+  .replace(/\+/g, '-')
+  .replace(/\//g, '_')
+  .replace(/=+$/g, '');
+
+const base64UrlDecode = (value: string): string => {
+  const normalized = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized.padEnd(normalized.length + ((4 - (normalized.length % 4)) % 4), '=');
+  return Buffer.from(padded, 'base64').toString('utf8');
+};
+
+export const timingSafeEqualString = (input: unknown, expected: unknown): boolean => {
+  if (typeof input !== 'string' || typeof expected !== 'string') {
+    return false;
+  }
+
+  const inputBuffer = Buffer.from(input);
+  const expectedBuffer = Buffer.from(expected);
+  if (inputBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(inputBuffer, expectedBuffer);
+};
+
+// ─── Upload tokens ───────────────────────────────────────────────────
+
+const signUploadToken = (secret: string, payload: string): string => base64UrlEncode(
+  crypto
+    .createHmac('sha256', secret)
+    .update(payload)
+    .digest(),
+);
+
+export const createUploadToken = (ctx: ServerContext): string | null => {
+  const secret = ctx.config.LARGE_FILE_PASSWORD;
+  if (!secret) return null;
+  const payload = base64UrlEncode(JSON.stringify({
+    exp: ctx.now() + ctx.config.UPLOAD_TOKEN_TTL_MS,
+    nonce: base64UrlEncode(crypto.randomBytes(16)),
+  }));
+
+  return `${payload}.${signUploadToken(secret, payload)}`;
+};
+
+export const isUploadTokenValid = (ctx: ServerContext, token: unknown): boolean => {
+  const secret = ctx.config.LARGE_FILE_PASSWORD;
+  if (!secret || typeof token !== 'string' || token.length > 512) {
+    return false;
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 2) {
+    return false;
+  }
+
+  const [payload, signature] = parts;
+  const expectedSignature = signUploadToken(secret, payload);
+  if (!timingSafeEqualString(signature, expectedSignature)) {
+    return false;
+  }
+
+  try {
+    const parsed = JSON.parse(base64UrlDecode(payload));
+    return Number.isSafeInteger(parsed.exp) && parsed.exp >= ctx.now();
+  } catch {
+    return false;
+  }
+};
+
+// ─── Room passphrases ────────────────────────────────────────────────
+
+/**
+ * The proof is a key stretched from the passphrase on the client; only its
+ * SHA-256 (the verifier) is stored, so a leaked room list reveals neither.
+ */
+export const isPassphraseProofValid = (verifier: string, proof: string): boolean => {
+  const hash = crypto.createHash('sha256').update(Buffer.from(proof, 'base64')).digest('hex');
+  return timingSafeEqualString(hash, verifier);
+};
+
+export const validatePassphrase = (passphrase: unknown): Validation => {
+  if (!passphrase || typeof passphrase !== 'object') {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid passphrase data' };
+  }
+  const { salt, verifier, proof } = passphrase as Partial<Record<keyof PassphraseProof, unknown>>;
+  if (typeof salt !== 'string' || !/^[A-Za-z0-9+/]{16,64}={0,2}$/.test(salt)) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid passphrase salt' };
+  }
+  if (typeof verifier !== 'string' || !/^[0-9a-f]{64}$/.test(verifier)) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid passphrase verifier' };
+  }
+  if (typeof proof !== 'string' || !/^[A-Za-z0-9+/]{16,88}={0,2}$/.test(proof)) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid passphrase proof' };
+  }
+  return { valid: true };
+};
+
+/**
+ * Checks a joining client's proof against a protected room, locking its IP
+ * out after repeated failures.  Reports the refusal itself.
+ */
+export const checkRoomPassphrase = (
+  ctx: ServerContext,
+  ws: RelaySocket,
+  roomId: string,
+  expected: RoomPassphrase,
+  passphrase: PassphraseProof | undefined,
+): boolean => {
+  const extra = { roomId, passphraseSalt: expected.salt };
+  if (!passphrase) {
+    sendError(ctx, ws, ERROR_CODES.PASSPHRASE_REQUIRED, 'This room requires a passphrase', extra);
+    return false;
+  }
+
+  const now = ctx.now();
+  const state = getAttemptState(ctx, ctx.roomPassphraseAttempts, ws.ip);
+  if (state.lockUntil > now) {
+    sendError(ctx, ws, ERROR_CODES.RATE_LIMITED, 'Too many failed attempts. Try again later.');
+    return false;
+  }
+
+  if (!isPassphraseProofValid(expected.verifier, passphrase.proof)) {
+    recordFailedAttempt(ctx, state, now);
+    ctx.log(LOG_LEVELS.WARN, 'Wrong room passphrase', { event: 'passphrase-rejected', roomId, clientId: ws.id, code: ERROR_CODES.INVALID_PASSPHRASE });
+    sendError(ctx, ws, ERROR_CODES.INVALID_PASSPHRASE, 'Incorrect passphrase', extra);
+    return false;
+  }
+
+  return true;
+};
+
+// ─── HTTP passwords ──────────────────────────────────────────────────
+
+/**
+ * Checks an upload password, issuing a token for large files on success.
+ * Answers the request itself.
+ */
+export const verifyUploadPassword = (ctx: ServerContext, req: Request, res: Response): void => {
+  const ip = getClientIp(ctx, req);
+  const now = ctx.now();
+  const state = getAttemptState(ctx, ctx.verifyPasswordAttempts, ip);
+
+  if (state.lockUntil > now) {
+    res.status(429).json({ valid: false, error: 'Too many failed attempts. Try again later.' });
+    return;
+  }
+
+  const { password } = req.body;
+  if (!ctx.config.LARGE_FILE_PASSWORD) {
+    res.status(500).json({ valid: false, error: 'LARGE_FILE_PASSWORD not configured on server' });
+    return;
+  }
+
+  if (!password || !timingSafeEqualString(password, ctx.config.LARGE_FILE_PASSWORD)) {
+    if (recordFailedAttempt(ctx, state, now)) {
+      res.status(429).json({ valid: false, error: 'Too many failed attempts. Try again later.' });
+      return;
+    }
+    res.status(401).json({ valid: false });
+    return;
+  }
+
+  ctx.verifyPasswordAttempts.delete(ip);
+  res.json({
+    valid: true,
+    uploadToken: createUploadToken(ctx),
+    expiresInMs: ctx.config.UPLOAD_TOKEN_TTL_MS,
+  });
+};
+
+/**
+ * Checks the Bearer token against ADMIN_PASSWORD, locking an IP out after
+ * repeated failures.  Answers the request itself when access is refused.
+ */
+export const checkAdminAuth = (ctx: ServerContext, req: Request, res: Response): boolean => {
+  if (!ctx.config.ADMIN_PASSWORD) {
+    res.status(404).json({ error: 'Admin API is disabled' });
+    return false;
+  }
+
+  const ip = getClientIp(ctx, req);
+  const now = ctx.now();
+  const state = getAttemptState(ctx, ctx.adminAttempts, ip);
+  if (state.lockUntil > now) {
+    res.status(429).json({ error: 'Too many failed attempts. Try again later.' });
+    return false;
+  }
+
+  const authHeader = req.headers['authorization'] || '';
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : '';
+  if (!timingSafeEqualString(token, ctx.config.ADMIN_PASSWORD)) {
+    recordFailedAttempt(ctx, state, now);
+    ctx.log(LOG_LEVELS.WARN, 'Rejected admin request', { event: 'admin-auth-failed', ip });
+    res.status(401).json({ error: 'Invalid admin password' });
+    return false;
+  }
+
+  ctx.adminAttempts.delete(ip);
+  return true;
+};
+
+// Basic Auth for /health and /metrics when HEALTH_PASSWORD is set; answers 401 itself
+export const checkHealthAuth = (ctx: ServerContext, req: Request, res: Response): boolean => {
+  if (!ctx.config.HEALTH_PASSWORD) return true;
+
+  const authHeader = req.headers['authorization'];
+  if (!authHeader || !authHeader.startsWith('Basic ')) {
+    res.setHeader('WWW-Authenticate', 'Basic realm="Health Check"');
+    res.status(401).json({ error: 'Authentication required' });
+    return false;
+  }
+  const decoded = Buffer.from(authHeader.slice(6), 'base64').toString('utf8');
+  // Accept any username; only the password matters
+  const password = decoded.includes(':') ? decoded.split(':').slice(1).join(':') : decoded;
+  if (!timingSafeEqualString(password, ctx.config.HEALTH_PASSWORD)) {
+    res.setHeader('WWW-Authenticate', 'Basic realm="Health Check"');
+    res.status(401).json({ error: 'Invalid credentials' });
+    return false;
+  }
+  return true;
+};
@@ -0,0 +1,346 @@
+// The backplane carries room traffic between relay nodes, one channel per
+// room.  Envelopes are plain objects; binary frames travel in their `frame`
+// field.  publish() resolves to the number of other nodes reached.
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import net from 'net';
+import type { ServerMessage } from '../client/src/protocol/messages';
+import type { RoomClient } from '../client/src/types';
+import type { ServerConfig } from './config';
+import { LOG_LEVELS, Logger } from './logging';
+import type { RoomPassphrase } from './types';
+
+export interface RoomSettings {
+  version: number;
+  ownerId: string | null;
+  locked: boolean;
+  knock: boolean;
+  passphrase: RoomPassphrase | null;
+}
+
+// A message for the room's members, or for one of them
+export interface RelayEnvelope {
+  kind: 'relay';
+  data: ServerMessage;
+  excludeId?: string;
+  targetId?: string;
+}
+
+export interface BinaryEnvelope {
+  kind: 'binary';
+  frame: Buffer;
+}
+
+// A node's members and its view of the room settings
+export interface MembersEnvelope {
+  kind: 'members';
+  members: RoomClient[];
+  settings?: RoomSettings;
+}
+
+// Asks the other nodes to announce their members
+export interface SyncEnvelope {
+  kind: 'sync';
+}
+
+// Owner and member actions aimed at a client on another node
+export interface ControlEnvelope {
+  kind: 'control';
+  action: 'kick' | 'join-response';
+  senderId: string;
+  targetId?: string;
+  requestId?: string;
+  approve?: boolean;
+}
+
+export type Envelope = RelayEnvelope | BinaryEnvelope | MembersEnvelope | SyncEnvelope | ControlEnvelope;
+
+// As delivered, stamped with the node that published it
+export type Received<E extends Envelope = Envelope> = E & { nodeId: string };
+
+export type EnvelopeHandler = (roomId: string, envelope: Received) => void;
+
+export interface Backplane {
+  nodeId: string;
+  subscribe: (roomId: string) => void;
+  unsubscribe: (roomId: string) => void;
+  publish: (roomId: string, envelope: Envelope) => Promise<number>;
+  onEnvelope: (handler: EnvelopeHandler) => void;
+  close: () => void;
+}
+
+/**
+ * Backplane for nodes in one process.  On its own it is a single node;
+ * servers given the same bus behave like separate nodes.
+ */
+export const createLocalBackplane = (bus: EventEmitter = new EventEmitter()): Backplane => {
+  const nodeId = crypto.randomUUID();
+  const listeners = new Map<string, (envelope: Received) => void>();
+  let handler: EnvelopeHandler = () => {};
+
+  bus.setMaxListeners(0);
+
+  return {
+    nodeId,
+    subscribe: (roomId) => {
+      if (listeners.has(roomId)) return;
+      const listener = (envelope: Received) => {
+        if (envelope.nodeId !== nodeId) handler(roomId, envelope);
+      };
+      listeners.set(roomId, listener);
+      bus.on(roomId, listener);
+    },
+    unsubscribe: (roomId) => {
+      const listener = listeners.get(roomId);
+      if (!listener) return;
+      bus.off(roomId, listener);
+      listeners.delete(roomId);
+    },
+    publish: async (roomId, envelope) => {
+      const receivers = bus.listenerCount(roomId) - (listeners.has(roomId) ? 1 : 0);
+      // Deliver on a later tick, as a network hop would
+      setImmediate(() => bus.emit(roomId, { ...envelope, nodeId }));
+      return receivers;
+    },
+    onEnvelope: (fn) => {
+      handler = fn;
+    },
+    close: () => {
+      listeners.forEach((listener, roomId) => bus.off(roomId, listener));
+      listeners.clear();
+    },
+  };
+};
+
+type RespValue = string | number | Buffer | Error | null | RespValue[];
+
+const encodeRespCommand = (args: Array<string | Buffer>): Buffer => {
+  const parts = [Buffer.from(`*${args.length}\r\n`)];
+  args.forEach((arg) => {
+    const bytes = Buffer.isBuffer(arg) ? arg : Buffer.from(String(arg));
+    parts.push(Buffer.from(`$${bytes.length}\r\n`), bytes, Buffer.from('\r\n'));
+  });
+  return Buffer.concat(parts);
+};
+
+/**
+ * Parses one RESP reply starting at `offset`.  Returns null while the reply
+ * is still incomplete.  Bulk strings stay Buffers so frames pass unchanged.
+ */
+const parseRespReply = (buffer: Buffer, offset: number): { value: RespValue; offset: number } | null => {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new Error(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.subarray(next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { value: null, offset: next };
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseRespReply(buffer, cursor);
+        if (!item) return null;
+        items.push(item.value);
+        cursor = item.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type "${type}"`);
+  }
+};
+
+interface RespClient {
+  command: (args: Array<string | Buffer>) => Promise<RespValue>;
+  close: () => void;
+}
+
+interface RespClientOptions {
+  reconnectDelay: number;
+  log: Logger;
+  onConnect?: (client: RespClient) => void;
+  onPush?: (channel: string, payload: Buffer) => void;
+}
+
+/**
+ * Minimal Redis-protocol connection: commands resolve in order, pub/sub
+ * 'message' pushes go to onPush, and the connection is re-opened (and
+ * onConnect re-run) whenever it drops.
+ */
+const createRespClient = (
+  url: string,
+  { reconnectDelay, log, onConnect = () => {}, onPush = () => {} }: RespClientOptions,
+): RespClient => {
+  const { hostname, port, username, password } = new URL(url);
+  const pending: Array<{ resolve: (value: RespValue) => void; reject: (error: Error) => void }> = [];
+  let socket: net.Socket | null = null;
+  let buffer = Buffer.alloc(0);
+  let closed = false;
+
+  const client: RespClient = {
+    command: (args) => new Promise((resolve, reject) => {
+      if (!socket || socket.destroyed) {
+        reject(new Error('Backplane is not connected'));
+        return;
+      }
+      pending.push({ resolve, reject });
+      socket.write(encodeRespCommand(args));
+    }),
+    close: () => {
+      closed = true;
+      socket?.end();
+    },
+  };
+
+  const handleReply = (value: RespValue) => {
+    if (Array.isArray(value) && Buffer.isBuffer(value[0]) && value[0].toString() === 'message') {
+      onPush(String(value[1]), value[2] as Buffer);
+      return;
+    }
+    const waiter = pending.shift();
+    if (!waiter) return;
+    if (value instanceof Error) {
+      waiter.reject(value);
+    } else {
+      waiter.resolve(value);
+    }
+  };
+
+  const connect = () => {
+    buffer = Buffer.alloc(0);
+    const connection = net.connect(Number(port) || 6379, hostname || '127.0.0.1');
+    socket = connection;
+    connection.on('connect', () => {
+      if (password) {
+        const credentials = username ? [decodeURIComponent(username), decodeURIComponent(password)] : [decodeURIComponent(password)];
+        client.command(['AUTH', ...credentials]).catch((error) => {
+          log(LOG_LEVELS.ERROR, 'Backplane authentication failed', { event: 'backplane-auth-failed', error });
+        });
+      }
+      onConnect(client);
+    });
+    connection.on('data', (chunk: Buffer) => {
+      buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+      let reply;
+      while (buffer.length > 0 && (reply = parseRespReply(buffer, 0))) {
+        buffer = buffer.subarray(reply.offset);
+        handleReply(reply.value);
+      }
+    });
+    connection.on('error', (error) => {
+      log(LOG_LEVELS.WARN, 'Backplane connection failed', { event: 'backplane-connect-failed', host: `${hostname}:${port || 6379}`, error });
+    });
+    connection.on('close', () => {
+      pending.splice(0).forEach(({ reject }) => reject(new Error('Backplane connection closed')));
+      if (!closed) {
+        setTimeout(connect, reconnectDelay);
+      }
+    });
+  };
+
+  connect();
+  return client;
+};
+
+// An envelope on the wire: 4-byte header length, JSON header, then the raw frame
+const encodeEnvelope = (envelope: Received): Buffer => {
+  const { frame, ...header } = envelope as Received & { frame?: Buffer };
+  const json = Buffer.from(JSON.stringify(header));
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(json.length);
+  return Buffer.concat([length, json, frame || Buffer.alloc(0)]);
+};
+
+const decodeEnvelope = (payload: Buffer): Received | null => {
+  try {
+    const headerLength = payload.readUInt32BE(0);
+    const envelope = JSON.parse(payload.toString('utf8', 4, 4 + headerLength));
+    const frame = payload.subarray(4 + headerLength);
+    return frame.length > 0 ? { ...envelope, frame } : envelope;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Backplane over Redis pub/sub (or anything speaking its protocol), for
+ * nodes in separate processes or machines.
+ */
+export const createRedisBackplane = (url: string, prefix: string, reconnectDelay: number, log: Logger): Backplane => {
+  const nodeId = crypto.randomUUID();
+  const channels = new Set<string>();
+  let handler: EnvelopeHandler = () => {};
+
+  const subscriber = createRespClient(url, {
+    reconnectDelay,
+    log,
+    onConnect: (client) => {
+      if (channels.size > 0) {
+        client.command(['SUBSCRIBE', ...Array.from(channels, roomId => prefix + roomId)]).catch(() => {});
+      }
+    },
+    onPush: (channel, payload) => {
+      const envelope = decodeEnvelope(payload);
+      if (envelope && envelope.nodeId !== nodeId && channel.startsWith(prefix)) {
+        handler(channel.slice(prefix.length), envelope);
+      }
+    },
+  });
+  const publisher = createRespClient(url, { reconnectDelay, log });
+
+  return {
+    nodeId,
+    subscribe: (roomId) => {
+      if (channels.has(roomId)) return;
+      channels.add(roomId);
+      subscriber.command(['SUBSCRIBE', prefix + roomId]).catch(() => {});
+    },
+    unsubscribe: (roomId) => {
+      if (!channels.delete(roomId)) return;
+      subscriber.command(['UNSUBSCRIBE', prefix + roomId]).catch(() => {});
+    },
+    publish: async (roomId, envelope) => {
+      try {
+        const receivers = Number(await publisher.command(['PUBLISH', prefix + roomId, encodeEnvelope({ ...envelope, nodeId })]));
+        return Math.max(0, receivers - (channels.has(roomId) ? 1 : 0));
+      } catch (error) {
+        log(LOG_LEVELS.WARN, 'Backplane publish failed', { event: 'backplane-publish-failed', roomId, error });
+        return 0;
+      }
+    },
+    onEnvelope: (fn) => {
+      handler = fn;
+    },
+    close: () => {
+      subscriber.close();
+      publisher.close();
+    },
+  };
+};
+
+export const createBackplane = (config: ServerConfig, log: Logger): Backplane => {
+  switch (config.BACKPLANE) {
+    case 'local':
+      return createLocalBackplane();
+    case 'redis':
+      return createRedisBackplane(config.BACKPLANE_URL, config.BACKPLANE_CHANNEL_PREFIX, config.BACKPLANE_RECONNECT_DELAY, log);
+    default:
+      throw new Error(`Unknown BACKPLANE "${config.BACKPLANE}". Use "local" or "redis".`);
+  }
+};
@@ -0,0 +1,187 @@
+// Multi-node rooms.  Each node holds the rooms its own clients are in.
+// Nodes sharing a room announce their members (and the room settings they
+// know) on the room's backplane channel whenever they change and on every
+// heartbeat, so every node can send the same room-update.  Members not
+// heard of for a few heartbeats are dropped, which covers a node that died.
+
+import type { ControlEnvelope, MembersEnvelope, Received } from './backplane';
+import { handleLeave } from './handlers';
+import { resolveJoinRequest } from './joinApproval';
+import { LOG_LEVELS } from './logging';
+import { broadcastToLocalClients, sendJsonToClient, sendMessage } from './relay';
+import {
+  createRoomState, ensureRoomOwner, getLocalMemberList, getRoomUpdate, sendRoomUpdate, trackRoom,
+} from './rooms';
+import type { Room, RoomSync, ServerContext } from './types';
+
+export const announceMembers = (ctx: ServerContext, roomId: string, room: Room): void => {
+  ctx.backplane.publish(roomId, {
+    kind: 'members',
+    members: getLocalMemberList(room),
+    settings: {
+      version: room.settingsVersion,
+      ownerId: room.ownerId,
+      locked: room.locked,
+      knock: room.knock,
+      passphrase: room.passphrase,
+    },
+  });
+};
+
+const applyRemoteMembers = (ctx: ServerContext, room: Room, { nodeId, members, settings }: Received<MembersEnvelope>): boolean => {
+  if (!Array.isArray(members)) return false;
+  const now = ctx.now();
+  let changed = false;
+
+  room.remoteClients.forEach((member, id) => {
+    if (member.nodeId === nodeId && !members.some(m => m.id === id)) {
+      room.remoteClients.delete(id);
+      changed = true;
+    }
+  });
+  members.forEach((member) => {
+    if (typeof member?.id !== 'string' || room.clients.has(member.id)) return;
+    if (!room.remoteClients.has(member.id)) changed = true;
+    room.remoteClients.set(member.id, {
+      id: member.id,
+      publicKey: member.publicKey,
+      identity: member.identity,
+      nodeId,
+      seenAt: now,
+    });
+  });
+
+  // A passphrase is fixed when the room is made, so it is taken whatever the version
+  if (settings?.passphrase && !room.passphrase) {
+    room.passphrase = settings.passphrase;
+  }
+  if (settings && settings.version > room.settingsVersion) {
+    room.settingsVersion = settings.version;
+    room.ownerId = settings.ownerId ?? null;
+    room.locked = !!settings.locked;
+    room.knock = !!settings.knock;
+    changed = true;
+  }
+  return changed;
+};
+
+export const expireRemoteMembers = (ctx: ServerContext, roomId: string, room: Room): void => {
+  const cutoff = ctx.now() - 3 * ctx.config.HEARTBEAT_INTERVAL;
+  let changed = false;
+  room.remoteClients.forEach((member, id) => {
+    if (member.seenAt < cutoff) {
+      ctx.log(LOG_LEVELS.WARN, 'Dropping member of a quiet node', { event: 'remote-member-expired', roomId, clientId: id, nodeId: member.nodeId });
+      room.remoteClients.delete(id);
+      changed = true;
+    }
+  });
+  if (changed) {
+    ensureRoomOwner(ctx, room);
+    sendRoomUpdate(ctx, roomId, room);
+  }
+};
+
+/**
+ * Before a join creates a room this node doesn't have, asks the other
+ * nodes whether it exists elsewhere, so the lock, passphrase and members
+ * are known before anyone is admitted.
+ */
+export const syncRoomFromBackplane = async (ctx: ServerContext, roomId: string): Promise<void> => {
+  if (ctx.rooms.has(roomId)) return;
+  const waiting = ctx.roomSyncs.get(roomId);
+  if (waiting) {
+    await waiting.promise;
+    return;
+  }
+
+  let finish = () => {};
+  const promise = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  const sync: RoomSync = { replies: [], expected: null, finish, promise };
+  ctx.roomSyncs.set(roomId, sync);
+  ctx.backplane.subscribe(roomId);
+
+  const timer = setTimeout(sync.finish, ctx.config.BACKPLANE_SYNC_TIMEOUT);
+  sync.expected = await ctx.backplane.publish(roomId, { kind: 'sync' });
+  if (sync.replies.length >= sync.expected) sync.finish();
+  await sync.promise;
+  clearTimeout(timer);
+  ctx.roomSyncs.delete(roomId);
+
+  if (ctx.rooms.has(roomId)) return;
+  if (sync.replies.length === 0) {
+    ctx.backplane.unsubscribe(roomId);
+    return;
+  }
+  const room = createRoomState(ctx);
+  sync.replies.forEach(reply => applyRemoteMembers(ctx, room, reply));
+  trackRoom(ctx, roomId, room);
+};
+
+// A room synced for a join that then failed is of no use to this node
+export const releaseRemoteRoom = (ctx: ServerContext, roomId: string): void => {
+  const room = ctx.rooms.get(roomId);
+  if (room && room.clients.size === 0 && room.pending.size === 0 && room.remoteClients.size > 0) {
+    ctx.rooms.delete(roomId);
+    ctx.backplane.unsubscribe(roomId);
+  }
+};
+
+// Owner and member actions whose target is connected to this node
+const handleRemoteControl = (ctx: ServerContext, roomId: string, room: Room, envelope: ControlEnvelope): void => {
+  if (envelope.action === 'kick') {
+    const target = envelope.targetId ? room.clients.get(envelope.targetId) : undefined;
+    if (!target) return;
+    ctx.log(LOG_LEVELS.INFO, 'Client removed by owner', { event: 'client-kicked', roomId, clientId: target.ws.id, ownerId: envelope.senderId });
+    sendMessage(ctx, target.ws, { type: 'kicked', roomId });
+    handleLeave(ctx, target.ws);
+  } else if (envelope.action === 'join-response' && envelope.requestId) {
+    resolveJoinRequest(ctx, roomId, room, envelope.requestId, !!envelope.approve, envelope.senderId);
+  }
+};
+
+export const handleBackplaneEnvelope = (ctx: ServerContext, roomId: string, envelope: Received): void => {
+  const room = ctx.rooms.get(roomId);
+  if (!room) {
+    const sync = ctx.roomSyncs.get(roomId);
+    if (sync && envelope.kind === 'members') {
+      sync.replies.push(envelope);
+      if (sync.expected !== null && sync.replies.length >= sync.expected) sync.finish();
+    }
+    return;
+  }
+
+  switch (envelope.kind) {
+    case 'sync':
+      announceMembers(ctx, roomId, room);
+      break;
+    case 'members':
+      if (applyRemoteMembers(ctx, room, envelope)) {
+        broadcastToLocalClients(ctx, roomId, room, JSON.stringify(getRoomUpdate(roomId, room)));
+      }
+      break;
+    case 'relay':
+      room.lastActivity = ctx.now();
+      if (envelope.targetId) {
+        const target = room.clients.get(envelope.targetId);
+        if (target) sendJsonToClient(ctx, target.ws, envelope.data, roomId);
+      } else {
+        broadcastToLocalClients(ctx, roomId, room, JSON.stringify(envelope.data), envelope.excludeId);
+      }
+      break;
+    case 'binary':
+      room.lastActivity = ctx.now();
+      if (Buffer.isBuffer(envelope.frame)) {
+        broadcastToLocalClients(ctx, roomId, room, envelope.frame, null, { binary: true });
+      }
+      break;
+    case 'control':
+      handleRemoteControl(ctx, roomId, room, envelope);
+      break;
+    default:
+      ctx.log(LOG_LEVELS.DEBUG, 'Ignoring backplane envelope', {
+        event: 'backplane-envelope-ignored', roomId, kind: (envelope as { kind?: unknown }).kind,
+      });
+  }
+};
@@ -0,0 +1,248 @@
+// Server configuration, read from the environment (and .env) at startup.
+// loadConfig() throws on settings the server can't run with, so a bad
+// deploy fails before it takes any traffic.
+
+import path from 'path';
+
+export const ONE_MIB = 1024 * 1024;
+
+// The repository root, as seen from the compiled server in dist/server
+const ROOT_DIR = path.join(__dirname, '..', '..');
+
+export type RoomIdFormat = 'chars' | 'words';
+export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+export type RedactableLogField = 'fileName' | 'ip';
+
+export interface ServerConfig {
+  PORT: number | string;
+  IS_PRODUCTION: boolean;
+  TRUST_PROXY: string | undefined; // Express 'trust proxy' setting, see applyTrustProxy
+  CLIENT_BUILD_PATH: string; // The React build served as static files
+
+  // Secrets (loaded from .env)
+  LARGE_FILE_PASSWORD: string | undefined;
+  HEALTH_PASSWORD: string | undefined;
+  ADMIN_PASSWORD: string | undefined; // Enables the admin API and page; unset disables them
+  ALLOWED_ORIGINS: string[];
+  VERIFY_PASSWORD_MAX_ATTEMPTS: number;
+  VERIFY_PASSWORD_WINDOW_MS: number;
+  VERIFY_PASSWORD_LOCK_MS: number;
+
+  // Room settings
+  MAX_ROOM_SIZE: number;
+  MAX_PENDING_JOINS: number; // Knocking clients waiting for approval, per room
+  MAX_USER_AGENT_LENGTH: number;
+  MAX_ROOM_INACTIVITY: number;
+  INACTIVE_ROOM_CHECK_INTERVAL: number;
+  ROOM_STATUS_INTERVAL: number;
+  ROOM_ID_FORMAT: RoomIdFormat; // 'words' gives IDs like amber-tiger-cedar-42
+  ROOM_ID_LENGTH: number;
+  ROOM_ID_ALPHABET: string;
+  ROOM_ID_WORD_COUNT: number;
+
+  // Room persistence (the server only ever holds ciphertext)
+  ROOM_STORE: string; // 'memory' or 'file'
+  ROOM_STORE_PATH: string;
+  ROOM_STORE_FLUSH_DELAY: number; // Batches writes to the file store
+  CLIP_BUFFER_SIZE: number; // Recent encrypted text clips kept per room
+  MAX_BUFFERED_CLIP_BYTES: number; // Larger clips are relayed but not kept
+  MAX_CLIP_SYNC_ENTRIES: number; // Clip ids per manifest or request in peer catch-up
+
+  // Multi-node relay
+  BACKPLANE: string; // 'local' (one process) or 'redis'
+  BACKPLANE_URL: string;
+  BACKPLANE_CHANNEL_PREFIX: string;
+  BACKPLANE_SYNC_TIMEOUT: number; // How long a join waits for other nodes to describe a room
+  BACKPLANE_RECONNECT_DELAY: number;
+
+  // Rate limiting
+  MESSAGE_RATE_LIMIT: number; // Messages per window
+  RATE_LIMIT_WINDOW: number;
+
+  // Quotas per source IP and per room, on top of the per-socket rate limit
+  MAX_CONNECTIONS_PER_IP: number;
+  MAX_ROOMS_PER_IP_PER_HOUR: number;
+  MAX_BYTES_PER_IP_PER_DAY: number;
+  MAX_ROOM_BYTES_PER_HOUR: number;
+  MAX_ROOM_CONCURRENT_TRANSFERS: number; // Relayed transfers only
+
+  // File transfer limits
+  MAX_FILE_SIZE: number;
+  LARGE_FILE_PASSWORD_THRESHOLD: number;
+  FILE_SIZE_ENFORCEMENT_GRACE_BYTES: number;
+  MAX_FILENAME_LENGTH: number;
+  MAX_FILE_ID_LENGTH: number;
+  MAX_TOTAL_CHUNKS: number;
+  UPLOAD_TOKEN_TTL_MS: number;
+
+  // WebSocket settings
+  WS_MAX_PAYLOAD: number;
+  WS_SEND_BUFFER_HIGH_WATER: number;
+  HEARTBEAT_INTERVAL: number;
+  SESSION_RESUME_GRACE: number; // Dropped members keep their place this long
+  SHUTDOWN_DRAIN_TIMEOUT: number; // Longest wait for relayed transfers
+  SHUTDOWN_DRAIN_POLL_INTERVAL: number;
+  RECONNECT_AFTER_MS: number; // Hinted delay before clients reconnect
+  RECONNECT_JITTER_MS: number; // Spreads the reconnects out
+  SHUTDOWN_CLOSE_GRACE: number; // Time for close handshakes before sockets are terminated
+  HTTP_JSON_LIMIT: string;
+  MAX_SIGNAL_BYTES: number; // One SDP offer or ICE candidate
+  MAX_DEVICE_NAME_LENGTH: number;
+  MAX_IDENTITY_BYTES: number; // Identity public key, signature and device name
+
+  // Logging
+  LOG_LEVEL: LogLevel;
+  LOG_FORMAT: 'json' | 'text'; // 'json' writes one object per line
+  LOG_TIME_ZONE: string;
+  LOG_REDACT: RedactableLogField[]; // Log fields replaced by '[redacted]'
+}
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+};
+
+const splitList = (value: string): string[] => value
+  .split(',')
+  .map((entry) => entry.trim())
+  .filter(Boolean);
+
+const isPlaceholderSecret = (secret: string | undefined): boolean => typeof secret === 'string' && /^CHANGE_ME/i.test(secret);
+
+/**
+ * Throws on a setting the server can't run with.  Production additionally
+ * needs real secrets and an origin allow-list.
+ */
+export const validateConfig = (config: ServerConfig): void => {
+  if (!['DEBUG', 'INFO', 'WARN', 'ERROR'].includes(config.LOG_LEVEL)) {
+    throw new Error('LOG_LEVEL must be debug, info, warn or error.');
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: config.LOG_TIME_ZONE });
+  } catch {
+    throw new Error('LOG_TIME_ZONE must be an IANA time zone such as UTC or Europe/Sofia.');
+  }
+
+  if (config.LOG_REDACT.some((field) => !['fileName', 'ip'].includes(field))) {
+    throw new Error('LOG_REDACT may only list fileName and ip.');
+  }
+
+  if (!/^[A-Z0-9]{2,}$/.test(config.ROOM_ID_ALPHABET)
+    || new Set(config.ROOM_ID_ALPHABET).size !== config.ROOM_ID_ALPHABET.length) {
+    throw new Error('ROOM_ID_ALPHABET must be at least two distinct letters or digits.');
+  }
+
+  if (config.ROOM_ID_LENGTH < 6 || config.ROOM_ID_LENGTH > 32) {
+    throw new Error('ROOM_ID_LENGTH must be between 6 and 32.');
+  }
+
+  if (config.ROOM_ID_WORD_COUNT < 2 || config.ROOM_ID_WORD_COUNT > 6) {
+    throw new Error('ROOM_ID_WORD_COUNT must be between 2 and 6.');
+  }
+
+  if (config.IS_PRODUCTION && !config.HEALTH_PASSWORD) {
+    throw new Error('HEALTH_PASSWORD is required in production.');
+  }
+
+  if (config.IS_PRODUCTION && isPlaceholderSecret(config.HEALTH_PASSWORD)) {
+    throw new Error('HEALTH_PASSWORD must be changed before production startup.');
+  }
+
+  if (config.IS_PRODUCTION && isPlaceholderSecret(config.LARGE_FILE_PASSWORD)) {
+    throw new Error('LARGE_FILE_PASSWORD must be changed before production startup.');
+  }
+
+  if (config.IS_PRODUCTION && isPlaceholderSecret(config.ADMIN_PASSWORD)) {
+    throw new Error('ADMIN_PASSWORD must be changed before production startup.');
+  }
+
+  if (config.IS_PRODUCTION && config.ALLOWED_ORIGINS.length === 0) {
+    throw new Error('ALLOWED_ORIGINS is required in production.');
+  }
+};
+
+/**
+ * Builds and validates the configuration from environment variables.
+ * Tests pass their own `env` to get a server with different limits.
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const isProduction = env.NODE_ENV === 'production';
+  const config: ServerConfig = {
+    PORT: env.PORT || 3000,
+    IS_PRODUCTION: isProduction,
+    TRUST_PROXY: env.TRUST_PROXY,
+    CLIENT_BUILD_PATH: path.join(ROOT_DIR, 'client/build'),
+
+    LARGE_FILE_PASSWORD: env.LARGE_FILE_PASSWORD,
+    HEALTH_PASSWORD: env.HEALTH_PASSWORD,
+    ADMIN_PASSWORD: env.ADMIN_PASSWORD,
+    ALLOWED_ORIGINS: splitList(env.ALLOWED_ORIGINS || ''),
+    VERIFY_PASSWORD_MAX_ATTEMPTS: Number(env.VERIFY_PASSWORD_MAX_ATTEMPTS || 5),
+    VERIFY_PASSWORD_WINDOW_MS: Number(env.VERIFY_PASSWORD_WINDOW_MS || 5 * 60 * 1000),
+    VERIFY_PASSWORD_LOCK_MS: Number(env.VERIFY_PASSWORD_LOCK_MS || 10 * 60 * 1000),
+
+    MAX_ROOM_SIZE: 10,
+    MAX_PENDING_JOINS: 10,
+    MAX_USER_AGENT_LENGTH: 256,
+    MAX_ROOM_INACTIVITY: 60 * 60 * 1000, // 1 hour
+    INACTIVE_ROOM_CHECK_INTERVAL: 60 * 1000, // 1 minute
+    ROOM_STATUS_INTERVAL: 5 * 60 * 1000, // 5 minutes
+    ROOM_ID_FORMAT: env.ROOM_ID_FORMAT === 'words' ? 'words' : 'chars',
+    ROOM_ID_LENGTH: parsePositiveInt(env.ROOM_ID_LENGTH, 10),
+    ROOM_ID_ALPHABET: (env.ROOM_ID_ALPHABET || 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789').toUpperCase(), // No 0/O or 1/I
+    ROOM_ID_WORD_COUNT: parsePositiveInt(env.ROOM_ID_WORD_COUNT, 3),
+
+    ROOM_STORE: env.ROOM_STORE || 'memory',
+    ROOM_STORE_PATH: env.ROOM_STORE_PATH || path.join(ROOT_DIR, 'data', 'rooms.json'),
+    ROOM_STORE_FLUSH_DELAY: 1000,
+    CLIP_BUFFER_SIZE: parsePositiveInt(env.CLIP_BUFFER_SIZE, 20),
+    MAX_BUFFERED_CLIP_BYTES: parsePositiveInt(env.MAX_BUFFERED_CLIP_BYTES, 256 * 1024),
+    MAX_CLIP_SYNC_ENTRIES: 50,
+
+    BACKPLANE: env.BACKPLANE || 'local',
+    BACKPLANE_URL: env.BACKPLANE_URL || 'redis://127.0.0.1:6379',
+    BACKPLANE_CHANNEL_PREFIX: env.BACKPLANE_CHANNEL_PREFIX || 'instant-paste:room:',
+    BACKPLANE_SYNC_TIMEOUT: 500,
+    BACKPLANE_RECONNECT_DELAY: 1000,
+
+    MESSAGE_RATE_LIMIT: parsePositiveInt(env.MESSAGE_RATE_LIMIT, 100),
+    RATE_LIMIT_WINDOW: parsePositiveInt(env.RATE_LIMIT_WINDOW_MS, 1000), // 1 second
+
+    MAX_CONNECTIONS_PER_IP: parsePositiveInt(env.MAX_CONNECTIONS_PER_IP, 20),
+    MAX_ROOMS_PER_IP_PER_HOUR: parsePositiveInt(env.MAX_ROOMS_PER_IP_PER_HOUR, 30),
+    MAX_BYTES_PER_IP_PER_DAY: parsePositiveInt(env.MAX_BYTES_PER_IP_PER_DAY, 20 * 1024 * ONE_MIB), // 20GB
+    MAX_ROOM_BYTES_PER_HOUR: parsePositiveInt(env.MAX_ROOM_BYTES_PER_HOUR, 10 * 1024 * ONE_MIB), // 10GB
+    MAX_ROOM_CONCURRENT_TRANSFERS: parsePositiveInt(env.MAX_ROOM_CONCURRENT_TRANSFERS, 8),
+
+    MAX_FILE_SIZE: parsePositiveInt(env.MAX_FILE_SIZE_BYTES, 1024 * ONE_MIB), // 1GB
+    LARGE_FILE_PASSWORD_THRESHOLD: parsePositiveInt(env.LARGE_FILE_PASSWORD_THRESHOLD_BYTES, 150 * ONE_MIB),
+    FILE_SIZE_ENFORCEMENT_GRACE_BYTES: parsePositiveInt(env.FILE_SIZE_ENFORCEMENT_GRACE_BYTES, ONE_MIB),
+    MAX_FILENAME_LENGTH: parsePositiveInt(env.MAX_FILENAME_LENGTH, 255),
+    MAX_FILE_ID_LENGTH: parsePositiveInt(env.MAX_FILE_ID_LENGTH, 128),
+    MAX_TOTAL_CHUNKS: parsePositiveInt(env.MAX_TOTAL_CHUNKS, 4096),
+    UPLOAD_TOKEN_TTL_MS: parsePositiveInt(env.UPLOAD_TOKEN_TTL_MS, 30 * 60 * 1000),
+
+    WS_MAX_PAYLOAD: parsePositiveInt(env.WS_MAX_PAYLOAD_BYTES, 8 * ONE_MIB), // Supports 4MB chunks plus encrypted overhead
+    WS_SEND_BUFFER_HIGH_WATER: parsePositiveInt(env.WS_SEND_BUFFER_HIGH_WATER, 64 * ONE_MIB),
+    HEARTBEAT_INTERVAL: 30000, // 30 seconds
+    SESSION_RESUME_GRACE: parsePositiveInt(env.SESSION_RESUME_GRACE_MS, 15 * 1000),
+    SHUTDOWN_DRAIN_TIMEOUT: parsePositiveInt(env.SHUTDOWN_DRAIN_TIMEOUT_MS, 30 * 1000),
+    SHUTDOWN_DRAIN_POLL_INTERVAL: 250,
+    RECONNECT_AFTER_MS: parsePositiveInt(env.RECONNECT_AFTER_MS, 3000),
+    RECONNECT_JITTER_MS: parsePositiveInt(env.RECONNECT_JITTER_MS, 2000),
+    SHUTDOWN_CLOSE_GRACE: 1000,
+    HTTP_JSON_LIMIT: env.HTTP_JSON_LIMIT || '16kb',
+    MAX_SIGNAL_BYTES: parsePositiveInt(env.MAX_SIGNAL_BYTES, 16 * 1024),
+    MAX_DEVICE_NAME_LENGTH: parsePositiveInt(env.MAX_DEVICE_NAME_LENGTH, 64),
+    MAX_IDENTITY_BYTES: 2048,
+
+    LOG_LEVEL: (env.LOG_LEVEL || 'info').toUpperCase() as LogLevel, // Checked by validateConfig
+    LOG_FORMAT: env.LOG_FORMAT === 'json' ? 'json' : 'text',
+    LOG_TIME_ZONE: env.LOG_TIME_ZONE || 'UTC',
+    LOG_REDACT: splitList(env.LOG_REDACT ?? (isProduction ? 'fileName,ip' : '')) as RedactableLogField[],
+  };
+
+  validateConfig(config);
+  return config;
+};
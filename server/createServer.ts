@@ -0,0 +1,150 @@
+// Builds one relay: its state, the HTTP and WebSocket servers, and the
+// timers that keep rooms tidy.  Nothing here touches the process, so tests
+// can start several servers side by side and stop them again.
+
+import express from 'express';
+import http from 'http';
+import WebSocket from 'ws';
+import { cleanupAttempts } from './auth';
+import { Backplane, createBackplane } from './backplane';
+import { handleBackplaneEnvelope } from './cluster';
+import type { ServerConfig } from './config';
+import { createLogger, LOG_LEVELS } from './logging';
+import { createMetrics } from './metrics';
+import { cleanupIpQuotas } from './quotas';
+import { sendMessage } from './relay';
+import { closeRoom, logRoomStatus, restoreRooms } from './rooms';
+import { createRoomStore, RoomStore } from './roomStore';
+import { registerRoutes } from './routes';
+import { countRelayedTransfers } from './transfers';
+import type { RelaySocket, ServerContext } from './types';
+import { handleConnection, handleUpgrade, runHeartbeat } from './wsDispatch';
+
+export interface ServerOptions {
+  backplane?: Backplane; // Defaults to the one config.BACKPLANE names
+  roomStore?: RoomStore; // Defaults to the one config.ROOM_STORE names
+  now?: () => number; // Defaults to Date.now; tests pass a clock they can move forward
+}
+
+export interface RelayServer {
+  ctx: ServerContext;
+  server: http.Server;
+  listen: (port?: number | string) => Promise<number>; // Resolves with the bound port
+  shutdown: (signal: string) => Promise<void>;
+}
+
+const closeInactiveRooms = (ctx: ServerContext): void => {
+  const now = ctx.now();
+  ctx.rooms.forEach((room, roomId) => {
+    if (now - room.lastActivity > ctx.config.MAX_ROOM_INACTIVITY) {
+      ctx.log(LOG_LEVELS.INFO, 'Closing inactive room', { event: 'room-expired', roomId });
+      closeRoom(ctx, roomId, room, 'inactivity');
+    }
+  });
+};
+
+// Resolves once no relayed transfer is left or the drain timeout passes
+const waitForTransfersToDrain = (ctx: ServerContext): Promise<void> => {
+  const deadline = ctx.now() + ctx.config.SHUTDOWN_DRAIN_TIMEOUT;
+  return new Promise((resolve) => {
+    const check = () => {
+      if (countRelayedTransfers(ctx) === 0 || ctx.now() >= deadline) {
+        resolve();
+      } else {
+        setTimeout(check, ctx.config.SHUTDOWN_DRAIN_POLL_INTERVAL);
+      }
+    };
+    check();
+  });
+};
+
+export const createServer = (config: ServerConfig, options: ServerOptions = {}): RelayServer => {
+  const log = createLogger(config);
+  const now = options.now ?? Date.now;
+  const app = express();
+  const server = http.createServer(app);
+  const wss = new WebSocket.Server({
+    noServer: true,
+    maxPayload: config.WS_MAX_PAYLOAD,
+    perMessageDeflate: false,
+  });
+
+  const ctx: ServerContext = {
+    config,
+    now,
+    log,
+    metrics: createMetrics(now()),
+    app,
+    wss,
+    roomStore: options.roomStore ?? createRoomStore(config, log),
+    backplane: options.backplane ?? createBackplane(config, log),
+    rooms: new Map(),
+    messageCounters: new Map(),
+    verifyPasswordAttempts: new Map(),
+    roomPassphraseAttempts: new Map(),
+    adminAttempts: new Map(),
+    ipQuotas: new Map(),
+    sessions: new Map(),
+    roomSyncs: new Map(),
+    isShuttingDown: false,
+  };
+
+  registerRoutes(ctx);
+  server.on('upgrade', (request, socket, head) => handleUpgrade(ctx, request, socket, head));
+  wss.on('connection', (ws, request) => handleConnection(ctx, ws as RelaySocket, request));
+  ctx.backplane.onEnvelope((roomId, envelope) => handleBackplaneEnvelope(ctx, roomId, envelope));
+
+  const intervals = [
+    setInterval(() => runHeartbeat(ctx), config.HEARTBEAT_INTERVAL),
+    setInterval(() => cleanupAttempts(ctx), 60 * 1000),
+    setInterval(() => cleanupIpQuotas(ctx), 60 * 1000),
+    setInterval(() => closeInactiveRooms(ctx), config.INACTIVE_ROOM_CHECK_INTERVAL),
+    setInterval(() => logRoomStatus(ctx), config.ROOM_STATUS_INTERVAL),
+  ];
+  wss.on('close', () => intervals.forEach(clearInterval));
+
+  restoreRooms(ctx);
+
+  const listen = (port: number | string = config.PORT): Promise<number> => new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => {
+      server.off('error', reject);
+      const address = server.address();
+      resolve(typeof address === 'object' && address ? address.port : Number(port));
+    });
+  });
+
+  // Stops taking connections and new file transfers, lets running transfers
+  // finish, then asks every client to come back once the replacement is up
+  const shutdown = async (signal: string): Promise<void> => {
+    if (ctx.isShuttingDown) return;
+    ctx.isShuttingDown = true;
+    log(LOG_LEVELS.INFO, `${signal} received, draining`, { event: 'stopping', transfers: countRelayedTransfers(ctx) });
+
+    server.close(() => {
+      log(LOG_LEVELS.INFO, 'Server closed', { event: 'stopped' });
+    });
+
+    await waitForTransfersToDrain(ctx);
+    const abandoned = countRelayedTransfers(ctx);
+    if (abandoned > 0) {
+      log(LOG_LEVELS.WARN, 'Drain timed out, cancelling remaining transfers', { event: 'drain-timeout', transfers: abandoned });
+    }
+
+    // Persist rooms before the sockets close, as leaving empties them
+    ctx.roomStore.close();
+
+    wss.clients.forEach((ws) => {
+      const delay = config.RECONNECT_AFTER_MS + Math.floor(Math.random() * config.RECONNECT_JITTER_MS);
+      sendMessage(ctx, ws as RelaySocket, { type: 'reconnect-after', delay });
+      ws.close(1012, 'Server restarting');
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, config.SHUTDOWN_CLOSE_GRACE));
+    wss.clients.forEach((ws) => ws.terminate());
+    wss.close();
+    ctx.backplane.close();
+  };
+
+  return { ctx, server, listen, shutdown };
+};
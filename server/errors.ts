@@ -0,0 +1,35 @@
+// Codes carried by 'error' messages.  The client matches on these, so they
+// never change once shipped.
+
+export const ERROR_CODES = {
+  ROOM_NOT_FOUND: 'ROOM_NOT_FOUND',
+  ROOM_FULL: 'ROOM_FULL',
+  ROOM_ID_REQUIRED: 'ROOM_ID_REQUIRED',
+  INVALID_ROOM_ID: 'INVALID_ROOM_ID',
+  NOT_IN_ROOM: 'NOT_IN_ROOM',
+  RATE_LIMITED: 'RATE_LIMITED',
+  INVALID_FILE_ID: 'INVALID_FILE_ID',
+  FILE_TOO_LARGE: 'FILE_TOO_LARGE',
+  LARGE_FILE_AUTH_REQUIRED: 'LARGE_FILE_AUTH_REQUIRED',
+  FILE_TRANSFER_REQUIRED: 'FILE_TRANSFER_REQUIRED',
+  INVALID_FILENAME: 'INVALID_FILENAME',
+  INVALID_MESSAGE: 'INVALID_MESSAGE',
+  ROOM_LOCKED: 'ROOM_LOCKED',
+  NOT_ROOM_OWNER: 'NOT_ROOM_OWNER',
+  PASSPHRASE_REQUIRED: 'PASSPHRASE_REQUIRED',
+  INVALID_PASSPHRASE: 'INVALID_PASSPHRASE',
+  TOO_MANY_CONNECTIONS: 'TOO_MANY_CONNECTIONS',
+  ROOM_CREATION_QUOTA_EXCEEDED: 'ROOM_CREATION_QUOTA_EXCEEDED',
+  IP_BYTE_QUOTA_EXCEEDED: 'IP_BYTE_QUOTA_EXCEEDED',
+  ROOM_BYTE_QUOTA_EXCEEDED: 'ROOM_BYTE_QUOTA_EXCEEDED',
+  TOO_MANY_TRANSFERS: 'TOO_MANY_TRANSFERS',
+  SERVER_SHUTTING_DOWN: 'SERVER_SHUTTING_DOWN',
+  PROTOCOL_VERSION_UNSUPPORTED: 'PROTOCOL_VERSION_UNSUPPORTED',
+} as const;
+
+export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
+
+// What validators return; `code` and `message` go straight into sendError
+export type Validation =
+  | { valid: true }
+  | { valid: false; code: ErrorCode; message: string };
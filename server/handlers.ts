@@ -0,0 +1,610 @@
+// Handlers for client messages, one per message type.  Each gets a message
+// that already passed the shared schema (see wsDispatch) and checks the
+// rest: membership, ownership and server limits.
+
+import WebSocket from 'ws';
+import type {
+  ClientChunkAck, ClientClipManifest, ClientClipRequest, ClientClipSync, ClientClipboard, ClientCreate,
+  ClientFileChunk, ClientFileKey, ClientFileResume, ClientFileStart, ClientHello, ClientJoin, ClientKick,
+  ClientLockRoom, ClientRtcSignal, ClientSetKnock, ClientTransferOwner, PassphraseProof, ServerMessage,
+} from '../client/src/protocol/messages';
+import { PROTOCOL_VERSION, negotiateVersion } from '../client/src/protocol/schema';
+import type { PeerIdentity } from '../client/src/types';
+import { checkRoomPassphrase, isPassphraseProofValid, isUploadTokenValid, validatePassphrase } from './auth';
+import { announceMembers, releaseRemoteRoom, syncRoomFromBackplane } from './cluster';
+import { ERROR_CODES } from './errors';
+import { cancelPendingJoin, getJoinRequest, requestJoinApproval } from './joinApproval';
+import { LOG_LEVELS } from './logging';
+import { observeHistogram } from './metrics';
+import { chargeRelayBytes, chargeRoomCreation, rejectForQuota } from './quotas';
+import { broadcastToLocalClients, broadcastToRoom, checkRateLimit, sendError, sendMessage } from './relay';
+import { generateRoomId, normalizeRoomId, validateRoomId } from './roomIds';
+import {
+  bufferClip, bumpRoomSettings, createRoomState, deleteRoom, ensureRoomOwner, getMember, getMemberCount,
+  getRoomUpdate, logRoomStatus, persistRoom, replayClips, sendRoomUpdate, sendToMember, trackRoom,
+} from './rooms';
+import { dropSession, issueSession, resumeSession } from './sessions';
+import {
+  completeFileTransfer, decodeBinaryFrameHeader, estimateEncodedPayloadBytes, finishFileTransfer,
+  getTransferState, isTransferComplete, isValidFileId, parseDeclaredFileSize, registerTransferBytes,
+  startFileTransfer, stripTransferControlFields, validateFileChunk, validateFileResume, validateFileStart,
+} from './transfers';
+import type { LocalMember, RelaySocket, RemoteMember, Room, ServerContext } from './types';
+import { sanitizeIdentity, validateClipSync, validateRtcSignal, validateTargetId } from './validation';
+
+/**
+ * Settles the protocol version for the connection.  Every other message
+ * waits for this one; a client too old to speak the protocol is told to
+ * reload and disconnected.
+ */
+export const handleHello = (ctx: ServerContext, ws: RelaySocket, data: ClientHello): void => {
+  if (ws.protocolVersion !== null) {
+    sendError(ctx, ws, ERROR_CODES.INVALID_MESSAGE, 'Protocol version already negotiated');
+    return;
+  }
+  const version = negotiateVersion(data.version);
+  if (version === null) {
+    ctx.log(LOG_LEVELS.INFO, 'Rejecting outdated client', { event: 'protocol-rejected', clientId: ws.id, version: data.version });
+    sendError(ctx, ws, ERROR_CODES.PROTOCOL_VERSION_UNSUPPORTED, 'This page is out of date. Reload it to reconnect.', { version: PROTOCOL_VERSION });
+    ws.close(1008, 'Unsupported protocol version');
+    return;
+  }
+  ws.protocolVersion = version;
+  sendMessage(ctx, ws, { type: 'hello', version });
+};
+
+export const handleJoin = async (ctx: ServerContext, ws: RelaySocket, data: ClientJoin): Promise<void> => {
+  const { publicKey, identity, passphrase, sessionToken } = data;
+  const validation = validateRoomId(ctx, data.roomId);
+  if (!validation.valid) {
+    sendError(ctx, ws, validation.code, validation.message);
+    return;
+  }
+  const roomId = normalizeRoomId(data.roomId);
+
+  // A member coming back within the grace period skips the passphrase and lock checks
+  if (sessionToken !== undefined && resumeSession(ctx, ws, roomId, sessionToken)) {
+    return;
+  }
+
+  if (passphrase !== undefined) {
+    const passphraseValidation = validatePassphrase(passphrase);
+    if (!passphraseValidation.valid) {
+      sendError(ctx, ws, passphraseValidation.code, passphraseValidation.message);
+      return;
+    }
+  }
+
+  await syncRoomFromBackplane(ctx, roomId);
+  if (ws.readyState !== WebSocket.OPEN) {
+    releaseRemoteRoom(ctx, roomId);
+    return;
+  }
+  joinSyncedRoom(ctx, ws, roomId, publicKey, identity, passphrase);
+  releaseRemoteRoom(ctx, roomId);
+};
+
+const joinSyncedRoom = (
+  ctx: ServerContext,
+  ws: RelaySocket,
+  roomId: string,
+  publicKey: JsonWebKey | undefined,
+  identity: PeerIdentity | undefined,
+  passphrase: PassphraseProof | undefined,
+): void => {
+  // Check the lock and passphrase before leaving the current room, so a refusal doesn't cost the old one
+  let room = ctx.rooms.get(roomId);
+  if (room?.locked && !room.clients.has(ws.id)) {
+    sendError(ctx, ws, ERROR_CODES.ROOM_LOCKED, 'This room is locked by its owner', { roomId });
+    return;
+  }
+  if (room?.passphrase && !checkRoomPassphrase(ctx, ws, roomId, room.passphrase, passphrase)) {
+    return;
+  }
+  if (!room && passphrase && !isPassphraseProofValid(passphrase.verifier, passphrase.proof)) {
+    sendError(ctx, ws, ERROR_CODES.INVALID_PASSPHRASE, 'Passphrase proof does not match its verifier', { roomId });
+    return;
+  }
+  if (!room && !chargeRoomCreation(ctx, ws)) {
+    return;
+  }
+
+  // Leave current room (or queue) first if already in one
+  cancelPendingJoin(ctx, ws);
+  if (ws.roomId) {
+    handleLeave(ctx, ws);
+  }
+
+  // Get existing room or create a new one (restored original behavior).  A
+  // member of an expired protected room brings its salt and verifier along.
+  room = ctx.rooms.get(roomId);
+  if (!room) {
+    room = createRoomState(ctx, passphrase ? { salt: passphrase.salt, verifier: passphrase.verifier } : null);
+    trackRoom(ctx, roomId, room);
+    persistRoom(ctx, roomId, room);
+    ctx.metrics.roomsCreated++;
+    ctx.log(LOG_LEVELS.INFO, 'Room created by join', { event: 'room-created', roomId, clientId: ws.id, passphrase: !!passphrase });
+  }
+
+  // Check room size limit
+  if (getMemberCount(room) >= ctx.config.MAX_ROOM_SIZE) {
+    sendError(ctx, ws, ERROR_CODES.ROOM_FULL, 'Room is full');
+    return;
+  }
+
+  if (room.knock && getMemberCount(room) > 0) {
+    requestJoinApproval(ctx, ws, roomId, room, publicKey, sanitizeIdentity(ctx, identity));
+    return;
+  }
+
+  admitClient(ctx, ws, roomId, room, publicKey, sanitizeIdentity(ctx, identity));
+};
+
+export const admitClient = (
+  ctx: ServerContext,
+  ws: RelaySocket,
+  roomId: string,
+  room: Room,
+  publicKey: JsonWebKey | undefined,
+  identity: PeerIdentity | null | undefined,
+): void => {
+  ws.roomId = roomId;
+  room.clients.set(ws.id, { ws, publicKey, identity });
+  room.lastActivity = ctx.now();
+
+  sendMessage(ctx, ws, { ...getRoomUpdate(roomId, room), clientId: ws.id, sessionToken: issueSession(ctx, ws, roomId) });
+  sendRoomUpdate(ctx, roomId, room, ws);
+  // A new member can answer requests that arrived before it got in
+  room.pending.forEach((waiting) => sendMessage(ctx, ws, getJoinRequest(waiting)));
+  replayClips(ctx, ws, room, publicKey);
+
+  ctx.log(LOG_LEVELS.INFO, 'Client joined', { event: 'room-joined', roomId, clientId: ws.id, clients: getMemberCount(room) });
+};
+
+export const handleCreate = (ctx: ServerContext, ws: RelaySocket, data: ClientCreate): void => {
+  const { publicKey, identity, passphrase } = data;
+  if (passphrase !== undefined) {
+    const passphraseValidation = validatePassphrase(passphrase);
+    if (!passphraseValidation.valid) {
+      sendError(ctx, ws, passphraseValidation.code, passphraseValidation.message);
+      return;
+    }
+    if (!isPassphraseProofValid(passphrase.verifier, passphrase.proof)) {
+      sendError(ctx, ws, ERROR_CODES.INVALID_PASSPHRASE, 'Passphrase proof does not match its verifier');
+      return;
+    }
+  }
+  if (!chargeRoomCreation(ctx, ws)) {
+    return;
+  }
+
+  // Leave current room (or queue) first if already in one
+  cancelPendingJoin(ctx, ws);
+  if (ws.roomId) {
+    handleLeave(ctx, ws);
+  }
+
+  const roomId = generateRoomId(ctx);
+  const room = createRoomState(ctx, passphrase ? { salt: passphrase.salt, verifier: passphrase.verifier } : null, ws.id);
+  bumpRoomSettings(ctx, room);
+  trackRoom(ctx, roomId, room);
+  persistRoom(ctx, roomId, room);
+  ws.roomId = roomId;
+  room.clients.set(ws.id, { ws, publicKey, identity: sanitizeIdentity(ctx, identity) });
+
+  sendMessage(ctx, ws, { ...getRoomUpdate(roomId, room), clientId: ws.id, sessionToken: issueSession(ctx, ws, roomId) });
+
+  ctx.metrics.roomsCreated++;
+  ctx.log(LOG_LEVELS.INFO, 'Room created', { event: 'room-created', roomId, clientId: ws.id, passphrase: !!passphrase });
+  logRoomStatus(ctx);
+};
+
+export const handleLeave = (ctx: ServerContext, ws: RelaySocket): void => {
+  const roomId = ws.roomId;
+  const room = roomId ? ctx.rooms.get(roomId) : undefined;
+  if (!roomId || !room || !room.clients.has(ws.id)) {
+    return;
+  }
+
+  dropSession(ctx, ws);
+  room.clients.delete(ws.id);
+  room.lastActivity = ctx.now();
+
+  // Cancel any active file transfers from the disconnected client
+  const fileIds = Array.from(room.activeTransfers.get(ws.id) || []);
+  fileIds.forEach(fileId => {
+    ctx.log(LOG_LEVELS.WARN, 'Cancelling transfer of a departed client', { event: 'transfer-cancelled', roomId, clientId: ws.id, fileId });
+    broadcastToRoom(ctx, roomId, { type: 'file-cancel', fileId, senderId: ws.id });
+    finishFileTransfer(room, ws, fileId);
+  });
+
+  if (room.ownerId === ws.id && ensureRoomOwner(ctx, room) && room.ownerId) {
+    // Ownership passes to the longest-present member
+    ctx.log(LOG_LEVELS.INFO, 'Ownership passed on', { event: 'owner-changed', roomId, clientId: room.ownerId });
+  }
+
+  if (room.clients.size === 0) {
+    // Nobody is left here to approve waiting clients
+    room.pending.forEach(({ ws: waiting }) => cancelPendingJoin(ctx, waiting, true));
+    announceMembers(ctx, roomId, room); // Lets other nodes drop this node's members
+    deleteRoom(ctx, roomId);
+    ctx.log(LOG_LEVELS.INFO, room.remoteClients.size > 0 ? 'Room released to other nodes' : 'Room deleted (empty)', {
+      event: room.remoteClients.size > 0 ? 'room-released' : 'room-deleted',
+      roomId,
+    });
+    logRoomStatus(ctx);
+  } else {
+    sendRoomUpdate(ctx, roomId, room);
+    ctx.log(LOG_LEVELS.INFO, 'Client left', { event: 'room-left', roomId, clientId: ws.id, clients: getMemberCount(room) });
+  }
+
+  ws.roomId = null;
+};
+
+export const handleClipboard = (ctx: ServerContext, ws: RelaySocket, data: ClientClipboard): void => {
+  if (!ws.roomId) {
+    sendError(ctx, ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
+    return;
+  }
+
+  const roomId = ws.roomId;
+  const room = ctx.rooms.get(roomId);
+  if (!room) return;
+  room.lastActivity = ctx.now();
+
+  const quotaError = chargeRelayBytes(ctx, ws, room, estimateEncodedPayloadBytes(data.encryptedContent ?? data.content));
+  if (quotaError) {
+    rejectForQuota(ctx, ws, quotaError.code, quotaError.message);
+    return;
+  }
+
+  const message = {
+    ...stripTransferControlFields(data),
+    senderId: ws.id,
+    timestamp: ctx.now(),
+  };
+
+  if (data.fileId) {
+    ctx.log(LOG_LEVELS.INFO, 'Relaying file metadata', { event: 'relay', roomId, clientId: ws.id, fileId: data.fileId, fileName: data.fileName });
+  }
+
+  ctx.log(LOG_LEVELS.DEBUG, 'Relaying message', { event: 'relay', roomId, clientId: ws.id, type: data.type });
+  broadcastToRoom(ctx, roomId, message, ws);
+  bufferClip(ctx, roomId, room, ws, message);
+};
+
+export const handleFileChunk = (ctx: ServerContext, ws: RelaySocket, data: ClientFileChunk): void => {
+  if (!ws.roomId) {
+    sendError(ctx, ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
+    return;
+  }
+
+  const validation = validateFileChunk(ctx, data);
+  if (!validation.valid) {
+    sendError(ctx, ws, validation.code, validation.message);
+    return;
+  }
+
+  const roomId = ws.roomId;
+  const room = ctx.rooms.get(roomId);
+  if (!room) return;
+  room.lastActivity = ctx.now();
+
+  const chunkBytes = estimateEncodedPayloadBytes(data.chunk || data.encryptedChunk);
+  if (!registerTransferBytes(ctx, roomId, room, ws, data.fileId, data.totalChunks, chunkBytes)) {
+    return;
+  }
+
+  const message = {
+    ...stripTransferControlFields(data),
+    senderId: ws.id,
+  };
+
+  // Clean up transfer tracking when the last chunk is sent
+  if (isTransferComplete(room, ws, data.fileId, data.chunkIndex, data.totalChunks)) {
+    completeFileTransfer(ctx, room, ws, data.fileId);
+    ctx.log(LOG_LEVELS.INFO, 'Finished file transfer', { event: 'transfer-finished', roomId, clientId: ws.id, fileId: data.fileId });
+  }
+
+  broadcastToRoom(ctx, roomId, message, ws);
+};
+
+export const handleFileStart = (ctx: ServerContext, ws: RelaySocket, data: ClientFileStart): void => {
+  if (!ws.roomId) {
+    sendError(ctx, ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
+    return;
+  }
+
+  const validation = validateFileStart(ctx, data);
+  if (!validation.valid) {
+    sendError(ctx, ws, validation.code, validation.message);
+    return;
+  }
+
+  // A draining node only finishes the transfers it already carries
+  if (ctx.isShuttingDown) {
+    sendError(ctx, ws, ERROR_CODES.SERVER_SHUTTING_DOWN, 'The server is restarting. Send the file again in a moment.', { fileId: data.fileId });
+    return;
+  }
+
+  const roomId = ws.roomId;
+  const room = ctx.rooms.get(roomId);
+  if (!room) return;
+  room.lastActivity = ctx.now();
+
+  // Peer-to-peer transfers never pass through the relay, so there is nothing to track
+  const isPeerTransfer = data.transport === 'p2p';
+  if (!isPeerTransfer) {
+    if (!getTransferState(room, ws, data.fileId) && room.transferState.size >= ctx.config.MAX_ROOM_CONCURRENT_TRANSFERS) {
+      rejectForQuota(ctx, ws, ERROR_CODES.TOO_MANY_TRANSFERS, 'Too many file transfers in this room. Wait for one to finish.', { fileId: data.fileId });
+      return;
+    }
+    const declaredFileSize = parseDeclaredFileSize(data).size;
+    startFileTransfer(ctx, room, ws, data.fileId, {
+      authorizedLarge: isUploadTokenValid(ctx, data.uploadToken),
+      declaredSize: declaredFileSize,
+      expectedChunks: data.resume ? data.resumeChunks : null,
+    });
+  }
+
+  const message = {
+    ...stripTransferControlFields(data),
+    senderId: ws.id,
+    timestamp: ctx.now(),
+  };
+
+  ctx.log(LOG_LEVELS.INFO, 'Relaying file start', {
+    event: 'transfer-started',
+    roomId,
+    clientId: ws.id,
+    fileId: data.fileId,
+    fileName: data.fileName,
+    resume: !!data.resume,
+    transport: isPeerTransfer ? 'p2p' : 'relay',
+  });
+  broadcastToRoom(ctx, roomId, message, ws);
+};
+
+export const handleBinaryRelay = (ctx: ServerContext, ws: RelaySocket, data: Buffer): void => {
+  if (!ws.roomId) {
+    // Binary frame from a client not in a room – ignore
+    return;
+  }
+  if (!checkRateLimit(ctx, ws)) {
+    sendError(ctx, ws, ERROR_CODES.RATE_LIMITED, 'Too many messages. Please slow down.');
+    return;
+  }
+  const roomId = ws.roomId;
+  const room = ctx.rooms.get(roomId);
+  if (!room) return;
+  room.lastActivity = ctx.now();
+
+  const header = decodeBinaryFrameHeader(ctx, data);
+  if (!header) {
+    sendError(ctx, ws, ERROR_CODES.INVALID_MESSAGE, 'Invalid binary file chunk');
+    return;
+  }
+
+  if (!registerTransferBytes(ctx, roomId, room, ws, header.fileId, header.totalChunks, header.payloadLength)) {
+    return;
+  }
+
+  // Relay binary frame as-is to every other client in the room
+  broadcastToLocalClients(ctx, roomId, room, data, ws.id, { binary: true });
+  if (room.remoteClients.size > 0) {
+    ctx.backplane.publish(roomId, { kind: 'binary', frame: data });
+  }
+
+  if (isTransferComplete(room, ws, header.fileId, header.chunkIndex, header.totalChunks)) {
+    completeFileTransfer(ctx, room, ws, header.fileId);
+    ctx.log(LOG_LEVELS.INFO, 'Finished binary file transfer', { event: 'transfer-finished', roomId, clientId: ws.id, fileId: header.fileId });
+  }
+
+  ctx.metrics.messagesRelayed++;
+  observeHistogram(ctx.metrics.messageBytes, data.length);
+};
+
+export const handleFileKey = (ctx: ServerContext, ws: RelaySocket, data: ClientFileKey): void => {
+  if (!ws.roomId) {
+    sendError(ctx, ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
+    return;
+  }
+  if (!isValidFileId(ctx, data.fileId)) {
+    sendError(ctx, ws, ERROR_CODES.INVALID_FILE_ID, 'Invalid file ID');
+    return;
+  }
+  const roomId = ws.roomId;
+  const room = ctx.rooms.get(roomId);
+  if (!room) return;
+  room.lastActivity = ctx.now();
+  broadcastToRoom(ctx, roomId, { ...stripTransferControlFields(data), senderId: ws.id }, ws);
+  ctx.log(LOG_LEVELS.DEBUG, 'Relaying file key', { event: 'relay', roomId, clientId: ws.id, fileId: data.fileId, type: 'file-key' });
+};
+
+export const handleFileResume = (ctx: ServerContext, ws: RelaySocket, data: ClientFileResume): void => {
+  if (!ws.roomId) {
+    sendError(ctx, ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
+    return;
+  }
+  const validation = validateFileResume(ctx, data);
+  if (!validation.valid) {
+    sendError(ctx, ws, validation.code, validation.message);
+    return;
+  }
+  const roomId = ws.roomId;
+  const room = ctx.rooms.get(roomId);
+  if (!room) return;
+  room.lastActivity = ctx.now();
+  // The original sender is identified by fileId, since its socket id may have changed
+  broadcastToRoom(ctx, roomId, { type: 'file-resume', fileId: data.fileId, missingChunks: data.missingChunks, senderId: ws.id }, ws);
+  ctx.log(LOG_LEVELS.INFO, 'Relaying file resume', {
+    event: 'transfer-resume-requested',
+    roomId,
+    clientId: ws.id,
+    fileId: data.fileId,
+    missingChunks: data.missingChunks.length,
+  });
+};
+
+export const handleChunkAck = (ctx: ServerContext, ws: RelaySocket, data: ClientChunkAck): void => {
+  if (!ws.roomId) {
+    sendError(ctx, ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
+    return;
+  }
+  if (!isValidFileId(ctx, data.fileId) || !Number.isSafeInteger(data.chunkIndex) || data.chunkIndex < 0) {
+    sendError(ctx, ws, ERROR_CODES.INVALID_MESSAGE, 'Invalid chunk ack');
+    return;
+  }
+  const roomId = ws.roomId;
+  const room = ctx.rooms.get(roomId);
+  if (!room) return;
+  room.lastActivity = ctx.now();
+
+  const ack: ServerMessage = { type: 'chunk-ack', fileId: data.fileId, chunkIndex: data.chunkIndex, senderId: ws.id };
+  // Acks only matter to the uploader; fall back to the room if it is unknown
+  if (typeof data.targetId !== 'string' || !sendToMember(ctx, roomId, room, data.targetId, ack)) {
+    broadcastToRoom(ctx, roomId, ack, ws);
+  }
+};
+
+export const handleRtcSignal = (ctx: ServerContext, ws: RelaySocket, data: ClientRtcSignal): void => {
+  if (!ws.roomId) {
+    sendError(ctx, ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
+    return;
+  }
+  const validation = validateRtcSignal(ctx, data);
+  if (!validation.valid) {
+    sendError(ctx, ws, validation.code, validation.message);
+    return;
+  }
+  const roomId = ws.roomId;
+  const room = ctx.rooms.get(roomId);
+  if (!room) return;
+
+  // Signals are only forwarded between members of the same room.  The target
+  // may simply have left while negotiating, so a miss is not reported back.
+  const message: ServerMessage = { type: 'rtc-signal', signal: data.signal, senderId: ws.id };
+  if (data.targetId === ws.id || !sendToMember(ctx, roomId, room, data.targetId, message)) {
+    ctx.log(LOG_LEVELS.DEBUG, 'Dropping signal for unknown target', { event: 'rtc-signal-dropped', roomId, clientId: ws.id, targetId: data.targetId });
+  }
+};
+
+/**
+ * Relays the peer catch-up exchange ('clip-manifest', 'clip-request' and
+ * 'clip-sync') to its one target.  Clip contents are encrypted for the
+ * target, so the server only checks the shape.
+ */
+export const handleClipSync = (
+  ctx: ServerContext,
+  ws: RelaySocket,
+  data: ClientClipManifest | ClientClipRequest | ClientClipSync,
+): void => {
+  if (!ws.roomId) {
+    sendError(ctx, ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
+    return;
+  }
+  const validation = validateClipSync(ctx, data);
+  if (!validation.valid) {
+    sendError(ctx, ws, validation.code, validation.message);
+    return;
+  }
+  const roomId = ws.roomId;
+  const room = ctx.rooms.get(roomId);
+  if (!room) return;
+
+  if (data.targetId === ws.id || !getMember(room, data.targetId)) return; // The newcomer may already have left
+  room.lastActivity = ctx.now();
+
+  const { targetId, ...message } = stripTransferControlFields(data);
+  // Each of these has a server counterpart with the same fields plus senderId
+  sendToMember(ctx, roomId, room, targetId, { ...message, senderId: ws.id } as ServerMessage);
+};
+
+// ─── Owner controls ──────────────────────────────────────────────────
+
+/**
+ * Returns the sender's room if the sender owns it; otherwise reports why not.
+ */
+const getOwnedRoom = (ctx: ServerContext, ws: RelaySocket): { roomId: string; room: Room } | null => {
+  const room = ws.roomId ? ctx.rooms.get(ws.roomId) : null;
+  if (!ws.roomId || !room) {
+    sendError(ctx, ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
+    return null;
+  }
+  if (room.ownerId !== ws.id) {
+    sendError(ctx, ws, ERROR_CODES.NOT_ROOM_OWNER, 'Only the room owner can do that');
+    return null;
+  }
+  return { roomId: ws.roomId, room };
+};
+
+const getOwnerTarget = (
+  ctx: ServerContext,
+  ws: RelaySocket,
+  room: Room,
+  data: ClientKick | ClientTransferOwner,
+): LocalMember | RemoteMember | null => {
+  const validation = validateTargetId(data);
+  if (!validation.valid) {
+    sendError(ctx, ws, validation.code, validation.message);
+    return null;
+  }
+  const target = getMember(room, data.targetId);
+  if (!target || data.targetId === ws.id) {
+    sendError(ctx, ws, ERROR_CODES.INVALID_MESSAGE, 'Unknown client');
+    return null;
+  }
+  return target;
+};
+
+export const handleKick = (ctx: ServerContext, ws: RelaySocket, data: ClientKick): void => {
+  const owned = getOwnedRoom(ctx, ws);
+  if (!owned) return;
+  const target = getOwnerTarget(ctx, ws, owned.room, data);
+  if (!target) return;
+
+  const { roomId } = owned;
+  if (!('ws' in target)) {
+    ctx.backplane.publish(roomId, { kind: 'control', action: 'kick', targetId: data.targetId, senderId: ws.id });
+    return;
+  }
+  ctx.log(LOG_LEVELS.INFO, 'Client removed by owner', { event: 'client-kicked', roomId, clientId: target.ws.id, ownerId: ws.id });
+  sendMessage(ctx, target.ws, { type: 'kicked', roomId });
+  handleLeave(ctx, target.ws);
+};
+
+export const handleLockRoom = (ctx: ServerContext, ws: RelaySocket, data: ClientLockRoom): void => {
+  const owned = getOwnedRoom(ctx, ws);
+  if (!owned) return;
+  const { roomId, room } = owned;
+
+  room.locked = data.locked;
+  bumpRoomSettings(ctx, room);
+  ctx.log(LOG_LEVELS.INFO, room.locked ? 'Room locked' : 'Room unlocked', { event: 'room-lock-changed', roomId, clientId: ws.id, locked: room.locked });
+  sendRoomUpdate(ctx, roomId, room);
+};
+
+export const handleSetKnock = (ctx: ServerContext, ws: RelaySocket, data: ClientSetKnock): void => {
+  const owned = getOwnedRoom(ctx, ws);
+  if (!owned) return;
+  const { roomId, room } = owned;
+
+  room.knock = data.knock;
+  bumpRoomSettings(ctx, room);
+  persistRoom(ctx, roomId, room);
+  ctx.log(LOG_LEVELS.INFO, `Join approval ${room.knock ? 'enabled' : 'disabled'}`, { event: 'room-knock-changed', roomId, clientId: ws.id, knock: room.knock });
+  sendRoomUpdate(ctx, roomId, room);
+};
+
+export const handleTransferOwner = (ctx: ServerContext, ws: RelaySocket, data: ClientTransferOwner): void => {
+  const owned = getOwnedRoom(ctx, ws);
+  if (!owned) return;
+  const { roomId, room } = owned;
+  const target = getOwnerTarget(ctx, ws, room, data);
+  if (!target) return;
+
+  room.ownerId = data.targetId;
+  bumpRoomSettings(ctx, room);
+  ctx.log(LOG_LEVELS.INFO, 'Ownership handed off', { event: 'owner-changed', roomId, clientId: room.ownerId, previousOwnerId: ws.id });
+  sendRoomUpdate(ctx, roomId, room);
+};
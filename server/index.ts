@@ -0,0 +1,47 @@
+// Entry point: reads the configuration from the environment, starts one
+// relay on PORT and ties its shutdown to the process signals.
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { loadConfig } from './config';
+import { createServer } from './createServer';
+import { LOG_LEVELS } from './logging';
+
+export { createServer } from './createServer';
+export { loadConfig } from './config';
+
+const start = async (): Promise<void> => {
+  const config = loadConfig();
+  const { ctx, listen, shutdown } = createServer(config);
+  const { log, metrics } = ctx;
+
+  const port = await listen(config.PORT);
+  log(LOG_LEVELS.INFO, `Server running at http://localhost:${port} (health: /health, metrics: /metrics)`, {
+    event: 'started',
+    port,
+    backplane: config.BACKPLANE,
+    nodeId: ctx.backplane.nodeId,
+  });
+
+  const stop = (signal: string) => {
+    shutdown(signal).then(() => process.exit(0));
+  };
+  process.on('SIGTERM', () => stop('SIGTERM'));
+  process.on('SIGINT', () => stop('SIGINT'));
+
+  // Handle uncaught exceptions
+  process.on('uncaughtException', (error) => {
+    log(LOG_LEVELS.ERROR, 'Uncaught exception', { event: 'uncaught-exception', error });
+    metrics.errors++;
+  });
+
+  process.on('unhandledRejection', (reason) => {
+    log(LOG_LEVELS.ERROR, 'Unhandled rejection', { event: 'unhandled-rejection', error: reason instanceof Error ? reason : String(reason) });
+    metrics.errors++;
+  });
+};
+
+if (require.main === module) {
+  start();
+}
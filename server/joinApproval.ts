@@ -0,0 +1,122 @@
+// Join approval (knock mode).  A join to a room in knock mode waits in the
+// room's `pending` list until a member approves or denies it; the request
+// reaches members on every node, and the answer comes back to the node the
+// waiting client is connected to.
+
+import type { ClientJoinResponse, ServerJoinRequest } from '../client/src/protocol/messages';
+import type { PeerIdentity } from '../client/src/types';
+import { releaseRemoteRoom } from './cluster';
+import { ERROR_CODES } from './errors';
+import { admitClient, handleLeave } from './handlers';
+import { LOG_LEVELS } from './logging';
+import { broadcastToRoom, sendError, sendMessage } from './relay';
+import { getMemberCount } from './rooms';
+import type { PendingJoin, RelaySocket, Room, ServerContext } from './types';
+
+export const getJoinRequest = ({ ws, publicKey, identity }: PendingJoin): ServerJoinRequest => ({
+  type: 'join-request',
+  requestId: ws.id,
+  publicKey,
+  ...(identity ? { identity } : {}),
+  userAgent: ws.userAgent,
+});
+
+export const requestJoinApproval = (
+  ctx: ServerContext,
+  ws: RelaySocket,
+  roomId: string,
+  room: Room,
+  publicKey: JsonWebKey | undefined,
+  identity: PeerIdentity | null,
+): void => {
+  if (room.pending.size >= ctx.config.MAX_PENDING_JOINS) {
+    sendError(ctx, ws, ERROR_CODES.ROOM_FULL, 'Too many devices are waiting to join this room');
+    return;
+  }
+
+  const pending = { ws, publicKey, identity };
+  room.pending.set(ws.id, pending);
+  ws.pendingRoomId = roomId;
+
+  sendMessage(ctx, ws, { type: 'join-pending', roomId });
+  broadcastToRoom(ctx, roomId, getJoinRequest(pending));
+  ctx.log(LOG_LEVELS.INFO, 'Client waiting for approval', { event: 'join-pending', roomId, clientId: ws.id });
+};
+
+/**
+ * Drops a client's pending join, telling it why when it is still connected
+ * and letting members clear the prompt.
+ */
+export const cancelPendingJoin = (ctx: ServerContext, ws: RelaySocket, denied = false): void => {
+  const roomId = ws.pendingRoomId;
+  if (!roomId) return;
+  ws.pendingRoomId = null;
+
+  const room = ctx.rooms.get(roomId);
+  if (!room || !room.pending.delete(ws.id)) return;
+
+  if (denied) {
+    sendMessage(ctx, ws, { type: 'join-denied', roomId });
+  }
+  broadcastToRoom(ctx, roomId, { type: 'join-request-resolved', requestId: ws.id });
+  releaseRemoteRoom(ctx, roomId);
+};
+
+/**
+ * Admits or turns away a client waiting on this node.  Returns false when
+ * an approval finds the room full.
+ */
+export const resolveJoinRequest = (
+  ctx: ServerContext,
+  roomId: string,
+  room: Room,
+  requestId: string,
+  approve: boolean,
+  responderId: string,
+): boolean => {
+  const pending = room.pending.get(requestId);
+  if (!pending) return true;
+
+  if (!approve) {
+    ctx.log(LOG_LEVELS.INFO, 'Join denied', { event: 'join-denied', roomId, clientId: requestId, responderId });
+    cancelPendingJoin(ctx, pending.ws, true);
+    return true;
+  }
+
+  if (getMemberCount(room) >= ctx.config.MAX_ROOM_SIZE) {
+    return false;
+  }
+
+  room.pending.delete(requestId);
+  pending.ws.pendingRoomId = null;
+  broadcastToRoom(ctx, roomId, { type: 'join-request-resolved', requestId });
+  ctx.log(LOG_LEVELS.INFO, 'Join approved', { event: 'join-approved', roomId, clientId: requestId, responderId });
+
+  if (pending.ws.roomId) {
+    handleLeave(ctx, pending.ws);
+  }
+  admitClient(ctx, pending.ws, roomId, room, pending.publicKey, pending.identity);
+  return true;
+};
+
+export const handleJoinResponse = (ctx: ServerContext, ws: RelaySocket, data: ClientJoinResponse): void => {
+  if (!ws.roomId) {
+    sendError(ctx, ws, ERROR_CODES.NOT_IN_ROOM, 'Not in a room');
+    return;
+  }
+
+  const roomId = ws.roomId;
+  const room = ctx.rooms.get(roomId);
+  if (!room) return;
+
+  if (room.pending.has(data.requestId)) {
+    if (!resolveJoinRequest(ctx, roomId, room, data.requestId, data.approve, ws.id)) {
+      sendError(ctx, ws, ERROR_CODES.ROOM_FULL, 'Room is full');
+    }
+  } else {
+    // The waiting client may be connected to another node, or already answered
+    ctx.backplane.publish(roomId, {
+      kind: 'control', action: 'join-response', requestId: data.requestId, approve: data.approve, senderId: ws.id,
+    });
+  }
+};
@@ -0,0 +1,91 @@
+// Structured logging.  Every entry carries the same field names, so entries
+// can be filtered by room, client or file: event, roomId, clientId, fileId,
+// code (an ERROR_CODES value), error, and sometimes ip or fileName.
+
+import type { LogLevel, ServerConfig } from './config';
+
+export const LOG_LEVELS: Record<LogLevel, LogLevel> = {
+  INFO: 'INFO',
+  WARN: 'WARN',
+  ERROR: 'ERROR',
+  DEBUG: 'DEBUG',
+};
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3 };
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = (level: LogLevel, message: string, fields?: LogFields) => void;
+
+const createTimestampFormatter = (timeZone: string): ((date: Date) => string) => {
+  if (timeZone === 'UTC') return (date) => date.toISOString();
+
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+  // ISO 8601 in the configured zone, with its offset
+  return (date) => {
+    const p = formatter.formatToParts(date).reduce<Record<string, string>>((acc, part) => {
+      acc[part.type] = part.value;
+      return acc;
+    }, {});
+    const ms = String(date.getMilliseconds()).padStart(3, '0');
+    const offsetMinutes = Math.round(
+      (Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second) - Math.floor(date.getTime() / 1000) * 1000) / 60000,
+    );
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const offset = `${String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(2, '0')}:${String(Math.abs(offsetMinutes) % 60).padStart(2, '0')}`;
+    return `${p.year}-${p.month}-${p.day}T${p.hour}:${p.minute}:${p.second}.${ms}${sign}${offset}`;
+  };
+};
+
+const formatLogValue = (value: unknown): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[\s"=]/.test(text) ? JSON.stringify(text) : text;
+};
+
+/**
+ * Returns the log function for a server.  `fields` holds the structured
+ * details; in text format they follow the message as key=value pairs.
+ */
+export const createLogger = (config: ServerConfig): Logger => {
+  const formatTimestamp = createTimestampFormatter(config.LOG_TIME_ZONE);
+  const redacted = new Set<string>(config.LOG_REDACT);
+
+  const normalizeFields = (level: LogLevel, fields: LogFields): LogFields => {
+    const entry: LogFields = {};
+    Object.entries(fields).forEach(([key, value]) => {
+      if (value === undefined) return;
+      if (redacted.has(key)) {
+        entry[key] = '[redacted]';
+      } else if (value instanceof Error) {
+        entry[key] = value.message;
+        if (level === LOG_LEVELS.ERROR && value.stack) entry.stack = value.stack;
+      } else {
+        entry[key] = value;
+      }
+    });
+    return entry;
+  };
+
+  return (level, message, fields = {}) => {
+    if (LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[config.LOG_LEVEL]) return;
+
+    const time = formatTimestamp(new Date());
+    const { stack, ...entry } = normalizeFields(level, fields);
+    if (config.LOG_FORMAT === 'json') {
+      console.log(JSON.stringify({ time, level: level.toLowerCase(), msg: message, ...entry, ...(stack ? { stack } : {}) }));
+      return;
+    }
+    const pairs = Object.entries(entry).map(([key, value]) => ` ${key}=${formatLogValue(value)}`).join('');
+    console.log(`${time} ${level.padEnd(5)} ${message}${pairs}${stack ? `\n${stack}` : ''}`);
+  };
+};
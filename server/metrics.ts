@@ -0,0 +1,99 @@
+// Counters and histograms behind /health and the Prometheus /metrics
+// endpoint.  Gauges are read from live state at scrape time.
+
+import { ERROR_CODES } from './errors';
+import { QUOTA_ERROR_CODES } from './quotas';
+import { countRelayedTransfers } from './transfers';
+import type { ServerContext } from './types';
+
+// Cumulative histogram in the Prometheus sense: counts[i] holds observations <= buckets[i]
+export interface Histogram {
+  buckets: number[];
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export interface Metrics {
+  totalConnections: number;
+  activeConnections: number;
+  messagesRelayed: number;
+  filesTransferred: number;
+  roomsCreated: number;
+  errors: number;
+  errorsByCode: Record<string, number>; // ERROR_CODES value -> count of errors sent to clients
+  rateLimitHits: number;
+  quotaRejections: Record<string, number>; // Quota error code -> rejections
+  slowClientsClosed: number;
+  messageBytes: Histogram;
+  transferSeconds: Histogram;
+  startTime: number;
+}
+
+const createHistogram = (buckets: number[]): Histogram => ({ buckets, counts: buckets.map(() => 0), sum: 0, count: 0 });
+
+export const observeHistogram = (histogram: Histogram, value: number): void => {
+  histogram.buckets.forEach((bound, i) => {
+    if (value <= bound) histogram.counts[i]++;
+  });
+  histogram.sum += value;
+  histogram.count++;
+};
+
+export const createMetrics = (startTime: number): Metrics => ({
+  totalConnections: 0,
+  activeConnections: 0,
+  messagesRelayed: 0,
+  filesTransferred: 0,
+  roomsCreated: 0,
+  errors: 0,
+  errorsByCode: {},
+  rateLimitHits: 0,
+  quotaRejections: {},
+  slowClientsClosed: 0,
+  messageBytes: createHistogram([256, 1024, 4096, 16384, 65536, 262144, 1048576, 4194304]),
+  transferSeconds: createHistogram([0.1, 0.5, 1, 5, 15, 60, 300, 900, 3600]),
+  startTime,
+});
+
+const formatHistogram = (name: string, help: string, histogram: Histogram): string[] => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} histogram`,
+  ...histogram.buckets.map((bound, i) => `${name}_bucket{le="${bound}"} ${histogram.counts[i]}`),
+  `${name}_bucket{le="+Inf"} ${histogram.count}`,
+  `${name}_sum ${histogram.sum}`,
+  `${name}_count ${histogram.count}`,
+];
+
+const formatMetric = (name: string, type: 'counter' | 'gauge', help: string, value: number): string[] => (
+  [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, `${name} ${value}`]
+);
+
+/**
+ * Renders the metrics in the Prometheus text exposition format.
+ */
+export const formatPrometheusMetrics = (ctx: ServerContext): string => {
+  const { metrics } = ctx;
+  const activeTransfers = countRelayedTransfers(ctx);
+
+  return [
+    ...formatMetric('instant_paste_rooms', 'gauge', 'Rooms held by this node.', ctx.rooms.size),
+    ...formatMetric('instant_paste_connections', 'gauge', 'Open WebSocket connections.', ctx.wss.clients.size),
+    ...formatMetric('instant_paste_active_transfers', 'gauge', 'Relayed file transfers in progress.', activeTransfers),
+    ...formatMetric('instant_paste_connections_total', 'counter', 'WebSocket connections accepted.', metrics.totalConnections),
+    ...formatMetric('instant_paste_messages_relayed_total', 'counter', 'Messages relayed to rooms.', metrics.messagesRelayed),
+    ...formatMetric('instant_paste_files_transferred_total', 'counter', 'Relayed file transfers completed.', metrics.filesTransferred),
+    ...formatMetric('instant_paste_rooms_created_total', 'counter', 'Rooms created.', metrics.roomsCreated),
+    ...formatMetric('instant_paste_rate_limit_hits_total', 'counter', 'Messages dropped by the rate limit.', metrics.rateLimitHits),
+    ...formatMetric('instant_paste_slow_clients_closed_total', 'counter', 'Clients closed for not keeping up with relayed data.', metrics.slowClientsClosed),
+    '# HELP instant_paste_quota_rejections_total Requests refused by a per-IP or per-room quota, by error code.',
+    '# TYPE instant_paste_quota_rejections_total counter',
+    ...QUOTA_ERROR_CODES.map(code => `instant_paste_quota_rejections_total{code="${code}"} ${metrics.quotaRejections[code] || 0}`),
+    ...formatMetric('instant_paste_tracked_ips', 'gauge', 'Source IPs with connections or quota usage.', ctx.ipQuotas.size),
+    '# HELP instant_paste_errors_total Errors sent to clients, by error code.',
+    '# TYPE instant_paste_errors_total counter',
+    ...Object.values(ERROR_CODES).map(code => `instant_paste_errors_total{code="${code}"} ${metrics.errorsByCode[code] || 0}`),
+    ...formatHistogram('instant_paste_relayed_message_bytes', 'Size of messages relayed to rooms.', metrics.messageBytes),
+    ...formatHistogram('instant_paste_transfer_duration_seconds', 'Time from file-start to the last relayed chunk.', metrics.transferSeconds),
+  ].join('\n') + '\n';
+};
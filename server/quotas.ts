@@ -0,0 +1,122 @@
+// Limits that one abuser can't dodge by opening more sockets: per source IP
+// (connections, rooms created per hour, bytes relayed per day) and per room
+// (bytes relayed per hour, concurrent relayed transfers).  Windows are fixed,
+// like the per-socket rate limit.
+
+import { ERROR_CODES, ErrorCode } from './errors';
+import { LOG_LEVELS } from './logging';
+import { sendError } from './relay';
+import type { IpQuota, RelaySocket, Room, ServerContext } from './types';
+
+export const ONE_HOUR = 60 * 60 * 1000;
+const ONE_DAY = 24 * ONE_HOUR;
+
+export const QUOTA_ERROR_CODES: ErrorCode[] = [
+  ERROR_CODES.TOO_MANY_CONNECTIONS,
+  ERROR_CODES.ROOM_CREATION_QUOTA_EXCEEDED,
+  ERROR_CODES.IP_BYTE_QUOTA_EXCEEDED,
+  ERROR_CODES.ROOM_BYTE_QUOTA_EXCEEDED,
+  ERROR_CODES.TOO_MANY_TRANSFERS,
+];
+
+const getIpQuota = (ctx: ServerContext, ip: string): IpQuota => {
+  const now = ctx.now();
+  let quota = ctx.ipQuotas.get(ip);
+  if (!quota) {
+    quota = {
+      connections: 0,
+      roomsCreated: 0,
+      roomsResetTime: now + ONE_HOUR,
+      bytes: 0,
+      bytesResetTime: now + ONE_DAY,
+    };
+    ctx.ipQuotas.set(ip, quota);
+  }
+  if (now > quota.roomsResetTime) {
+    quota.roomsCreated = 0;
+    quota.roomsResetTime = now + ONE_HOUR;
+  }
+  if (now > quota.bytesResetTime) {
+    quota.bytes = 0;
+    quota.bytesResetTime = now + ONE_DAY;
+  }
+  return quota;
+};
+
+export const recordQuotaRejection = (ctx: ServerContext, ws: RelaySocket, code: ErrorCode, fileId?: string): void => {
+  ctx.metrics.quotaRejections[code] = (ctx.metrics.quotaRejections[code] || 0) + 1;
+  ctx.log(LOG_LEVELS.WARN, 'Quota exceeded', { event: 'quota-exceeded', roomId: ws.roomId, clientId: ws.id, fileId, ip: ws.ip, code });
+};
+
+export const rejectForQuota = (
+  ctx: ServerContext,
+  ws: RelaySocket,
+  code: ErrorCode,
+  message: string,
+  extra: { fileId?: string } = {},
+): void => {
+  recordQuotaRejection(ctx, ws, code, extra.fileId);
+  sendError(ctx, ws, code, message, extra);
+};
+
+// Counts a new connection; returns false if its IP already has too many
+export const acquireConnectionQuota = (ctx: ServerContext, ws: RelaySocket): boolean => {
+  const quota = getIpQuota(ctx, ws.ip);
+  if (quota.connections >= ctx.config.MAX_CONNECTIONS_PER_IP) {
+    rejectForQuota(ctx, ws, ERROR_CODES.TOO_MANY_CONNECTIONS, 'Too many connections from your network');
+    return false;
+  }
+  quota.connections++;
+  return true;
+};
+
+export const releaseConnectionQuota = (ctx: ServerContext, ws: RelaySocket): void => {
+  const quota = ctx.ipQuotas.get(ws.ip);
+  if (quota && quota.connections > 0) quota.connections--;
+};
+
+// Charges one room creation to the client's IP; reports and returns false when over quota
+export const chargeRoomCreation = (ctx: ServerContext, ws: RelaySocket): boolean => {
+  const quota = getIpQuota(ctx, ws.ip);
+  if (quota.roomsCreated >= ctx.config.MAX_ROOMS_PER_IP_PER_HOUR) {
+    rejectForQuota(ctx, ws, ERROR_CODES.ROOM_CREATION_QUOTA_EXCEEDED, 'Too many rooms created from your network. Try again later.');
+    return false;
+  }
+  quota.roomsCreated++;
+  return true;
+};
+
+/**
+ * Charges relayed bytes to the sender's IP and to the room.  Returns the
+ * error (code and message) of the quota it would exceed, without charging,
+ * or null.
+ */
+export const chargeRelayBytes = (
+  ctx: ServerContext,
+  ws: RelaySocket,
+  room: Room,
+  bytes: number,
+): { code: ErrorCode; message: string } | null => {
+  const quota = getIpQuota(ctx, ws.ip);
+  if (ctx.now() > room.byteQuota.resetTime) {
+    room.byteQuota = { bytes: 0, resetTime: ctx.now() + ONE_HOUR };
+  }
+  if (quota.bytes + bytes > ctx.config.MAX_BYTES_PER_IP_PER_DAY) {
+    return { code: ERROR_CODES.IP_BYTE_QUOTA_EXCEEDED, message: 'Daily transfer quota for your network is used up' };
+  }
+  if (room.byteQuota.bytes + bytes > ctx.config.MAX_ROOM_BYTES_PER_HOUR) {
+    return { code: ERROR_CODES.ROOM_BYTE_QUOTA_EXCEEDED, message: 'Hourly transfer quota for this room is used up' };
+  }
+  quota.bytes += bytes;
+  room.byteQuota.bytes += bytes;
+  return null;
+};
+
+export const cleanupIpQuotas = (ctx: ServerContext): void => {
+  const now = ctx.now();
+  ctx.ipQuotas.forEach((quota, ip) => {
+    if (quota.connections === 0 && now > quota.roomsResetTime && now > quota.bytesResetTime) {
+      ctx.ipQuotas.delete(ip);
+    }
+  });
+};
@@ -0,0 +1,121 @@
+// Sending to clients: single messages, room broadcasts and the per-socket
+// rate limit.  A client that can't keep up is closed rather than buffered
+// for without bound.
+
+import WebSocket from 'ws';
+import type { ServerMessage } from '../client/src/protocol/messages';
+import { ERROR_CODES, ErrorCode } from './errors';
+import { LOG_LEVELS } from './logging';
+import { observeHistogram } from './metrics';
+import type { RelaySocket, Room, ServerContext } from './types';
+
+export const sendError = (
+  ctx: ServerContext,
+  ws: RelaySocket,
+  code: ErrorCode,
+  message: string,
+  extra: Record<string, unknown> = {},
+): void => {
+  ctx.log(LOG_LEVELS.DEBUG, message, { event: 'error-sent', roomId: ws.roomId, clientId: ws.id, code });
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify({ type: 'error', code, message, ...extra }));
+  }
+  ctx.metrics.errors++;
+  ctx.metrics.errorsByCode[code] = (ctx.metrics.errorsByCode[code] || 0) + 1;
+};
+
+const closeSlowClient = (ctx: ServerContext, ws: RelaySocket, roomId: string): void => {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  ctx.log(LOG_LEVELS.WARN, 'Closing slow client', { event: 'slow-client-closed', roomId, clientId: ws.id, bufferedBytes: ws.bufferedAmount });
+  ctx.metrics.errors++;
+  ctx.metrics.slowClientsClosed++;
+  ws.close(1013, 'Client is too slow to receive data');
+};
+
+export const sendJsonToClient = (ctx: ServerContext, ws: RelaySocket, data: ServerMessage, roomId: string): void => {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  if (ws.bufferedAmount > ctx.config.WS_SEND_BUFFER_HIGH_WATER) {
+    closeSlowClient(ctx, ws, roomId);
+    return;
+  }
+  ws.send(JSON.stringify(data), (error) => {
+    if (error) {
+      ctx.log(LOG_LEVELS.ERROR, 'Failed to send message', { event: 'send-failed', roomId, clientId: ws.id, error });
+      ctx.metrics.errors++;
+    }
+  });
+};
+
+export const sendMessage = (ctx: ServerContext, ws: RelaySocket, data: ServerMessage): void => {
+  sendJsonToClient(ctx, ws, data, ws.roomId || 'direct');
+};
+
+// Sends to this node's members only; `message` is already serialized
+export const broadcastToLocalClients = (
+  ctx: ServerContext,
+  roomId: string,
+  room: Room,
+  message: string | Buffer,
+  excludeId: string | null = null,
+  options: { binary?: boolean } = {},
+): void => {
+  room.clients.forEach(({ ws: client }) => {
+    if (client.id !== excludeId && client.readyState === WebSocket.OPEN) {
+      if (client.bufferedAmount > ctx.config.WS_SEND_BUFFER_HIGH_WATER) {
+        closeSlowClient(ctx, client, roomId);
+        return;
+      }
+      client.send(message, options, (error) => {
+        if (error) {
+          ctx.log(LOG_LEVELS.ERROR, 'Failed to broadcast message', { event: 'send-failed', roomId, clientId: client.id, error });
+          ctx.metrics.errors++;
+        }
+      });
+    }
+  });
+};
+
+export const broadcastToRoom = (
+  ctx: ServerContext,
+  roomId: string,
+  data: ServerMessage,
+  excludeWs: RelaySocket | null = null,
+): void => {
+  const room = ctx.rooms.get(roomId);
+  if (!room) return;
+
+  const message = JSON.stringify(data);
+  broadcastToLocalClients(ctx, roomId, room, message, excludeWs?.id);
+  if (room.remoteClients.size > 0) {
+    ctx.backplane.publish(roomId, { kind: 'relay', data, excludeId: excludeWs?.id });
+  }
+
+  ctx.metrics.messagesRelayed++;
+  observeHistogram(ctx.metrics.messageBytes, Buffer.byteLength(message));
+};
+
+export const checkRateLimit = (ctx: ServerContext, ws: RelaySocket): boolean => {
+  const now = ctx.now();
+  let counter = ctx.messageCounters.get(ws.id);
+
+  if (!counter || now > counter.resetTime) {
+    counter = { count: 0, resetTime: now + ctx.config.RATE_LIMIT_WINDOW };
+  }
+
+  counter.count++;
+  ctx.messageCounters.set(ws.id, counter);
+
+  if (counter.count > ctx.config.MESSAGE_RATE_LIMIT) {
+    ctx.log(LOG_LEVELS.WARN, 'Rate limit exceeded', { event: 'rate-limited', roomId: ws.roomId, clientId: ws.id, code: ERROR_CODES.RATE_LIMITED });
+    ctx.metrics.rateLimitHits++;
+    ws.rateLimitHits++;
+    const room = ws.roomId ? ctx.rooms.get(ws.roomId) : null;
+    if (room) room.rateLimitHits++;
+    return false;
+  }
+  return true;
+};
+
+export const cleanupClient = (ctx: ServerContext, wsId: string): void => {
+  ctx.messageCounters.delete(wsId);
+};
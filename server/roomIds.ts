@@ -0,0 +1,88 @@
+// Room ids.  ROOM_ID_FORMAT picks characters (ROOM_ID_LENGTH drawn from
+// ROOM_ID_ALPHABET) or words (ROOM_ID_WORD_COUNT from the list below,
+// joined by hyphens).  Rooms made under another format stay joinable.
+
+import crypto from 'crypto';
+import { ERROR_CODES, Validation } from './errors';
+import type { ServerContext } from './types';
+
+const ROOM_ID_WORDS = (
+  'acorn alpine amber anchor apple arrow aspen atlas aurora autumn badge bamboo banjo basil bayou ' +
+  'beacon berry birch bison blaze bloom blossom bolt boulder breeze brook cabin cactus cairn camel ' +
+  'canary canyon carbon cardinal cascade cedar cherry chestnut cider cinder citrus cliff cloud ' +
+  'clover cobalt cocoa comet condor copper coral cosmic cotton cove crane crater cricket crisp ' +
+  'crystal cypress dahlia daisy dawn delta desert dingo dolphin dove dragon drift dune dusk eagle ' +
+  'echo elm ember emerald fable falcon fawn fern fiddle fig finch firefly fjord flame flint forest ' +
+  'fossil fox frost galaxy gale garden garnet gecko ginger glacier glade glow granite grape gravel ' +
+  'grove gull harbor hawk hazel heather heron hickory hollow honey horizon husky indigo iris island ' +
+  'ivory jade jasmine jasper jelly jungle juniper kayak kelp kestrel kettle kiwi koala lagoon ' +
+  'lantern lark laurel lava lemon lichen lilac lime linen lotus lunar lynx magnet mango maple ' +
+  'marble marsh meadow meadowlark melon mesa meteor mint mist moose moss nectar needle nimbus noble ' +
+  'nova nutmeg oak oasis ocean olive onyx opal orbit orchid otter owl panda panther papaya pearl ' +
+  'pebble pepper pine pixel plum polar pony poppy prairie prism puffin quail quartz quill rabbit ' +
+  'radar rain raven reef ridge river robin rocket rose ruby saffron sage salmon sand sapphire satin ' +
+  'sequoia shadow shell sierra silver sky slate snow solar sparrow spice spruce squid star stone ' +
+  'storm summit sun swan tango teal thistle thunder tiger timber topaz tulip tundra turtle umber ' +
+  'valley velvet violet vista walnut walrus wave willow wind winter wolf wren yak yarrow zebra ' +
+  'zenith zephyr '
+).trim().split(' '); // 256 words, one byte of entropy each
+const ROOM_ID_WORD_SET = new Set(ROOM_ID_WORDS);
+const LEGACY_ROOM_ID_PATTERN = /^[A-Z0-9]{6}$/; // Rooms from before IDs were configurable
+const MAX_ROOM_ID_LENGTH = 64;
+
+/**
+ * Character IDs are case-insensitive and kept upper case; word IDs are
+ * kept lower case.
+ */
+export const normalizeRoomId = (roomId: string): string => (
+  roomId.includes('-') ? roomId.toLowerCase() : roomId.toUpperCase()
+);
+
+const randomRoomId = (ctx: ServerContext): string => {
+  const { config } = ctx;
+  if (config.ROOM_ID_FORMAT === 'words') {
+    const words = Array.from(
+      { length: config.ROOM_ID_WORD_COUNT },
+      () => ROOM_ID_WORDS[crypto.randomInt(ROOM_ID_WORDS.length)],
+    );
+    return `${words.join('-')}-${String(crypto.randomInt(100)).padStart(2, '0')}`;
+  }
+  const alphabet = config.ROOM_ID_ALPHABET;
+  return Array.from({ length: config.ROOM_ID_LENGTH }, () => alphabet[crypto.randomInt(alphabet.length)]).join('');
+};
+
+export const generateRoomId = (ctx: ServerContext): string => {
+  let roomId;
+  do {
+    roomId = randomRoomId(ctx);
+  } while (ctx.rooms.has(roomId));
+  return roomId;
+};
+
+/**
+ * Accepts legacy 6-character IDs and IDs of either scheme.
+ */
+export const isRecognizedRoomId = (ctx: ServerContext, roomId: string): boolean => {
+  if (LEGACY_ROOM_ID_PATTERN.test(roomId)) return true;
+
+  const parts = roomId.split('-');
+  if (parts.length > 1) {
+    const number = parts.pop() as string;
+    return parts.length >= 2 && parts.length <= 6
+      && /^\d{2}$/.test(number)
+      && parts.every(word => ROOM_ID_WORD_SET.has(word));
+  }
+
+  return roomId.length === ctx.config.ROOM_ID_LENGTH
+    && Array.from(roomId).every(c => ctx.config.ROOM_ID_ALPHABET.includes(c));
+};
+
+export const validateRoomId = (ctx: ServerContext, roomId: unknown): Validation => {
+  if (!roomId) {
+    return { valid: false, code: ERROR_CODES.ROOM_ID_REQUIRED, message: 'Room ID is required' };
+  }
+  if (typeof roomId !== 'string' || roomId.length > MAX_ROOM_ID_LENGTH || !isRecognizedRoomId(ctx, normalizeRoomId(roomId))) {
+    return { valid: false, code: ERROR_CODES.INVALID_ROOM_ID, message: 'Invalid room ID format' };
+  }
+  return { valid: true };
+};
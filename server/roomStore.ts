@@ -0,0 +1,97 @@
+// A store keeps a snapshot of each room (passphrase verifier, knock mode and
+// the recent clip buffer) so rooms outlive a restart.  Live state such as
+// connected clients and transfers is never stored.
+
+import fs from 'fs';
+import path from 'path';
+import type { ServerConfig } from './config';
+import { LOG_LEVELS, Logger } from './logging';
+import type { BufferedClip, RoomPassphrase } from './types';
+
+export interface RoomSnapshot {
+  passphrase: RoomPassphrase | null;
+  knock: boolean;
+  lastActivity: number;
+  clips: BufferedClip[];
+}
+
+export interface RoomStore {
+  load: () => Record<string, RoomSnapshot>;
+  save: (roomId: string, snapshot: RoomSnapshot) => void;
+  remove: (roomId: string) => void;
+  close: () => void;
+}
+
+export const createMemoryRoomStore = (): RoomStore => ({
+  load: () => ({}),
+  save: () => {},
+  remove: () => {},
+  close: () => {},
+});
+
+export const createFileRoomStore = (filePath: string, flushDelay: number, log: Logger): RoomStore => {
+  let snapshots: Record<string, RoomSnapshot> = {};
+  let flushTimer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const flush = () => {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      // Write then rename, so a crash mid-write leaves the previous file intact
+      const tempPath = `${filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({ version: 1, rooms: snapshots }), { mode: 0o600 });
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      log(LOG_LEVELS.ERROR, 'Failed to write room store', { event: 'store-write-failed', path: filePath, error });
+    }
+  };
+
+  const scheduleFlush = () => {
+    if (!closed && !flushTimer) {
+      flushTimer = setTimeout(flush, flushDelay);
+    }
+  };
+
+  return {
+    load: () => {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        snapshots = parsed && parsed.version === 1 && parsed.rooms ? parsed.rooms : {};
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          log(LOG_LEVELS.WARN, 'Ignoring unreadable room store', { event: 'store-read-failed', path: filePath, error });
+        }
+        snapshots = {};
+      }
+      return snapshots;
+    },
+    save: (roomId, snapshot) => {
+      snapshots[roomId] = snapshot;
+      scheduleFlush();
+    },
+    remove: (roomId) => {
+      if (snapshots[roomId]) {
+        delete snapshots[roomId];
+        scheduleFlush();
+      }
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      flush();
+    },
+  };
+};
+
+export const createRoomStore = (config: ServerConfig, log: Logger): RoomStore => {
+  switch (config.ROOM_STORE) {
+    case 'memory':
+      return createMemoryRoomStore();
+    case 'file':
+      return createFileRoomStore(config.ROOM_STORE_PATH, config.ROOM_STORE_FLUSH_DELAY, log);
+    default:
+      throw new Error(`Unknown ROOM_STORE "${config.ROOM_STORE}". Use "memory" or "file".`);
+  }
+};
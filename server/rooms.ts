@@ -0,0 +1,235 @@
+// Room state on this node: creation, membership views, persistence and the
+// buffer of recent encrypted clips replayed to returning devices.
+
+import crypto from 'crypto';
+import type { ServerClipboard, ServerMessage, ServerRoomUpdate } from '../client/src/protocol/messages';
+import type { RoomClient } from '../client/src/types';
+import { announceMembers } from './cluster';
+import { cancelPendingJoin } from './joinApproval';
+import { LOG_LEVELS } from './logging';
+import { ONE_HOUR } from './quotas';
+import { broadcastToLocalClients, sendJsonToClient, sendMessage } from './relay';
+import { isRecognizedRoomId } from './roomIds';
+import { dropSession } from './sessions';
+import { estimateEncodedPayloadBytes } from './transfers';
+import type { LocalMember, RelaySocket, RemoteMember, Room, RoomPassphrase, ServerContext } from './types';
+
+export const createRoomState = (
+  ctx: ServerContext,
+  passphrase: RoomPassphrase | null = null,
+  ownerId: string | null = null,
+): Room => ({
+  clients: new Map(),
+  ownerId,
+  locked: false,
+  knock: false,
+  pending: new Map(),
+  passphrase,
+  lastActivity: ctx.now(),
+  activeTransfers: new Map(),
+  transferState: new Map(),
+  clips: [],
+  remoteClients: new Map(),
+  settingsVersion: 0,
+  rateLimitHits: 0,
+  byteQuota: { bytes: 0, resetTime: ctx.now() + ONE_HOUR },
+});
+
+export const getMemberCount = (room: Room): number => room.clients.size + room.remoteClients.size;
+
+// Local entries carry `ws`; remote ones carry the `nodeId` they live on
+export const getMember = (room: Room, clientId: string): LocalMember | RemoteMember | null => (
+  room.clients.get(clientId) || room.remoteClients.get(clientId) || null
+);
+
+export const getLocalMemberList = (room: Room): RoomClient[] => Array.from(room.clients.values()).map(c => ({
+  id: c.ws.id,
+  publicKey: c.publicKey,
+  ...(c.identity ? { identity: c.identity } : {}),
+}));
+
+const getRoomClientList = (room: Room): RoomClient[] => {
+  const remote = Array.from(room.remoteClients.values()).map(c => ({
+    id: c.id,
+    publicKey: c.publicKey,
+    ...(c.identity ? { identity: c.identity } : {}),
+  }));
+  return [...getLocalMemberList(room), ...remote];
+};
+
+export const getRoomUpdate = (roomId: string, room: Room): ServerRoomUpdate => ({
+  type: 'room-update',
+  roomId,
+  clients: getRoomClientList(room),
+  clientCount: getMemberCount(room),
+  ownerId: room.ownerId,
+  locked: room.locked,
+  knock: room.knock,
+});
+
+export const bumpRoomSettings = (ctx: ServerContext, room: Room): void => {
+  room.settingsVersion = Math.max(room.settingsVersion + 1, ctx.now());
+};
+
+export const trackRoom = (ctx: ServerContext, roomId: string, room: Room): void => {
+  ctx.rooms.set(roomId, room);
+  ctx.backplane.subscribe(roomId);
+};
+
+export const deleteRoom = (ctx: ServerContext, roomId: string): void => {
+  ctx.rooms.delete(roomId);
+  ctx.roomStore.remove(roomId);
+  ctx.backplane.unsubscribe(roomId);
+};
+
+// One summary entry, plus an entry per room at DEBUG level
+export const logRoomStatus = (ctx: ServerContext): void => {
+  let clients = 0;
+  let transfers = 0;
+  ctx.rooms.forEach((room, roomId) => {
+    clients += room.clients.size;
+    transfers += room.transferState.size;
+    ctx.log(LOG_LEVELS.DEBUG, 'Room status', {
+      event: 'room-status',
+      roomId,
+      clients: room.clients.size,
+      remoteClients: room.remoteClients.size,
+      transfers: room.transferState.size,
+    });
+  });
+  ctx.log(LOG_LEVELS.INFO, 'Active rooms', { event: 'rooms-status', rooms: ctx.rooms.size, clients, transfers });
+};
+
+// Closes every local member's connection; members on other nodes are told they left
+export const closeRoom = (ctx: ServerContext, roomId: string, room: Room, reason: string): void => {
+  room.clients.forEach(({ ws: client }) => {
+    sendMessage(ctx, client, { type: 'room-closed', reason });
+    dropSession(ctx, client);
+    client.close();
+  });
+  room.clients.clear();
+  room.pending.forEach(({ ws: waiting }) => cancelPendingJoin(ctx, waiting, true));
+  announceMembers(ctx, roomId, room);
+  deleteRoom(ctx, roomId);
+  logRoomStatus(ctx);
+};
+
+/**
+ * Tells this node's members about the room and the other nodes about this
+ * node's members.  room-update itself never crosses the backplane, as each
+ * node builds it from its own view.
+ */
+export const sendRoomUpdate = (ctx: ServerContext, roomId: string, room: Room, excludeWs: RelaySocket | null = null): void => {
+  broadcastToLocalClients(ctx, roomId, room, JSON.stringify(getRoomUpdate(roomId, room)), excludeWs?.id);
+  announceMembers(ctx, roomId, room);
+};
+
+/**
+ * Delivers a message to one member wherever it is connected.  Returns false
+ * for an unknown member.
+ */
+export const sendToMember = (ctx: ServerContext, roomId: string, room: Room, targetId: string, data: ServerMessage): boolean => {
+  const local = room.clients.get(targetId);
+  if (local) {
+    sendJsonToClient(ctx, local.ws, data, roomId);
+    return true;
+  }
+  if (room.remoteClients.has(targetId)) {
+    ctx.backplane.publish(roomId, { kind: 'relay', data, targetId });
+    return true;
+  }
+  return false;
+};
+
+// Hands ownership on when the owner is gone, preferring this node's longest-present member
+export const ensureRoomOwner = (ctx: ServerContext, room: Room): boolean => {
+  if (!room.ownerId || getMember(room, room.ownerId)) return false;
+  room.ownerId = room.clients.keys().next().value ?? room.remoteClients.keys().next().value ?? null;
+  bumpRoomSettings(ctx, room);
+  return true;
+};
+
+// ─── Persistence ─────────────────────────────────────────────────────
+
+export const persistRoom = (ctx: ServerContext, roomId: string, room: Room): void => {
+  ctx.roomStore.save(roomId, {
+    passphrase: room.passphrase,
+    knock: room.knock,
+    lastActivity: room.lastActivity,
+    clips: room.clips,
+  });
+};
+
+/**
+ * Rebuilds rooms saved before a restart.  They come back empty and without
+ * an owner; members rejoin them as their clients reconnect.
+ */
+export const restoreRooms = (ctx: ServerContext): void => {
+  const snapshots = ctx.roomStore.load();
+  Object.entries(snapshots).forEach(([roomId, snapshot]) => {
+    if (!isRecognizedRoomId(ctx, roomId) || !snapshot || typeof snapshot !== 'object') {
+      ctx.roomStore.remove(roomId);
+      return;
+    }
+    const room = createRoomState(ctx, snapshot.passphrase || null);
+    room.knock = !!snapshot.knock;
+    room.lastActivity = Number(snapshot.lastActivity) || ctx.now();
+    room.clips = Array.isArray(snapshot.clips) ? snapshot.clips.slice(-ctx.config.CLIP_BUFFER_SIZE) : [];
+    trackRoom(ctx, roomId, room);
+  });
+  if (ctx.rooms.size > 0) {
+    ctx.log(LOG_LEVELS.INFO, 'Restored rooms', { event: 'store-restored', rooms: ctx.rooms.size, store: ctx.config.ROOM_STORE });
+  }
+};
+
+// ─── Clip buffer ─────────────────────────────────────────────────────
+
+// Clips are addressed by a hash of each recipient's E2EE public key rather
+// than its client id, which changes on every reconnect
+const getPublicKeyId = (publicKey: JsonWebKey): string => crypto.createHash('sha256')
+  .update(`${publicKey.kty}:${publicKey.crv}:${publicKey.x}:${publicKey.y}`)
+  .digest('hex')
+  .slice(0, 32);
+
+export const bufferClip = (ctx: ServerContext, roomId: string, room: Room, ws: RelaySocket, message: ServerClipboard): void => {
+  const { config } = ctx;
+  if (message.fileId || typeof message.clipId !== 'string' || message.clipId.length > config.MAX_FILE_ID_LENGTH) return;
+  if (!message.encryptedContent || typeof message.encryptedContent !== 'object') return; // Plaintext is never kept
+  if (estimateEncodedPayloadBytes(message.encryptedContent) > config.MAX_BUFFERED_CLIP_BYTES) return;
+  const sender = room.clients.get(ws.id);
+  if (!sender?.publicKey) return;
+
+  const encryptedContent: Record<string, string> = {};
+  Object.entries(message.encryptedContent).forEach(([clientId, ciphertext]) => {
+    const recipient = getMember(room, clientId);
+    if (recipient?.publicKey && typeof ciphertext === 'string') {
+      encryptedContent[getPublicKeyId(recipient.publicKey)] = ciphertext;
+    }
+  });
+  if (Object.keys(encryptedContent).length === 0) return;
+
+  room.clips.push({
+    clipId: message.clipId,
+    contentType: message.contentType,
+    compression: message.compression,
+    timestamp: message.timestamp,
+    senderId: ws.id,
+    senderPublicKey: sender.publicKey,
+    encryptedContent,
+  });
+  if (room.clips.length > config.CLIP_BUFFER_SIZE) {
+    room.clips.splice(0, room.clips.length - config.CLIP_BUFFER_SIZE);
+  }
+  persistRoom(ctx, roomId, room);
+};
+
+export const replayClips = (ctx: ServerContext, ws: RelaySocket, room: Room, publicKey: JsonWebKey | undefined): void => {
+  if (!publicKey || room.clips.length === 0) return;
+  const keyId = getPublicKeyId(publicKey);
+  room.clips.forEach(({ encryptedContent, ...clip }) => {
+    if (encryptedContent[keyId]) {
+      // A bare ciphertext, since the client may not have its new id yet when these arrive
+      sendMessage(ctx, ws, { type: 'clipboard', ...clip, encryptedContent: encryptedContent[keyId], buffered: true });
+    }
+  });
+};
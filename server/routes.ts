@@ -0,0 +1,256 @@
+// HTTP side of the relay: security headers, CORS, the static client build,
+// the small JSON API, health and metrics, and the admin API.
+
+import cors from 'cors';
+import express, { Express, Request, Response } from 'express';
+import path from 'path';
+import { checkAdminAuth, checkHealthAuth, getClientIp, verifyUploadPassword } from './auth';
+import { LOG_LEVELS } from './logging';
+import { formatPrometheusMetrics } from './metrics';
+import { sendMessage } from './relay';
+import { normalizeRoomId } from './roomIds';
+import { closeRoom, getMemberCount } from './rooms';
+import { dropSession } from './sessions';
+import { getTransferState } from './transfers';
+import type { RelaySocket, Room, ServerContext } from './types';
+
+const normalizeOrigin = (origin: unknown): string => {
+  if (!origin || typeof origin !== 'string') {
+    return '';
+  }
+  return origin.trim().toLowerCase().replace(/\/+$/, '');
+};
+
+/**
+ * Browser origins allowed to call the API and open sockets.  Outside
+ * production an empty ALLOWED_ORIGINS allows any origin.
+ */
+export const isOriginAllowed = (ctx: ServerContext, origin: string | undefined): boolean => {
+  const { IS_PRODUCTION, ALLOWED_ORIGINS } = ctx.config;
+  if (!origin) {
+    return !IS_PRODUCTION;
+  }
+
+  if (!IS_PRODUCTION && ALLOWED_ORIGINS.length === 0) {
+    return true;
+  }
+
+  const normalizedOrigin = normalizeOrigin(origin);
+  return ALLOWED_ORIGINS.some((allowedOrigin) => normalizeOrigin(allowedOrigin) === normalizedOrigin);
+};
+
+const applyTrustProxy = (app: Express, trustProxyValue: string | undefined): void => {
+  if (!trustProxyValue) return;
+  const numericValue = Number(trustProxyValue);
+  if (trustProxyValue === 'true') {
+    app.set('trust proxy', true);
+  } else if (trustProxyValue === 'false') {
+    app.set('trust proxy', false);
+  } else if (!Number.isNaN(numericValue)) {
+    app.set('trust proxy', numericValue);
+  } else {
+    app.set('trust proxy', trustProxyValue);
+  }
+};
+
+// ─── Admin API ───────────────────────────────────────────────────────
+
+// Operators inspect and manage this node's live rooms.  Summaries carry
+// counts, ids and timings only: never clip contents, file names or keys.
+
+const getAdminTransfers = (room: Room) => {
+  const transfers: {
+    clientId: string;
+    fileId: string;
+    bytesRelayed: number;
+    declaredSize: number | null;
+    chunksRelayed: number;
+    totalChunks: number | null;
+    startedAt: number;
+  }[] = [];
+  room.clients.forEach(({ ws }) => {
+    (room.activeTransfers.get(ws.id) || new Set<string>()).forEach((fileId) => {
+      const transfer = getTransferState(room, ws, fileId);
+      if (!transfer) return;
+      transfers.push({
+        clientId: ws.id,
+        fileId,
+        bytesRelayed: transfer.bytesRelayed,
+        declaredSize: transfer.declaredSize,
+        chunksRelayed: transfer.chunksRelayed,
+        totalChunks: transfer.totalChunks,
+        startedAt: transfer.startedAt,
+      });
+    });
+  });
+  return transfers;
+};
+
+const getAdminRoomSummary = (ctx: ServerContext, roomId: string, room: Room) => ({
+  roomId,
+  clientCount: getMemberCount(room),
+  remoteClientCount: room.remoteClients.size,
+  pendingCount: room.pending.size,
+  ownerId: room.ownerId,
+  locked: room.locked,
+  knock: room.knock,
+  protected: !!room.passphrase,
+  bufferedClips: room.clips.length,
+  lastActivity: room.lastActivity,
+  rateLimitHits: room.rateLimitHits,
+  bytesThisHour: ctx.now() > room.byteQuota.resetTime ? 0 : room.byteQuota.bytes,
+  clients: Array.from(room.clients.values(), ({ ws }) => ({
+    id: ws.id,
+    connectedAt: ws.connectedAt,
+    rateLimitHits: ws.rateLimitHits,
+    userAgent: ws.userAgent,
+  })),
+  transfers: getAdminTransfers(room),
+});
+
+const findClientSocket = (ctx: ServerContext, clientId: string): RelaySocket | null => {
+  for (const ws of ctx.wss.clients) {
+    if ((ws as RelaySocket).id === clientId) return ws as RelaySocket;
+  }
+  return null;
+};
+
+// ─── Routes ──────────────────────────────────────────────────────────
+
+export const registerRoutes = (ctx: ServerContext): void => {
+  const { app, config } = ctx;
+  applyTrustProxy(app, config.TRUST_PROXY);
+
+  app.disable('x-powered-by');
+  app.use((req, res, next) => {
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Referrer-Policy', 'no-referrer');
+    res.setHeader('X-Frame-Options', 'DENY');
+    res.setHeader('Permissions-Policy', 'clipboard-read=(self), clipboard-write=(self)');
+    if (config.IS_PRODUCTION && req.secure) {
+      res.setHeader('Strict-Transport-Security', 'max-age=31536000; includeSubDomains');
+    }
+    next();
+  });
+
+  app.use(cors({
+    origin: (origin, callback) => {
+      // Requests without Origin are typically non-browser/server-to-server/health checks.
+      // CORS is a browser control, so allow these to avoid false production errors.
+      if (!origin) {
+        callback(null, true);
+        return;
+      }
+
+      if (isOriginAllowed(ctx, origin)) {
+        callback(null, true);
+        return;
+      }
+
+      ctx.log(LOG_LEVELS.WARN, 'Rejected CORS origin', { event: 'cors-rejected', origin });
+      callback(null, false);
+    },
+    methods: ['GET', 'POST', 'OPTIONS'],
+  }));
+  app.use(express.json({ limit: config.HTTP_JSON_LIMIT }));
+  app.use(express.static(config.CLIENT_BUILD_PATH, {
+    etag: true,
+    maxAge: 0,
+    setHeaders: (res, filePath) => {
+      if (config.IS_PRODUCTION && filePath.includes(`${path.sep}static${path.sep}`)) {
+        res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+        return;
+      }
+      res.setHeader('Cache-Control', 'no-cache');
+    },
+  }));
+
+  // Room ID scheme, so the join form can size and check its input
+  app.get('/api/room-id-format', (req, res) => {
+    res.json({
+      format: config.ROOM_ID_FORMAT,
+      length: config.ROOM_ID_LENGTH,
+      alphabet: config.ROOM_ID_ALPHABET,
+      wordCount: config.ROOM_ID_WORD_COUNT,
+    });
+  });
+
+  // Upload password verification endpoint
+  app.post('/api/verify-upload-password', (req, res) => verifyUploadPassword(ctx, req, res));
+
+  // Health check endpoint with metrics (Basic Auth protected)
+  app.get('/health', (req, res) => {
+    if (!checkHealthAuth(ctx, req, res)) return;
+    const { metrics } = ctx;
+    const uptime = ctx.now() - metrics.startTime;
+    // 503 while draining, so load balancers stop sending clients here
+    res.status(ctx.isShuttingDown ? 503 : 200).json({
+      status: ctx.isShuttingDown ? 'draining' : 'ok',
+      uptime: uptime,
+      uptimeHuman: `${Math.floor(uptime / 1000 / 60 / 60)}h ${Math.floor((uptime / 1000 / 60) % 60)}m`,
+      rooms: ctx.rooms.size,
+      connections: ctx.wss.clients.size,
+      metrics: {
+        totalConnections: metrics.totalConnections,
+        activeConnections: metrics.activeConnections,
+        messagesRelayed: metrics.messagesRelayed,
+        filesTransferred: metrics.filesTransferred,
+        roomsCreated: metrics.roomsCreated,
+        errors: metrics.errors,
+        rateLimitHits: metrics.rateLimitHits,
+      },
+    });
+  });
+
+  // Prometheus scrape endpoint (same Basic Auth as /health)
+  app.get('/metrics', (req, res) => {
+    if (!checkHealthAuth(ctx, req, res)) return;
+    res.type('text/plain; version=0.0.4; charset=utf-8').send(formatPrometheusMetrics(ctx));
+  });
+
+  // Live rooms on this node, for the admin page
+  app.get('/api/admin/rooms', (req, res) => {
+    if (!checkAdminAuth(ctx, req, res)) return;
+    res.json({
+      nodeId: ctx.backplane.nodeId,
+      connections: ctx.wss.clients.size,
+      rooms: Array.from(ctx.rooms, ([roomId, room]) => getAdminRoomSummary(ctx, roomId, room)),
+    });
+  });
+
+  app.post('/api/admin/rooms/:roomId/close', (req: Request, res: Response) => {
+    if (!checkAdminAuth(ctx, req, res)) return;
+    const roomId = normalizeRoomId(req.params.roomId);
+    const room = ctx.rooms.get(roomId);
+    if (!room) {
+      res.status(404).json({ error: 'Room not found' });
+      return;
+    }
+    ctx.log(LOG_LEVELS.INFO, 'Room closed by admin', { event: 'admin-room-closed', roomId, ip: getClientIp(ctx, req) });
+    closeRoom(ctx, roomId, room, 'admin');
+    res.json({ closed: true });
+  });
+
+  app.post('/api/admin/clients/:clientId/disconnect', (req: Request, res: Response) => {
+    if (!checkAdminAuth(ctx, req, res)) return;
+    const ws = findClientSocket(ctx, req.params.clientId);
+    if (!ws) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+    ctx.log(LOG_LEVELS.INFO, 'Client disconnected by admin', {
+      event: 'admin-client-disconnected', roomId: ws.roomId, clientId: ws.id, ip: getClientIp(ctx, req),
+    });
+    if (ws.roomId) {
+      sendMessage(ctx, ws, { type: 'kicked', roomId: ws.roomId, reason: 'admin' });
+    }
+    dropSession(ctx, ws); // No coming back into the room
+    ws.close(1008, 'Disconnected by an administrator');
+    res.json({ disconnected: true });
+  });
+
+  // Catch-all for SPA
+  app.get('*', (req, res) => {
+    res.sendFile(path.join(config.CLIENT_BUILD_PATH, 'index.html'));
+  });
+};
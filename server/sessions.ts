@@ -0,0 +1,88 @@
+// Session resumption.  Members get a session token with every successful
+// join.  When the socket drops, the member stays in the room (suspended)
+// for SESSION_RESUME_GRACE; a new socket joining with the token takes over
+// its id, membership and relayed transfers, so peers see neither a leave
+// nor a join.  Tokens are single use and live on this node only.
+
+import crypto from 'crypto';
+import WebSocket from 'ws';
+import { handleLeave } from './handlers';
+import { getJoinRequest } from './joinApproval';
+import { LOG_LEVELS } from './logging';
+import { cleanupClient, sendMessage } from './relay';
+import { getRoomUpdate, replayClips } from './rooms';
+import type { RelaySocket, ServerContext } from './types';
+
+export const dropSession = (ctx: ServerContext, ws: RelaySocket): void => {
+  const session = ws.sessionToken && ctx.sessions.get(ws.sessionToken);
+  if (session) {
+    if (session.timer) clearTimeout(session.timer);
+    ctx.sessions.delete(ws.sessionToken as string);
+  }
+  ws.sessionToken = null;
+};
+
+export const issueSession = (ctx: ServerContext, ws: RelaySocket, roomId: string): string => {
+  dropSession(ctx, ws);
+  const token = crypto.randomBytes(32).toString('base64url');
+  ctx.sessions.set(token, { ws, roomId, timer: null });
+  ws.sessionToken = token;
+  return token;
+};
+
+/**
+ * Keeps a disconnected member in its room until the grace period ends.
+ * Returns false when there is nothing to keep, so the caller leaves instead.
+ */
+export const suspendSession = (ctx: ServerContext, ws: RelaySocket): boolean => {
+  const session = ws.sessionToken && ctx.sessions.get(ws.sessionToken);
+  const room = ws.roomId && ctx.rooms.get(ws.roomId);
+  if (!session || !room || !room.clients.has(ws.id)) {
+    dropSession(ctx, ws);
+    return false;
+  }
+
+  session.timer = setTimeout(() => {
+    ctx.log(LOG_LEVELS.INFO, 'Session expired', { event: 'session-expired', roomId: ws.roomId, clientId: ws.id });
+    dropSession(ctx, ws);
+    handleLeave(ctx, ws);
+  }, ctx.config.SESSION_RESUME_GRACE);
+  ctx.log(LOG_LEVELS.INFO, 'Client suspended', { event: 'session-suspended', roomId: ws.roomId, clientId: ws.id });
+  return true;
+};
+
+/**
+ * Moves a suspended member onto a new socket.  Returns false when the token
+ * is unknown, expired or for another room, so the caller joins normally.
+ */
+export const resumeSession = (ctx: ServerContext, ws: RelaySocket, roomId: string, token: unknown): boolean => {
+  const session = typeof token === 'string' && ctx.sessions.get(token);
+  const room = ctx.rooms.get(roomId);
+  const member = session && room?.clients.get(session.ws.id);
+  if (!session || session.roomId !== roomId || !room || !member || ws.roomId) {
+    return false;
+  }
+
+  const previous = session.ws;
+  if (session.timer) clearTimeout(session.timer);
+  ctx.sessions.delete(token as string);
+  previous.sessionToken = null;
+  if (previous.readyState === WebSocket.OPEN || previous.readyState === WebSocket.CONNECTING) {
+    // The client noticed the drop before the server did; the old socket must not leave on close
+    previous.roomId = null;
+    previous.terminate();
+  }
+
+  cleanupClient(ctx, ws.id);
+  ws.id = previous.id;
+  ws.roomId = roomId;
+  member.ws = ws;
+  room.lastActivity = ctx.now();
+
+  sendMessage(ctx, ws, { ...getRoomUpdate(roomId, room), clientId: ws.id, sessionToken: issueSession(ctx, ws, roomId) });
+  room.pending.forEach((waiting) => sendMessage(ctx, ws, getJoinRequest(waiting)));
+  replayClips(ctx, ws, room, member.publicKey);
+
+  ctx.log(LOG_LEVELS.INFO, 'Session resumed', { event: 'session-resumed', roomId, clientId: ws.id });
+  return true;
+};
@@ -0,0 +1,187 @@
+// Helpers for driving a real relay from tests: a server on an ephemeral
+// port with a clock the test moves by hand, and scripted WebSocket clients
+// that speak the wire protocol.
+
+import WebSocket from 'ws';
+import type { ClientMessage, ServerMessage } from '../../client/src/protocol/messages';
+import { PROTOCOL_VERSION } from '../../client/src/protocol/schema';
+import { loadConfig, ServerConfig } from '../config';
+import { createServer, RelayServer, ServerOptions } from '../createServer';
+
+const DEFAULT_TIMEOUT = 2000;
+
+// ─── Clock ───────────────────────────────────────────────────────────
+
+export interface TestClock {
+  now: () => number;
+  advance: (ms: number) => void;
+}
+
+// Starts at the real time and only moves when told to
+export const createClock = (start = Date.now()): TestClock => {
+  let current = start;
+  return {
+    now: () => current,
+    advance: (ms) => {
+      current += ms;
+    },
+  };
+};
+
+// ─── Relay ───────────────────────────────────────────────────────────
+
+export interface TestRelay {
+  relay: RelayServer;
+  clock: TestClock;
+  port: number;
+  connect: () => Promise<TestClient>;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Starts a relay on an ephemeral port.  `env` is read like the process
+ * environment; `overrides` set limits that have no variable of their own;
+ * `options` swap in a backplane or room store.
+ */
+export const startRelay = async (
+  env: NodeJS.ProcessEnv = {},
+  overrides: Partial<ServerConfig> = {},
+  options: ServerOptions = {},
+): Promise<TestRelay> => {
+  const config: ServerConfig = {
+    ...loadConfig({ LOG_LEVEL: 'error', ...env }),
+    SHUTDOWN_DRAIN_POLL_INTERVAL: 10,
+    SHUTDOWN_CLOSE_GRACE: 0,
+    ...overrides,
+  };
+  const clock = createClock();
+  const relay = createServer(config, { ...options, now: clock.now });
+  const port = await relay.listen(0);
+  const clients: TestClient[] = [];
+
+  return {
+    relay,
+    clock,
+    port,
+    connect: async () => {
+      const client = await connectClient(port);
+      clients.push(client);
+      return client;
+    },
+    // Shutting down first closes the sockets without keeping sessions open for
+    // them.  Tests often end mid-transfer, so the drain timeout is skipped.
+    stop: async () => {
+      const stopping = relay.shutdown('test');
+      clock.advance(config.SHUTDOWN_DRAIN_TIMEOUT);
+      await stopping;
+      await Promise.all(clients.map((client) => client.close()));
+    },
+  };
+};
+
+// ─── Clients ─────────────────────────────────────────────────────────
+
+type MessageOf<T extends ServerMessage['type']> = Extract<ServerMessage, { type: T }>;
+
+export interface TestClient {
+  ws: WebSocket;
+  send: (message: ClientMessage | Record<string, unknown>) => void;
+  sendBinary: (frame: Buffer) => void;
+  next: <T extends ServerMessage['type']>(type: T, timeout?: number) => Promise<MessageOf<T>>;
+  nextBinary: (timeout?: number) => Promise<Buffer>;
+  expectNone: (type: ServerMessage['type'], wait?: number) => Promise<void>;
+  closed: () => Promise<number>; // Resolves with the close code
+  close: () => Promise<void>;
+}
+
+/**
+ * Polls `take` until it returns something or the timeout passes.  Messages
+ * stay queued until a test asks for them, so the order of arrival and of
+ * the test's questions don't have to match.
+ */
+const waitFor = <T>(take: () => T | undefined, timeout: number, describe: () => string): Promise<T> => (
+  new Promise((resolve, reject) => {
+    const deadline = Date.now() + timeout;
+    const poll = () => {
+      const value = take();
+      if (value !== undefined) {
+        resolve(value);
+      } else if (Date.now() >= deadline) {
+        reject(new Error(describe()));
+      } else {
+        setTimeout(poll, 5);
+      }
+    };
+    poll();
+  })
+);
+
+// Opens a socket and completes the hello handshake
+export const connectClient = async (port: number): Promise<TestClient> => {
+  const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+  const inbox: ServerMessage[] = [];
+  const frames: Buffer[] = [];
+  const closed = new Promise<number>((resolve) => ws.once('close', resolve));
+
+  ws.on('message', (data, isBinary) => {
+    if (isBinary) {
+      frames.push(data as Buffer);
+    } else {
+      inbox.push(JSON.parse(data.toString()));
+    }
+  });
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve);
+    ws.once('error', reject);
+  });
+
+  const take = <T extends ServerMessage['type']>(type: T): MessageOf<T> | undefined => {
+    const index = inbox.findIndex((message) => message.type === type);
+    return index === -1 ? undefined : inbox.splice(index, 1)[0] as MessageOf<T>;
+  };
+
+  const client: TestClient = {
+    ws,
+    send: (message) => ws.send(JSON.stringify(message)),
+    sendBinary: (frame) => ws.send(frame, { binary: true }),
+    next: (type, timeout = DEFAULT_TIMEOUT) => waitFor(
+      () => take(type),
+      timeout,
+      () => `No '${type}' message within ${timeout}ms; got ${JSON.stringify(inbox.map((message) => message.type))}`,
+    ),
+    nextBinary: (timeout = DEFAULT_TIMEOUT) => waitFor(
+      () => frames.shift(),
+      timeout,
+      () => `No binary frame within ${timeout}ms`,
+    ),
+    expectNone: async (type, wait = 100) => {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+      const message = take(type);
+      if (message) {
+        throw new Error(`Unexpected '${type}' message: ${JSON.stringify(message)}`);
+      }
+    },
+    closed: () => closed,
+    close: async () => {
+      if (ws.readyState === WebSocket.CLOSED) return;
+      ws.close();
+      await closed;
+    },
+  };
+
+  client.send({ type: 'hello', version: PROTOCOL_VERSION });
+  await client.next('hello');
+  return client;
+};
+
+// Builds a binary chunk frame: 2-byte file id length, the file id, then
+// 4-byte chunk index and chunk count, then the payload
+export const encodeChunkFrame = (fileId: string, chunkIndex: number, totalChunks: number, payload: Buffer): Buffer => {
+  const id = Buffer.from(fileId, 'utf8');
+  const header = Buffer.alloc(2 + id.length + 8);
+  header.writeUInt16BE(id.length, 0);
+  id.copy(header, 2);
+  header.writeUInt32BE(chunkIndex, 2 + id.length);
+  header.writeUInt32BE(totalChunks, 2 + id.length + 4);
+  return Buffer.concat([header, payload]);
+};
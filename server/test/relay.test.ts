@@ -0,0 +1,339 @@
+// Integration tests for the relay protocol: each test starts its own relay
+// on an ephemeral port and drives it with scripted WebSocket clients.
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { createMemoryRoomStore } from '../roomStore';
+import { encodeChunkFrame, startRelay, TestClient, TestRelay } from './harness';
+
+let relay: TestRelay | null = null;
+
+const start = async (...args: Parameters<typeof startRelay>): Promise<TestRelay> => {
+  relay = await startRelay(...args);
+  return relay;
+};
+
+afterEach(async () => {
+  await relay?.stop();
+  relay = null;
+});
+
+// Creates a room with the first client and joins it with the second
+const createRoomWithPeer = async ({ connect }: TestRelay) => {
+  const owner = await connect();
+  const peer = await connect();
+  owner.send({ type: 'create' });
+  const created = await owner.next('room-update');
+  peer.send({ type: 'join', roomId: created.roomId });
+  const joined = await peer.next('room-update');
+  await owner.next('room-update'); // The owner hears about the peer
+  return { owner, peer, roomId: created.roomId, ownerId: created.clientId, peerId: joined.clientId };
+};
+
+const startFile = (client: TestClient, fileId: string, fields: Record<string, unknown> = {}) => {
+  client.send({ type: 'file-start', fileId, fileName: 'notes.txt', ...fields });
+};
+
+describe('rooms', () => {
+  it('creates a room, lets a peer join and leave', async () => {
+    const server = await start();
+    const { owner, peer, roomId, ownerId, peerId } = await createRoomWithPeer(server);
+
+    const room = server.relay.ctx.rooms.get(roomId);
+    assert.ok(room);
+    assert.equal(room.ownerId, ownerId);
+    assert.deepEqual(Array.from(room.clients.keys()).sort(), [ownerId, peerId].sort());
+
+    peer.send({ type: 'leave' });
+    const update = await owner.next('room-update');
+    assert.deepEqual(update.clients.map((client) => client.id), [ownerId]);
+    assert.equal(update.clientCount, 1);
+  });
+
+  it('rejects a join to an unknown room id format', async () => {
+    const server = await start();
+    const client = await server.connect();
+    client.send({ type: 'join', roomId: 'not a room' });
+    const error = await client.next('error');
+    assert.equal(error.code, 'INVALID_ROOM_ID');
+  });
+
+  it('deletes the room once the last member leaves', async () => {
+    const server = await start();
+    const { owner, peer, roomId } = await createRoomWithPeer(server);
+    peer.send({ type: 'leave' });
+    await owner.next('room-update');
+    owner.send({ type: 'leave' });
+    await owner.expectNone('error');
+    assert.equal(server.relay.ctx.rooms.has(roomId), false);
+  });
+
+  it('answers a join that fails part way with an error', async () => {
+    const roomStore = {
+      ...createMemoryRoomStore(),
+      save: () => {
+        throw new Error('Disk full');
+      },
+    };
+    const server = await start({}, {}, { roomStore });
+    const client = await server.connect();
+
+    client.send({ type: 'join', roomId: 'ABC123' });
+    assert.equal((await client.next('error')).code, 'INVALID_MESSAGE');
+    client.send({ type: 'clipboard', clipId: 'clip-1', content: 'hello' });
+    assert.equal((await client.next('error')).code, 'NOT_IN_ROOM'); // Still served
+  });
+});
+
+describe('text relay', () => {
+  it('relays a clip to the other members only', async () => {
+    const server = await start();
+    const { owner, peer, ownerId } = await createRoomWithPeer(server);
+
+    owner.send({ type: 'clipboard', clipId: 'clip-1', content: 'hello' });
+    const clip = await peer.next('clipboard');
+    assert.equal(clip.content, 'hello');
+    assert.equal(clip.senderId, ownerId);
+    assert.equal(clip.timestamp, server.clock.now());
+    await owner.expectNone('clipboard');
+  });
+
+  it('refuses clips from a client outside a room', async () => {
+    const server = await start();
+    const client = await server.connect();
+    client.send({ type: 'clipboard', clipId: 'clip-1', content: 'hello' });
+    assert.equal((await client.next('error')).code, 'NOT_IN_ROOM');
+  });
+});
+
+describe('file transfers', () => {
+  it('announces a file and relays its binary chunks unchanged', async () => {
+    const server = await start();
+    const { owner, peer, roomId, ownerId } = await createRoomWithPeer(server);
+
+    startFile(owner, 'file-1', { declaredFileSize: 8 });
+    const announced = await peer.next('file-start');
+    assert.equal(announced.fileId, 'file-1');
+    assert.equal(announced.senderId, ownerId);
+    assert.equal('declaredFileSize' in announced, false); // Server-side policy fields stay on the server
+
+    const frames = [
+      encodeChunkFrame('file-1', 0, 2, Buffer.from('abcd')),
+      encodeChunkFrame('file-1', 1, 2, Buffer.from('efgh')),
+    ];
+    frames.forEach((frame) => owner.sendBinary(frame));
+    assert.deepEqual(await peer.nextBinary(), frames[0]);
+    assert.deepEqual(await peer.nextBinary(), frames[1]);
+
+    const { ctx } = server.relay;
+    assert.equal(ctx.metrics.filesTransferred, 1);
+    assert.equal(ctx.rooms.get(roomId)?.transferState.size, 0);
+  });
+
+  it('refuses chunks for a file that was never announced', async () => {
+    const server = await start();
+    const { owner, peer } = await createRoomWithPeer(server);
+
+    owner.sendBinary(encodeChunkFrame('file-1', 0, 1, Buffer.from('data')));
+    assert.equal((await owner.next('error')).code, 'FILE_TRANSFER_REQUIRED');
+    await assert.rejects(peer.nextBinary(100));
+  });
+
+  it('refuses a malformed binary frame', async () => {
+    const server = await start();
+    const { owner } = await createRoomWithPeer(server);
+
+    owner.sendBinary(Buffer.from([0, 40, 1, 2, 3, 4, 5, 6, 7, 8]));
+    assert.equal((await owner.next('error')).code, 'INVALID_MESSAGE');
+  });
+
+  it('cancels the transfers of a sender that disconnects', async () => {
+    const server = await start({ SESSION_RESUME_GRACE_MS: '50' });
+    const { owner, peer, ownerId } = await createRoomWithPeer(server);
+
+    startFile(owner, 'file-1');
+    await peer.next('file-start');
+    owner.sendBinary(encodeChunkFrame('file-1', 0, 3, Buffer.from('part')));
+    await peer.nextBinary();
+
+    await owner.close();
+    const cancel = await peer.next('file-cancel');
+    assert.deepEqual(cancel, { type: 'file-cancel', fileId: 'file-1', senderId: ownerId });
+    const update = await peer.next('room-update');
+    assert.equal(update.clientCount, 1);
+  });
+
+  it('stops a transfer that grows past the maximum file size', async () => {
+    const server = await start({ MAX_FILE_SIZE_BYTES: '1024', FILE_SIZE_ENFORCEMENT_GRACE_BYTES: '16' });
+    const { owner, peer } = await createRoomWithPeer(server);
+
+    startFile(owner, 'file-1');
+    await peer.next('file-start');
+    owner.sendBinary(encodeChunkFrame('file-1', 0, 2, Buffer.alloc(1000)));
+    await peer.nextBinary();
+    owner.sendBinary(encodeChunkFrame('file-1', 1, 2, Buffer.alloc(100)));
+
+    const error = await owner.next('error');
+    assert.equal(error.code, 'FILE_TOO_LARGE');
+    assert.equal(error.fileId, 'file-1');
+    assert.equal((await peer.next('file-cancel')).fileId, 'file-1');
+    await assert.rejects(peer.nextBinary(100));
+  });
+
+  it('refuses a file declared over the maximum size', async () => {
+    const server = await start({ MAX_FILE_SIZE_BYTES: '1024' });
+    const { owner, peer } = await createRoomWithPeer(server);
+
+    startFile(owner, 'file-1', { declaredFileSize: 2048 });
+    assert.equal((await owner.next('error')).code, 'FILE_TOO_LARGE');
+    await peer.expectNone('file-start');
+  });
+});
+
+describe('large file password', () => {
+  const env = {
+    LARGE_FILE_PASSWORD: 'let-me-upload',
+    LARGE_FILE_PASSWORD_THRESHOLD_BYTES: '512',
+    FILE_SIZE_ENFORCEMENT_GRACE_BYTES: '16',
+  };
+
+  const requestUploadToken = async (port: number, password: string): Promise<Response> => (
+    fetch(`http://127.0.0.1:${port}/api/verify-upload-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password }),
+    })
+  );
+
+  it('requires a token for a file declared over the threshold', async () => {
+    const server = await start(env);
+    const { owner, peer } = await createRoomWithPeer(server);
+
+    startFile(owner, 'file-1', { declaredFileSize: 600 });
+    assert.equal((await owner.next('error')).code, 'LARGE_FILE_AUTH_REQUIRED');
+    await peer.expectNone('file-start');
+  });
+
+  it('stops an unauthorized transfer once it passes the threshold', async () => {
+    const server = await start(env);
+    const { owner, peer } = await createRoomWithPeer(server);
+
+    startFile(owner, 'file-1');
+    await peer.next('file-start');
+    owner.sendBinary(encodeChunkFrame('file-1', 0, 2, Buffer.alloc(500)));
+    await peer.nextBinary();
+    owner.sendBinary(encodeChunkFrame('file-1', 1, 2, Buffer.alloc(100)));
+
+    const error = await owner.next('error');
+    assert.equal(error.code, 'LARGE_FILE_AUTH_REQUIRED');
+    assert.equal((await peer.next('file-cancel')).fileId, 'file-1');
+  });
+
+  it('lets a file over the threshold through with a valid token', async () => {
+    const server = await start(env);
+    const { owner, peer } = await createRoomWithPeer(server);
+
+    const rejected = await requestUploadToken(server.port, 'wrong');
+    assert.equal(rejected.status, 401);
+    const response = await requestUploadToken(server.port, env.LARGE_FILE_PASSWORD);
+    const { valid, uploadToken } = await response.json();
+    assert.equal(valid, true);
+
+    startFile(owner, 'file-1', { declaredFileSize: 600, uploadToken });
+    await peer.next('file-start');
+    const frame = encodeChunkFrame('file-1', 0, 1, Buffer.alloc(600));
+    owner.sendBinary(frame);
+    assert.deepEqual(await peer.nextBinary(), frame);
+    await owner.expectNone('error');
+  });
+
+  it('refuses a token once it has expired', async () => {
+    const server = await start({ ...env, UPLOAD_TOKEN_TTL_MS: '1000' });
+    const { owner } = await createRoomWithPeer(server);
+
+    const { uploadToken } = await (await requestUploadToken(server.port, env.LARGE_FILE_PASSWORD)).json();
+    server.clock.advance(1001);
+    startFile(owner, 'file-1', { declaredFileSize: 600, uploadToken });
+    assert.equal((await owner.next('error')).code, 'LARGE_FILE_AUTH_REQUIRED');
+  });
+});
+
+describe('rate limiting', () => {
+  it('drops messages over the limit until the window passes', async () => {
+    const server = await start({ MESSAGE_RATE_LIMIT: '5', RATE_LIMIT_WINDOW_MS: '1000' });
+    const { owner, peer } = await createRoomWithPeer(server);
+
+    server.clock.advance(1001); // A fresh window after the hello and create
+    for (let i = 0; i < 6; i++) {
+      owner.send({ type: 'clipboard', clipId: `clip-${i}`, content: `clip ${i}` });
+    }
+    const error = await owner.next('error');
+    assert.equal(error.code, 'RATE_LIMITED');
+    for (let i = 0; i < 5; i++) {
+      await peer.next('clipboard');
+    }
+    await peer.expectNone('clipboard');
+
+    server.clock.advance(1001);
+    owner.send({ type: 'clipboard', clipId: 'clip-late', content: 'later' });
+    assert.equal((await peer.next('clipboard')).content, 'later');
+    assert.equal(server.relay.ctx.metrics.rateLimitHits, 1);
+  });
+
+  it('counts binary frames against the same limit', async () => {
+    const server = await start({ MESSAGE_RATE_LIMIT: '2' });
+    const { owner } = await createRoomWithPeer(server);
+
+    server.clock.advance(1001); // A fresh window after the hello and create
+    startFile(owner, 'file-1');
+    owner.sendBinary(encodeChunkFrame('file-1', 0, 3, Buffer.from('a')));
+    owner.sendBinary(encodeChunkFrame('file-1', 1, 3, Buffer.from('b')));
+    assert.equal((await owner.next('error')).code, 'RATE_LIMITED');
+  });
+});
+
+describe('inactive rooms', () => {
+  it('closes a room once it has been idle too long', async () => {
+    const server = await start({}, { MAX_ROOM_INACTIVITY: 60 * 1000, INACTIVE_ROOM_CHECK_INTERVAL: 10 });
+    const { owner, peer, roomId } = await createRoomWithPeer(server);
+
+    server.clock.advance(59 * 1000);
+    await owner.expectNone('room-closed', 50);
+    owner.send({ type: 'clipboard', clipId: 'clip-1', content: 'still here' }); // Activity restarts the idle time
+    await peer.next('clipboard');
+
+    server.clock.advance(59 * 1000);
+    await owner.expectNone('room-closed', 50);
+    assert.equal(server.relay.ctx.rooms.has(roomId), true);
+
+    server.clock.advance(2 * 1000);
+    assert.equal((await owner.next('room-closed')).reason, 'inactivity');
+    assert.equal((await peer.next('room-closed')).reason, 'inactivity');
+    await Promise.all([owner.closed(), peer.closed()]);
+    assert.equal(server.relay.ctx.rooms.has(roomId), false);
+  });
+});
+
+describe('shutdown', () => {
+  it('waits for running transfers until the drain timeout passes', async () => {
+    const server = await start({ SHUTDOWN_DRAIN_TIMEOUT_MS: '10000' });
+    const { owner, peer } = await createRoomWithPeer(server);
+
+    startFile(owner, 'file-1');
+    await peer.next('file-start');
+    owner.sendBinary(encodeChunkFrame('file-1', 0, 2, Buffer.from('part')));
+    await peer.nextBinary();
+
+    let stopped = false;
+    const stopping = server.relay.shutdown('test').then(() => {
+      stopped = true;
+    });
+    await peer.expectNone('reconnect-after', 50);
+    assert.equal(stopped, false);
+
+    server.clock.advance(10 * 1000);
+    await stopping;
+    assert.ok((await peer.next('reconnect-after')).delay >= 0);
+    assert.equal(await peer.closed(), 1012);
+  });
+});
@@ -0,0 +1,291 @@
+// Relayed file transfers.  A transfer is announced with 'file-start', then
+// its chunks arrive as binary frames (or legacy 'file-chunk' messages).
+// Every chunk is counted against the size limits and quotas before it is
+// relayed, whatever size the sender declared up front.
+
+import type { ClientFileChunk, ClientFileResume, ClientFileStart } from '../client/src/protocol/messages';
+import { isUploadTokenValid } from './auth';
+import { ERROR_CODES, ErrorCode, Validation } from './errors';
+import { observeHistogram } from './metrics';
+import { chargeRelayBytes, recordQuotaRejection } from './quotas';
+import { broadcastToRoom, sendError } from './relay';
+import type { RelaySocket, Room, ServerContext, TransferState } from './types';
+
+export interface BinaryFrameHeader {
+  fileId: string;
+  chunkIndex: number;
+  totalChunks: number;
+  payloadLength: number;
+}
+
+export const countRelayedTransfers = (ctx: ServerContext): number => {
+  let transfers = 0;
+  ctx.rooms.forEach((room) => {
+    transfers += room.transferState.size;
+  });
+  return transfers;
+};
+
+const getTransferKey = (ws: RelaySocket, fileId: string): string => `${ws.id}:${fileId}`;
+
+export const isValidFileId = (ctx: ServerContext, fileId: unknown): fileId is string => (
+  typeof fileId === 'string'
+  && fileId.length > 0
+  && fileId.length <= ctx.config.MAX_FILE_ID_LENGTH
+  && /^[A-Za-z0-9._:-]+$/.test(fileId)
+);
+
+export const parseDeclaredFileSize = (data: ClientFileStart): { valid: boolean; size: number | null } => {
+  const size = data.declaredFileSize ?? data.fileSize;
+  if (size === undefined || size === null) {
+    return { valid: true, size: null };
+  }
+
+  if (typeof size !== 'number' || !Number.isSafeInteger(size) || size < 0) {
+    return { valid: false, size: null };
+  }
+
+  return { valid: true, size };
+};
+
+export const stripTransferControlFields = <T extends object>(data: T): Omit<T, 'uploadToken' | 'declaredFileSize'> => {
+  const { uploadToken, declaredFileSize, ...publicData } = data as T & { uploadToken?: unknown; declaredFileSize?: unknown };
+  return publicData;
+};
+
+export const estimateEncodedPayloadBytes = (value: unknown): number => {
+  if (typeof value === 'string') {
+    return Math.ceil(value.length * 3 / 4);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).reduce((total: number, item) => total + estimateEncodedPayloadBytes(item), 0);
+  }
+  return 0;
+};
+
+export const getTransferState = (room: Room, ws: RelaySocket, fileId: string): TransferState | undefined => (
+  room.transferState?.get(getTransferKey(ws, fileId))
+);
+
+export const startFileTransfer = (
+  ctx: ServerContext,
+  room: Room,
+  ws: RelaySocket,
+  fileId: string,
+  options: { authorizedLarge?: boolean; declaredSize?: number | null; expectedChunks?: number | null } = {},
+): void => {
+  let active = room.activeTransfers.get(ws.id);
+  if (!active) {
+    active = new Set();
+    room.activeTransfers.set(ws.id, active);
+  }
+
+  active.add(fileId);
+  room.transferState.set(getTransferKey(ws, fileId), {
+    authorizedLarge: Boolean(options.authorizedLarge),
+    bytesRelayed: 0,
+    declaredSize: options.declaredSize ?? null,
+    totalChunks: null,
+    expectedChunks: options.expectedChunks ?? null,
+    chunksRelayed: 0,
+    startedAt: ctx.now(),
+  });
+};
+
+export const finishFileTransfer = (room: Room, ws: RelaySocket, fileId: string): void => {
+  const active = room.activeTransfers.get(ws.id);
+  if (active) {
+    active.delete(fileId);
+    if (active.size === 0) {
+      room.activeTransfers.delete(ws.id);
+    }
+  }
+  room.transferState.delete(getTransferKey(ws, fileId));
+};
+
+// Called once the last chunk is relayed, as opposed to a cancelled transfer
+export const completeFileTransfer = (ctx: ServerContext, room: Room, ws: RelaySocket, fileId: string): void => {
+  const transfer = getTransferState(room, ws, fileId);
+  if (transfer) {
+    observeHistogram(ctx.metrics.transferSeconds, (ctx.now() - transfer.startedAt) / 1000);
+  }
+  finishFileTransfer(room, ws, fileId);
+  ctx.metrics.filesTransferred++;
+};
+
+const cancelFileTransfer = (
+  ctx: ServerContext,
+  roomId: string,
+  room: Room,
+  ws: RelaySocket,
+  fileId: string,
+  code: ErrorCode,
+  message: string,
+): void => {
+  sendError(ctx, ws, code, message, { fileId });
+  broadcastToRoom(ctx, roomId, { type: 'file-cancel', fileId, senderId: ws.id }, ws);
+  finishFileTransfer(room, ws, fileId);
+};
+
+/**
+ * Counts a chunk against its transfer's limits and the quotas.  Returns
+ * false, after cancelling the transfer where it exists, when the chunk
+ * must not be relayed.
+ */
+export const registerTransferBytes = (
+  ctx: ServerContext,
+  roomId: string,
+  room: Room,
+  ws: RelaySocket,
+  fileId: string,
+  totalChunks: number,
+  bytes: number,
+): boolean => {
+  const { config } = ctx;
+  const transfer = getTransferState(room, ws, fileId);
+  if (!transfer) {
+    sendError(ctx, ws, ERROR_CODES.FILE_TRANSFER_REQUIRED, 'File transfer must be announced before chunks are sent');
+    return false;
+  }
+
+  if (transfer.totalChunks !== null && transfer.totalChunks !== totalChunks) {
+    cancelFileTransfer(ctx, roomId, room, ws, fileId, ERROR_CODES.INVALID_MESSAGE, 'File chunk metadata mismatch');
+    return false;
+  }
+  transfer.totalChunks = totalChunks;
+
+  const nextBytes = transfer.bytesRelayed + bytes;
+  if (nextBytes > config.MAX_FILE_SIZE + config.FILE_SIZE_ENFORCEMENT_GRACE_BYTES) {
+    cancelFileTransfer(ctx, roomId, room, ws, fileId, ERROR_CODES.FILE_TOO_LARGE, `File exceeds maximum size of ${config.MAX_FILE_SIZE} bytes`);
+    return false;
+  }
+
+  if (
+    !transfer.authorizedLarge
+    && nextBytes > config.LARGE_FILE_PASSWORD_THRESHOLD + config.FILE_SIZE_ENFORCEMENT_GRACE_BYTES
+  ) {
+    cancelFileTransfer(ctx, roomId, room, ws, fileId, ERROR_CODES.LARGE_FILE_AUTH_REQUIRED, 'Large files require upload password verification');
+    return false;
+  }
+
+  const quotaError = chargeRelayBytes(ctx, ws, room, bytes);
+  if (quotaError) {
+    recordQuotaRejection(ctx, ws, quotaError.code, fileId);
+    cancelFileTransfer(ctx, roomId, room, ws, fileId, quotaError.code, quotaError.message);
+    return false;
+  }
+
+  transfer.bytesRelayed = nextBytes;
+  transfer.chunksRelayed++;
+  return true;
+};
+
+export const isTransferComplete = (
+  room: Room,
+  ws: RelaySocket,
+  fileId: string,
+  chunkIndex: number,
+  totalChunks: number,
+): boolean => {
+  const transfer = getTransferState(room, ws, fileId);
+  if (transfer && transfer.expectedChunks !== null) {
+    return transfer.chunksRelayed >= transfer.expectedChunks;
+  }
+  return chunkIndex === totalChunks - 1;
+};
+
+// ─── Validation ──────────────────────────────────────────────────────
+
+export const validateFileStart = (ctx: ServerContext, data: ClientFileStart): Validation => {
+  const { config } = ctx;
+  if (!isValidFileId(ctx, data.fileId)) {
+    return { valid: false, code: ERROR_CODES.INVALID_FILE_ID, message: 'Invalid file ID' };
+  }
+
+  const declaredFileSize = parseDeclaredFileSize(data);
+  if (!declaredFileSize.valid) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid file size' };
+  }
+  if (declaredFileSize.size !== null && declaredFileSize.size > config.MAX_FILE_SIZE) {
+    return { valid: false, code: ERROR_CODES.FILE_TOO_LARGE, message: `File exceeds maximum size of ${config.MAX_FILE_SIZE} bytes` };
+  }
+  if (
+    declaredFileSize.size !== null
+    && declaredFileSize.size > config.LARGE_FILE_PASSWORD_THRESHOLD
+    && !isUploadTokenValid(ctx, data.uploadToken)
+  ) {
+    return { valid: false, code: ERROR_CODES.LARGE_FILE_AUTH_REQUIRED, message: 'Large files require upload password verification' };
+  }
+  if (data.fileName && (typeof data.fileName !== 'string' || data.fileName.length > config.MAX_FILENAME_LENGTH)) {
+    return { valid: false, code: ERROR_CODES.INVALID_FILENAME, message: 'Invalid filename' };
+  }
+  if (
+    data.resume
+    && (!Number.isSafeInteger(data.resumeChunks) || (data.resumeChunks as number) <= 0 || (data.resumeChunks as number) > config.MAX_TOTAL_CHUNKS)
+  ) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid resume chunk count' };
+  }
+  if (data.transport !== undefined && data.transport !== 'relay' && data.transport !== 'p2p') {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid transfer transport' };
+  }
+  return { valid: true };
+};
+
+export const validateFileResume = (ctx: ServerContext, data: ClientFileResume): Validation => {
+  const { config } = ctx;
+  if (!isValidFileId(ctx, data.fileId)) {
+    return { valid: false, code: ERROR_CODES.INVALID_FILE_ID, message: 'Invalid file ID' };
+  }
+  if (
+    !Array.isArray(data.missingChunks)
+    || data.missingChunks.length === 0
+    || data.missingChunks.length > config.MAX_TOTAL_CHUNKS
+    || !data.missingChunks.every((index) => Number.isSafeInteger(index) && index >= 0 && index < config.MAX_TOTAL_CHUNKS)
+  ) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid missing chunk list' };
+  }
+  return { valid: true };
+};
+
+export const validateFileChunk = (ctx: ServerContext, data: ClientFileChunk): Validation => {
+  if (!isValidFileId(ctx, data.fileId)) {
+    return { valid: false, code: ERROR_CODES.INVALID_FILE_ID, message: 'Invalid file ID' };
+  }
+  if (
+    !Number.isSafeInteger(data.chunkIndex)
+    || !Number.isSafeInteger(data.totalChunks)
+  ) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid chunk data' };
+  }
+  if (data.totalChunks === 0 || data.totalChunks > ctx.config.MAX_TOTAL_CHUNKS || data.chunkIndex < 0 || data.chunkIndex >= data.totalChunks) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Chunk index out of range' };
+  }
+  return { valid: true };
+};
+
+/**
+ * Reads the header of a binary chunk frame: 2-byte file id length, the
+ * file id, then 4-byte chunk index and chunk count.  Returns null for a
+ * malformed frame.
+ */
+export const decodeBinaryFrameHeader = (ctx: ServerContext, data: Buffer): BinaryFrameHeader | null => {
+  const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+  if (buffer.length < 10) return null;
+
+  const idLen = buffer.readUInt16BE(0);
+  if (idLen === 0 || idLen > ctx.config.MAX_FILE_ID_LENGTH || 2 + idLen + 8 > buffer.length) {
+    return null;
+  }
+
+  const offset = 2 + idLen;
+  const fileId = buffer.toString('utf8', 2, offset);
+  const chunkIndex = buffer.readUInt32BE(offset);
+  const totalChunks = buffer.readUInt32BE(offset + 4);
+  const payloadOffset = offset + 8;
+
+  if (!isValidFileId(ctx, fileId) || totalChunks === 0 || totalChunks > ctx.config.MAX_TOTAL_CHUNKS || chunkIndex >= totalChunks) {
+    return null;
+  }
+
+  return { fileId, chunkIndex, totalChunks, payloadLength: buffer.length - payloadOffset };
+};
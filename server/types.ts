@@ -0,0 +1,143 @@
+// Shapes of the relay's live state, and the context every server module
+// takes as its first argument.  One context is one server: tests can run
+// several side by side in a process.
+
+import type { Express } from 'express';
+import type WebSocket from 'ws';
+import type { PeerIdentity } from '../client/src/types';
+import type { ServerConfig } from './config';
+import type { Logger } from './logging';
+import type { Metrics } from './metrics';
+import type { RoomStore } from './roomStore';
+import type { Backplane, MembersEnvelope, Received } from './backplane';
+
+// A WebSocket with the relay's per-connection bookkeeping
+export interface RelaySocket extends WebSocket {
+  id: string;
+  ip: string;
+  userAgent: string;
+  connectedAt: number;
+  rateLimitHits: number;
+  isAlive: boolean;
+  protocolVersion: number | null; // Set by the client's hello
+  roomId?: string | null;
+  pendingRoomId?: string | null; // The room this client is knocking on
+  sessionToken?: string | null;
+}
+
+export interface LocalMember {
+  ws: RelaySocket;
+  publicKey?: JsonWebKey;
+  identity?: PeerIdentity | null;
+}
+
+// A member connected to another node
+export interface RemoteMember {
+  id: string;
+  publicKey?: JsonWebKey;
+  identity?: PeerIdentity | null;
+  nodeId: string;
+  seenAt: number;
+}
+
+export interface PendingJoin {
+  ws: RelaySocket;
+  publicKey?: JsonWebKey;
+  identity?: PeerIdentity | null;
+}
+
+export interface RoomPassphrase {
+  salt: string;
+  verifier: string;
+}
+
+export interface TransferState {
+  authorizedLarge: boolean;
+  bytesRelayed: number;
+  declaredSize: number | null;
+  totalChunks: number | null;
+  expectedChunks: number | null; // Resumed transfers carry only the missing chunks, so they finish by count
+  chunksRelayed: number;
+  startedAt: number;
+}
+
+// A text clip kept for replay, with one ciphertext per recipient key id
+export interface BufferedClip {
+  clipId: string;
+  contentType?: string;
+  compression?: 'gzip' | 'deflate';
+  timestamp?: number;
+  senderId: string;
+  senderPublicKey: JsonWebKey;
+  encryptedContent: Record<string, string>;
+}
+
+export interface Room {
+  clients: Map<string, LocalMember>;
+  ownerId: string | null; // Only rooms made with 'create' start with an owner
+  locked: boolean; // A locked room admits no new joins
+  knock: boolean; // In knock mode a join waits in `pending` until a member approves it
+  pending: Map<string, PendingJoin>;
+  passphrase: RoomPassphrase | null; // The passphrase itself never reaches the server
+  lastActivity: number;
+  activeTransfers: Map<string, Set<string>>; // ws.id -> file ids
+  transferState: Map<string, TransferState>; // See getTransferKey
+  clips: BufferedClip[]; // Recent encrypted text clips, replayed to devices that come back with the same key
+  remoteClients: Map<string, RemoteMember>;
+  settingsVersion: number; // Bumped when owner, lock or knock change; the newest wins across nodes
+  rateLimitHits: number; // Messages from members dropped by the rate limit
+  byteQuota: { bytes: number; resetTime: number }; // Bytes relayed in the current hour
+}
+
+export interface RateCounter {
+  count: number;
+  resetTime: number;
+}
+
+export interface AttemptState {
+  attempts: number;
+  resetTime: number;
+  lockUntil: number;
+}
+
+export interface IpQuota {
+  connections: number;
+  roomsCreated: number;
+  roomsResetTime: number;
+  bytes: number;
+  bytesResetTime: number;
+}
+
+export interface Session {
+  ws: RelaySocket;
+  roomId: string;
+  timer: NodeJS.Timeout | null;
+}
+
+// A join waiting for other nodes to describe a room
+export interface RoomSync {
+  replies: Received<MembersEnvelope>[];
+  expected: number | null;
+  finish: () => void;
+  promise: Promise<void>;
+}
+
+export interface ServerContext {
+  config: ServerConfig;
+  now: () => number; // The clock every timeout and quota window reads
+  log: Logger;
+  metrics: Metrics;
+  app: Express;
+  wss: WebSocket.Server;
+  roomStore: RoomStore;
+  backplane: Backplane;
+  rooms: Map<string, Room>;
+  messageCounters: Map<string, RateCounter>;
+  verifyPasswordAttempts: Map<string, AttemptState>;
+  roomPassphraseAttempts: Map<string, AttemptState>;
+  adminAttempts: Map<string, AttemptState>;
+  ipQuotas: Map<string, IpQuota>; // See getIpQuota
+  sessions: Map<string, Session>; // Session token -> session, see issueSession
+  roomSyncs: Map<string, RoomSync>;
+  isShuttingDown: boolean; // Set once a shutdown starts the drain
+}
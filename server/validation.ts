@@ -0,0 +1,73 @@
+// Checks on message fields that depend on server limits.  The shared schema
+// has already checked the field types by the time these run.
+
+import type { ClientClipManifest, ClientClipRequest, ClientClipSync, ClientRtcSignal } from '../client/src/protocol/messages';
+import type { PeerIdentity } from '../client/src/types';
+import { ERROR_CODES, Validation } from './errors';
+import type { ServerContext } from './types';
+
+/**
+ * Keeps only the expected identity fields.  The signature is checked by the
+ * peers, never here; anything malformed is simply dropped.
+ */
+export const sanitizeIdentity = (ctx: ServerContext, identity: unknown): PeerIdentity | null => {
+  if (!identity || typeof identity !== 'object') return null;
+  const { publicKey, signature, deviceName } = identity as Partial<Record<keyof PeerIdentity, unknown>>;
+  if (!publicKey || typeof publicKey !== 'object' || typeof signature !== 'string') return null;
+  if (deviceName !== undefined && (typeof deviceName !== 'string' || deviceName.length > ctx.config.MAX_DEVICE_NAME_LENGTH)) {
+    return null;
+  }
+  const { kty, crv, x, y } = publicKey as JsonWebKey;
+  const sanitized = {
+    publicKey: { kty, crv, x, y },
+    signature,
+    ...(deviceName ? { deviceName } : {}),
+  };
+  return JSON.stringify(sanitized).length <= ctx.config.MAX_IDENTITY_BYTES ? sanitized : null;
+};
+
+export const validateTargetId = (data: { targetId?: unknown }): Validation => {
+  if (typeof data.targetId !== 'string' || data.targetId.length === 0 || data.targetId.length > 64) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Target client is required' };
+  }
+  return { valid: true };
+};
+
+export const validateRtcSignal = (ctx: ServerContext, data: ClientRtcSignal): Validation => {
+  if (typeof data.targetId !== 'string' || data.targetId.length === 0) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Signal target is required' };
+  }
+  const signal = data.signal;
+  if (!signal || typeof signal !== 'object' || !['offer', 'answer', 'candidate'].includes(signal.kind)) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid signal' };
+  }
+  if (JSON.stringify(signal).length > ctx.config.MAX_SIGNAL_BYTES) {
+    return { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: 'Signal is too large' };
+  }
+  return { valid: true };
+};
+
+export const validateClipSync = (
+  ctx: ServerContext,
+  data: ClientClipManifest | ClientClipRequest | ClientClipSync,
+): Validation => {
+  const validation = validateTargetId(data);
+  if (!validation.valid) return validation;
+
+  const { MAX_CLIP_SYNC_ENTRIES, MAX_FILE_ID_LENGTH } = ctx.config;
+  const isValidClipId = (clipId: unknown) => typeof clipId === 'string' && clipId.length > 0 && clipId.length <= MAX_FILE_ID_LENGTH;
+  const invalid: Validation = { valid: false, code: ERROR_CODES.INVALID_MESSAGE, message: `Invalid ${data.type}` };
+  switch (data.type) {
+    case 'clip-manifest':
+      return Array.isArray(data.clips) && data.clips.length <= MAX_CLIP_SYNC_ENTRIES
+        && data.clips.every(entry => entry && isValidClipId(entry.clipId) && Number.isFinite(entry.timestamp))
+        ? { valid: true } : invalid;
+    case 'clip-request':
+      return Array.isArray(data.clipIds) && data.clipIds.length <= MAX_CLIP_SYNC_ENTRIES
+        && data.clipIds.every(isValidClipId)
+        ? { valid: true } : invalid;
+    default:
+      return isValidClipId(data.clipId) && (data.encryptedContent !== undefined || typeof data.content === 'string')
+        ? { valid: true } : invalid;
+  }
+};
@@ -0,0 +1,205 @@
+// WebSocket side of the relay: the upgrade check, per-connection setup,
+// routing each message to its handler, and the heartbeat.
+
+import crypto from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import type { ClientMessage } from '../client/src/protocol/messages';
+import { validateClientMessage } from '../client/src/protocol/schema';
+import { getClientIp } from './auth';
+import { announceMembers, expireRemoteMembers } from './cluster';
+import { ERROR_CODES } from './errors';
+import {
+  handleBinaryRelay, handleChunkAck, handleClipboard, handleClipSync, handleCreate, handleFileChunk, handleFileKey,
+  handleFileResume, handleFileStart, handleHello, handleJoin, handleKick, handleLeave, handleLockRoom, handleRtcSignal,
+  handleSetKnock, handleTransferOwner,
+} from './handlers';
+import { cancelPendingJoin, handleJoinResponse } from './joinApproval';
+import { LOG_LEVELS } from './logging';
+import { acquireConnectionQuota, releaseConnectionQuota } from './quotas';
+import { checkRateLimit, cleanupClient, sendError, sendMessage } from './relay';
+import { isOriginAllowed } from './routes';
+import { suspendSession } from './sessions';
+import type { RelaySocket, ServerContext } from './types';
+
+// Sockets are only accepted from allowed origins
+export const handleUpgrade = (ctx: ServerContext, request: IncomingMessage, socket: Duplex, head: Buffer): void => {
+  const origin = request.headers.origin;
+
+  if (!isOriginAllowed(ctx, origin)) {
+    ctx.log(LOG_LEVELS.WARN, 'Rejected WebSocket upgrade', { event: 'upgrade-rejected', origin: origin || null, ip: getClientIp(ctx, request) });
+    socket.write('HTTP/1.1 403 Forbidden\\r\\n\\r\\n');
+    socket.destroy();
+    return;
+  }
+
+  ctx.wss.handleUpgrade(request, socket, head, (ws) => {
+    ctx.wss.emit('connection', ws, request);
+  });
+};
+
+const dispatchMessage = (ctx: ServerContext, ws: RelaySocket, data: ClientMessage): void => {
+  switch (data.type) {
+    case 'hello':
+      handleHello(ctx, ws, data);
+      break;
+    case 'join':
+      // Async, so its failures miss the message handler's try/catch
+      handleJoin(ctx, ws, data).catch((error) => {
+        ctx.log(LOG_LEVELS.ERROR, 'Error handling join', { event: 'message-failed', roomId: ws.roomId, clientId: ws.id, code: ERROR_CODES.INVALID_MESSAGE, error });
+        sendError(ctx, ws, ERROR_CODES.INVALID_MESSAGE, 'Failed to join room');
+      });
+      break;
+    case 'create':
+      handleCreate(ctx, ws, data);
+      break;
+    case 'leave':
+      cancelPendingJoin(ctx, ws);
+      handleLeave(ctx, ws);
+      break;
+    case 'clipboard':
+      handleClipboard(ctx, ws, data);
+      break;
+    case 'file-chunk':
+      handleFileChunk(ctx, ws, data);
+      break;
+    case 'file-start':
+      handleFileStart(ctx, ws, data);
+      break;
+    case 'file-key':
+      handleFileKey(ctx, ws, data);
+      break;
+    case 'chunk-ack':
+      handleChunkAck(ctx, ws, data);
+      break;
+    case 'file-resume':
+      handleFileResume(ctx, ws, data);
+      break;
+    case 'kick':
+      handleKick(ctx, ws, data);
+      break;
+    case 'lock-room':
+      handleLockRoom(ctx, ws, data);
+      break;
+    case 'transfer-owner':
+      handleTransferOwner(ctx, ws, data);
+      break;
+    case 'set-knock':
+      handleSetKnock(ctx, ws, data);
+      break;
+    case 'join-response':
+      handleJoinResponse(ctx, ws, data);
+      break;
+    case 'rtc-signal':
+      handleRtcSignal(ctx, ws, data);
+      break;
+    case 'clip-manifest':
+    case 'clip-request':
+    case 'clip-sync':
+      handleClipSync(ctx, ws, data);
+      break;
+  }
+};
+
+export const handleConnection = (ctx: ServerContext, ws: RelaySocket, request: IncomingMessage): void => {
+  const { config, metrics } = ctx;
+  ws.id = crypto.randomUUID();
+  ws.ip = getClientIp(ctx, request);
+  ws.userAgent = String(request.headers['user-agent'] || '').slice(0, config.MAX_USER_AGENT_LENGTH);
+  ws.connectedAt = ctx.now();
+  ws.rateLimitHits = 0;
+  ws.isAlive = true;
+  ws.protocolVersion = null;
+
+  if (!acquireConnectionQuota(ctx, ws)) {
+    ws.close(1008, 'Too many connections');
+    return;
+  }
+
+  metrics.totalConnections++;
+  metrics.activeConnections++;
+
+  ctx.log(LOG_LEVELS.INFO, 'Client connected', { event: 'connected', clientId: ws.id, origin: request.headers.origin || null, ip: ws.ip });
+
+  ws.on('pong', () => {
+    ws.isAlive = true;
+  });
+
+  ws.on('message', (message, isBinary) => {
+    try {
+      // Binary frames are file-chunk data – relay without parsing
+      if (isBinary) {
+        handleBinaryRelay(ctx, ws, message as Buffer);
+        return;
+      }
+
+      // Check rate limit
+      if (!checkRateLimit(ctx, ws)) {
+        sendError(ctx, ws, ERROR_CODES.RATE_LIMITED, 'Too many messages.  Please slow down.');
+        return;
+      }
+
+      const data = JSON.parse(message.toString());
+
+      // Pages from before the handshake open with a join; their own handler reloads them
+      if (ws.protocolVersion === null && data?.type !== 'hello') {
+        ctx.log(LOG_LEVELS.INFO, 'Reloading client without protocol handshake', { event: 'protocol-rejected', clientId: ws.id, type: data?.type });
+        sendMessage(ctx, ws, { type: 'reload' });
+        ws.close(1008, 'Protocol handshake required');
+        return;
+      }
+
+      const validation = validateClientMessage(data);
+      if (!validation.valid) {
+        const code = validation.code ?? ERROR_CODES.INVALID_MESSAGE;
+        const reason = validation.message ?? 'Invalid message format';
+        ctx.log(LOG_LEVELS.WARN, 'Invalid message', { event: 'invalid-message', roomId: ws.roomId, clientId: ws.id, type: data?.type, code, reason });
+        sendError(ctx, ws, code, reason);
+        return;
+      }
+
+      dispatchMessage(ctx, ws, data as ClientMessage);
+    } catch (error) {
+      ctx.log(LOG_LEVELS.ERROR, 'Error handling message', { event: 'message-failed', roomId: ws.roomId, clientId: ws.id, code: ERROR_CODES.INVALID_MESSAGE, error });
+      sendError(ctx, ws, ERROR_CODES.INVALID_MESSAGE, 'Failed to parse message');
+    }
+  });
+
+  ws.on('close', () => {
+    ctx.log(LOG_LEVELS.INFO, 'Client disconnected', { event: 'disconnected', roomId: ws.roomId, clientId: ws.id });
+    metrics.activeConnections--;
+    releaseConnectionQuota(ctx, ws);
+    cleanupClient(ctx, ws.id);
+    cancelPendingJoin(ctx, ws);
+    // A draining node won't be here for the member to come back to
+    if (ctx.isShuttingDown || !suspendSession(ctx, ws)) {
+      handleLeave(ctx, ws);
+    }
+  });
+
+  ws.on('error', (error) => {
+    ctx.log(LOG_LEVELS.ERROR, 'WebSocket error', { event: 'socket-error', roomId: ws.roomId, clientId: ws.id, error });
+    metrics.errors++;
+  });
+};
+
+// Pings every socket, dropping those that missed the last ping
+export const runHeartbeat = (ctx: ServerContext): void => {
+  ctx.wss.clients.forEach((socket) => {
+    const ws = socket as RelaySocket;
+    if (ws.isAlive === false) {
+      // The close handler cleans up, keeping the member's place in case it comes back
+      ctx.log(LOG_LEVELS.WARN, 'Terminating unresponsive client', { event: 'heartbeat-timeout', roomId: ws.roomId, clientId: ws.id });
+      ws.terminate();
+    } else {
+      ws.isAlive = false;
+      ws.ping();
+    }
+  });
+
+  // Keeps this node's members fresh on the other nodes sharing each room
+  ctx.rooms.forEach((room, roomId) => {
+    expireRemoteMembers(ctx, roomId, room);
+    if (room.clients.size > 0) announceMembers(ctx, roomId, room);
+  });
+};